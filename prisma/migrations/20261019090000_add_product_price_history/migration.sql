@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ProductPriceHistory" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "prices" JSONB NOT NULL,
+    "stockLevel" INTEGER,
+    "stockStatus" INTEGER,
+    "leastLeadTime" INTEGER,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductPriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductPriceHistory_productId_recordedAt_idx" ON "ProductPriceHistory"("productId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "ProductPriceHistory" ADD CONSTRAINT "ProductPriceHistory_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "manufacturer" TEXT,
+ADD COLUMN     "mpn" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProductPriceBreak" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantityFrom" INTEGER NOT NULL,
+    "quantityTo" INTEGER,
+    "cost" DECIMAL(14,5) NOT NULL,
+
+    CONSTRAINT "ProductPriceBreak_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductAttribute" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "unit" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ProductAttribute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductStock" (
+    "productId" TEXT NOT NULL,
+    "level" INTEGER,
+    "status" INTEGER,
+    "leastLeadTime" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductStock_pkey" PRIMARY KEY ("productId")
+);
+
+-- CreateTable
+CREATE TABLE "ProductDatasheet" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "type" TEXT,
+    "description" TEXT,
+    "url" TEXT,
+
+    CONSTRAINT "ProductDatasheet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Product_mpn_idx" ON "Product"("mpn");
+
+-- CreateIndex
+CREATE INDEX "Product_manufacturer_idx" ON "Product"("manufacturer");
+
+-- CreateIndex
+CREATE INDEX "ProductPriceBreak_productId_quantityFrom_idx" ON "ProductPriceBreak"("productId", "quantityFrom");
+
+-- CreateIndex
+CREATE INDEX "ProductPriceBreak_cost_idx" ON "ProductPriceBreak"("cost");
+
+-- CreateIndex
+CREATE INDEX "ProductAttribute_productId_idx" ON "ProductAttribute"("productId");
+
+-- CreateIndex
+CREATE INDEX "ProductAttribute_label_value_idx" ON "ProductAttribute"("label", "value");
+
+-- CreateIndex
+CREATE INDEX "ProductStock_level_idx" ON "ProductStock"("level");
+
+-- CreateIndex
+CREATE INDEX "ProductDatasheet_productId_idx" ON "ProductDatasheet"("productId");
+
+-- AddForeignKey
+ALTER TABLE "ProductPriceBreak" ADD CONSTRAINT "ProductPriceBreak_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductAttribute" ADD CONSTRAINT "ProductAttribute_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductStock" ADD CONSTRAINT "ProductStock_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductDatasheet" ADD CONSTRAINT "ProductDatasheet_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- Trigram matching for part-number fragments
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "attributeText" TEXT;
+
+-- Weighted search document: name/MPN (A), brand (B), description (C), attributes (D)
+ALTER TABLE "Product" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("mpn", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("manufacturer", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce("description", '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce("attributeText", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_mpn_trgm_idx" ON "Product" USING GIN ("mpn" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Product_supplierSku_trgm_idx" ON "Product" USING GIN ("supplierSku" gin_trgm_ops);
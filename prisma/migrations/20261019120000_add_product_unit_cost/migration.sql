@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "unitCost" DECIMAL(14,5);
+
+-- Backfill from the lowest-quantity price break
+UPDATE "Product" p
+SET "unitCost" = pb."cost"
+FROM (
+    SELECT DISTINCT ON ("productId") "productId", "cost"
+    FROM "ProductPriceBreak"
+    ORDER BY "productId", "quantityFrom" ASC
+) pb
+WHERE pb."productId" = p."id";
+
+-- CreateIndex
+CREATE INDEX "Product_unitCost_idx" ON "Product"("unitCost");
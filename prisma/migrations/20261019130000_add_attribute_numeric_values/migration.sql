@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "QuantityKind" AS ENUM ('resistance', 'capacitance', 'inductance', 'voltage', 'current', 'power', 'frequency', 'temperature', 'percent', 'count');
+
+-- CreateEnum
+CREATE TYPE "AttributeParseStatus" AS ENUM ('numeric', 'text', 'unparsed');
+
+-- AlterTable
+-- Existing rows are filled in by `npm run backfill:normalized`.
+ALTER TABLE "ProductAttribute" ADD COLUMN     "parseStatus" "AttributeParseStatus" NOT NULL DEFAULT 'text',
+ADD COLUMN     "quantityKind" "QuantityKind",
+ADD COLUMN     "numericValue" DOUBLE PRECISION,
+ADD COLUMN     "numericMin" DOUBLE PRECISION,
+ADD COLUMN     "numericMax" DOUBLE PRECISION,
+ADD COLUMN     "tolerancePct" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "ProductAttribute_label_numericMin_numericMax_idx" ON "ProductAttribute"("label", "numericMin", "numericMax");
+
+-- CreateIndex
+CREATE INDEX "ProductAttribute_parseStatus_idx" ON "ProductAttribute"("parseStatus");
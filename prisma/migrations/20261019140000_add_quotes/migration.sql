@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "QuoteStatus" AS ENUM ('draft', 'sent', 'accepted');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "minOrderQty" INTEGER,
+ADD COLUMN     "orderMultiple" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Quote" (
+    "id" TEXT NOT NULL,
+    "number" SERIAL NOT NULL,
+    "status" "QuoteStatus" NOT NULL DEFAULT 'draft',
+    "customerName" TEXT,
+    "customerEmail" TEXT,
+    "reference" TEXT,
+    "notes" TEXT,
+    "subtotal" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Quote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuoteLine" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "productId" TEXT,
+    "supplier" "SupplierCode" NOT NULL,
+    "supplierSku" TEXT NOT NULL,
+    "supplierKey" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "manufacturer" TEXT,
+    "mpn" TEXT,
+    "requestedQty" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "minOrderQty" INTEGER NOT NULL,
+    "orderMultiple" INTEGER NOT NULL,
+    "unitPrice" DECIMAL(14,5) NOT NULL,
+    "lineTotal" DECIMAL(14,2) NOT NULL,
+    "priceBreaks" JSONB NOT NULL,
+    "pricedAt" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+
+    CONSTRAINT "QuoteLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quote_number_key" ON "Quote"("number");
+
+-- CreateIndex
+CREATE INDEX "Quote_status_idx" ON "Quote"("status");
+
+-- CreateIndex
+CREATE INDEX "Quote_createdAt_idx" ON "Quote"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "QuoteLine_quoteId_idx" ON "QuoteLine"("quoteId");
+
+-- CreateIndex
+CREATE INDEX "QuoteLine_productId_idx" ON "QuoteLine"("productId");
+
+-- AddForeignKey
+ALTER TABLE "QuoteLine" ADD CONSTRAINT "QuoteLine_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteLine" ADD CONSTRAINT "QuoteLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "PriceRounding" AS ENUM ('nearest', 'up', 'down');
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "customerGroup" TEXT;
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "customerGroup" TEXT;
+
+-- CreateTable
+CREATE TABLE "PricingRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "customerGroup" TEXT,
+    "supplier" "SupplierCode",
+    "brand" TEXT,
+    "minCost" DECIMAL(14,5),
+    "maxCost" DECIMAL(14,5),
+    "markupPct" DECIMAL(7,3) NOT NULL,
+    "minMarginPct" DECIMAL(6,3),
+    "roundingStep" DECIMAL(10,5),
+    "rounding" "PriceRounding" NOT NULL DEFAULT 'nearest',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PricingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PricingRule_priority_key" ON "PricingRule"("priority");
+
+-- CreateIndex
+CREATE INDEX "PricingRule_enabled_priority_idx" ON "PricingRule"("enabled", "priority");
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "ProductPriceBreak" ADD COLUMN "currency" TEXT;
+
+-- Existing breaks were fetched from each supplier's default store.
+UPDATE "ProductPriceBreak" AS b
+SET "currency" = CASE p."supplier"
+    WHEN 'newark' THEN 'USD'
+    WHEN 'element14' THEN 'AUD'
+    ELSE 'GBP'
+  END
+FROM "Product" AS p
+WHERE p."id" = b."productId";
+
+ALTER TABLE "ProductPriceBreak" ALTER COLUMN "currency" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'GBP';
+
+-- AlterTable
+ALTER TABLE "QuoteLine" ADD COLUMN "sourceCurrency" TEXT,
+ADD COLUMN "exchangeRate" DECIMAL(18,8),
+ADD COLUMN "rateDate" DATE;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'GBP';
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "base" TEXT NOT NULL,
+    "quote" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "rateDate" DATE NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_base_quote_rateDate_key" ON "ExchangeRate"("base", "quote", "rateDate");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_base_quote_rateDate_idx" ON "ExchangeRate"("base", "quote", "rateDate" DESC);
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "SyncTrigger" AS ENUM ('cron', 'manual');
+
+-- CreateEnum
+CREATE TYPE "SyncRunStatus" AS ENUM ('running', 'succeeded', 'partial', 'failed');
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" TEXT NOT NULL,
+    "supplier" "SupplierCode" NOT NULL,
+    "trigger" "SyncTrigger" NOT NULL,
+    "status" "SyncRunStatus" NOT NULL DEFAULT 'running',
+    "term" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "pagesFetched" INTEGER NOT NULL DEFAULT 0,
+    "paginationMode" TEXT,
+    "itemsFetched" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_startedAt_idx" ON "SyncRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "SyncRun_supplier_startedAt_idx" ON "SyncRun"("supplier", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SyncRun_status_idx" ON "SyncRun"("status");
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "SyncRunStatus" ADD VALUE 'queued' BEFORE 'running';
+ALTER TYPE "SyncRunStatus" ADD VALUE 'cancelled';
+
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN "queuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "requestedBy" TEXT;
+
+-- Runs recorded before queueing started immediately.
+UPDATE "SyncRun" SET "queuedAt" = "startedAt";
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN "filter" TEXT,
+ADD COLUMN "profileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SyncProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "supplier" "SupplierCode" NOT NULL,
+    "term" TEXT NOT NULL,
+    "filter" TEXT,
+    "targetTotal" INTEGER,
+    "pageSize" INTEGER,
+    "maxPages" INTEGER,
+    "cron" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncProfile_name_key" ON "SyncProfile"("name");
+
+-- CreateIndex
+CREATE INDEX "SyncProfile_supplier_idx" ON "SyncProfile"("supplier");
+
+-- CreateIndex
+CREATE INDEX "SyncRun_profileId_startedAt_idx" ON "SyncRun"("profileId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "SyncRun" ADD CONSTRAINT "SyncRun_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "SyncProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
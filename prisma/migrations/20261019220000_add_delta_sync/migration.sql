@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ProductAvailability" AS ENUM ('active', 'unavailable', 'discontinued');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "availability" "ProductAvailability" NOT NULL DEFAULT 'active',
+ADD COLUMN "availabilityChangedAt" TIMESTAMP(3),
+ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "lastSeenAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN "exhaustive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "markedDiscontinued" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "markedUnavailable" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "unchanged" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "SyncProfileProduct" (
+    "profileId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "lastSeenRunId" TEXT,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "missedRuns" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SyncProfileProduct_pkey" PRIMARY KEY ("profileId","productId")
+);
+
+-- CreateIndex
+CREATE INDEX "Product_availability_idx" ON "Product"("availability");
+
+-- CreateIndex
+CREATE INDEX "SyncProfileProduct_productId_idx" ON "SyncProfileProduct"("productId");
+
+-- CreateIndex
+CREATE INDEX "SyncProfileProduct_profileId_lastSeenRunId_idx" ON "SyncProfileProduct"("profileId", "lastSeenRunId");
+
+-- AddForeignKey
+ALTER TABLE "SyncProfileProduct" ADD CONSTRAINT "SyncProfileProduct_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "SyncProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SyncProfileProduct" ADD CONSTRAINT "SyncProfileProduct_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "SupplierApiUsage" (
+    "api" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "calls" INTEGER NOT NULL DEFAULT 0,
+    "interactiveCalls" INTEGER NOT NULL DEFAULT 0,
+    "backgroundCalls" INTEGER NOT NULL DEFAULT 0,
+    "rejected" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SupplierApiUsage_pkey" PRIMARY KEY ("api","day")
+);
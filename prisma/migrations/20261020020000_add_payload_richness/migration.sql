@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "PayloadRichness" AS ENUM ('small', 'medium', 'large');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "rawRichness" "PayloadRichness",
+ADD COLUMN     "pricesUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "stockUpdatedAt" TIMESTAMP(3);
+
+-- Stored payloads so far came from `large` requests.
+UPDATE "Product"
+SET "rawRichness" = 'large',
+    "pricesUpdatedAt" = "sourceUpdatedAt",
+    "stockUpdatedAt" = "sourceUpdatedAt"
+WHERE "raw" IS NOT NULL;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ProductRevision" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "raw" JSONB,
+    "snapshot" JSONB NOT NULL,
+    "contentHash" TEXT,
+    "availability" "ProductAvailability" NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductRevision_productId_recordedAt_idx" ON "ProductRevision"("productId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "ProductRevision_recordedAt_idx" ON "ProductRevision"("recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "ProductRevision" ADD CONSTRAINT "ProductRevision_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "CurationStatus" AS ENUM ('candidate', 'published', 'hidden');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "curationStatus" "CurationStatus" NOT NULL DEFAULT 'candidate',
+ADD COLUMN     "curatedAt" TIMESTAMP(3),
+ADD COLUMN     "curatedBy" TEXT,
+ADD COLUMN     "overrideName" TEXT,
+ADD COLUMN     "overrideDescription" TEXT,
+ADD COLUMN     "overrideImages" JSONB,
+ADD COLUMN     "featured" BOOLEAN NOT NULL DEFAULT false;
+
+-- Everything stored so far was public; it stays published. Products stored
+-- from now on start as candidates.
+UPDATE "Product" SET "curationStatus" = 'published', "curatedAt" = CURRENT_TIMESTAMP, "curatedBy" = 'migration';
+
+-- CreateIndex
+CREATE INDEX "Product_curationStatus_idx" ON "Product"("curationStatus");
@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "Product_createdAt_id_idx" ON "Product"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Product_name_id_idx" ON "Product"("name", "id");
+
+-- CreateIndex
+CREATE INDEX "Product_updatedAt_id_idx" ON "Product"("updatedAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Product_sourceUpdatedAt_id_idx" ON "Product"("sourceUpdatedAt", "id");
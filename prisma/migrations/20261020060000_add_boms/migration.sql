@@ -0,0 +1,74 @@
+-- Normalized part number for BOM matching
+ALTER TABLE "Product" ADD COLUMN     "mpnKey" TEXT GENERATED ALWAYS AS (
+    nullif(upper(regexp_replace("mpn", '[^A-Za-z0-9]', '', 'g')), '')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_mpnKey_idx" ON "Product"("mpnKey" text_pattern_ops);
+
+-- CreateEnum
+CREATE TYPE "BomStatus" AS ENUM ('review', 'quoted');
+
+-- CreateEnum
+CREATE TYPE "BomMatchStatus" AS ENUM ('exact', 'probable', 'multiple', 'none');
+
+-- CreateTable
+CREATE TABLE "Bom" (
+    "id" TEXT NOT NULL,
+    "status" "BomStatus" NOT NULL DEFAULT 'review',
+    "name" TEXT,
+    "customerName" TEXT,
+    "customerEmail" TEXT,
+    "reference" TEXT,
+    "columns" JSONB NOT NULL,
+    "rowErrors" JSONB,
+    "createdBy" TEXT,
+    "quoteId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Bom_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BomLine" (
+    "id" TEXT NOT NULL,
+    "bomId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "mpn" TEXT NOT NULL,
+    "mpnKey" TEXT NOT NULL,
+    "manufacturer" TEXT,
+    "description" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "references" TEXT[],
+    "match" "BomMatchStatus" NOT NULL,
+    "matchSource" TEXT,
+    "candidates" JSONB NOT NULL,
+    "productId" TEXT,
+    "note" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+
+    CONSTRAINT "BomLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Bom_status_idx" ON "Bom"("status");
+
+-- CreateIndex
+CREATE INDEX "Bom_createdAt_idx" ON "Bom"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "BomLine_bomId_idx" ON "BomLine"("bomId");
+
+-- CreateIndex
+CREATE INDEX "BomLine_productId_idx" ON "BomLine"("productId");
+
+-- AddForeignKey
+ALTER TABLE "Bom" ADD CONSTRAINT "Bom_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BomLine" ADD CONSTRAINT "BomLine_bomId_fkey" FOREIGN KEY ("bomId") REFERENCES "Bom"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BomLine" ADD CONSTRAINT "BomLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "priceSyncAttemptedAt" TIMESTAMP(3);
+
+-- Existing rows start from their last successful refresh
+UPDATE "Product" SET "priceSyncAttemptedAt" = "sourceUpdatedAt";
+
+-- CreateIndex
+CREATE INDEX "Product_priceSyncAttemptedAt_idx" ON "Product"("priceSyncAttemptedAt");
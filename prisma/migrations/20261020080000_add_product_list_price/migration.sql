@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "listPrice" DECIMAL(14,5);
+
+-- CreateIndex
+CREATE INDEX "Product_listPrice_id_idx" ON "Product"("listPrice", "id");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "ownerKeyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_ownerKeyId_idx" ON "Order"("ownerKeyId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN     "ownerKeyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Quote_ownerKeyId_idx" ON "Quote"("ownerKeyId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN     "cancelRequestedAt" TIMESTAMP(3);
@@ -1,6 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { CacheService } from './cache/cache.service';
+import { ProductPersistenceService } from './catalog/product-persistence.service';
+import { CatalogSearchService } from './catalog/catalog-search.service';
+import { CatalogSyncJob } from './jobs/catalog-sync.job';
+import { SyncProfilesService } from './jobs/sync-profiles.service';
+import { PricingService } from './pricing/pricing.service';
+import { PrismaService } from './prisma/prisma.service';
+import { FarnellClient } from './suppliers/farnell/farnell.client';
+import { SupplierRegistry } from './suppliers/supplier-registry';
 
 describe('AppController', () => {
   let appController: AppController;
@@ -8,7 +17,18 @@ describe('AppController', () => {
   beforeEach(async () => {
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: CatalogSyncJob, useValue: {} },
+        { provide: SyncProfilesService, useValue: {} },
+        { provide: FarnellClient, useValue: {} },
+        { provide: SupplierRegistry, useValue: {} },
+        { provide: CatalogSearchService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+        { provide: PricingService, useValue: {} },
+        { provide: CacheService, useValue: {} },
+        { provide: ProductPersistenceService, useValue: {} },
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
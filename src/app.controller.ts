@@ -1,22 +1,113 @@
-import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
 import { AppService } from './app.service';
-import { CatalogSyncJob } from './jobs/catalog-sync.job';
+import { Scope } from './auth/api-key';
+import type { Principal } from './auth/api-key';
+import { CurrentPrincipal, RequireScopes, Roles } from './auth/auth.decorators';
+import {
+  CatalogSearchHit,
+  CatalogSearchService,
+} from './catalog/catalog-search.service';
+import {
+  CatalogSyncJob,
+  SyncAlreadyRunningError,
+} from './jobs/catalog-sync.job';
+import { SyncProfilesService } from './jobs/sync-profiles.service';
+import { FarnellClient } from './suppliers/farnell/farnell.client';
+import {
+  extractFarnellDescription,
+  extractFarnellImages,
+  extractFarnellProductUrl,
+} from './suppliers/farnell/farnell.extract';
+import { buildFarnellTerm } from './suppliers/farnell/farnell.term';
 import {
-  FarnellClient,
-  FarnellRateLimitError,
-} from './suppliers/farnell/farnell.client';
+  ResponseGroup,
+  SupplierAdapter,
+  SupplierProduct,
+  SupplierQuery,
+  SupplierBudgetExhaustedError,
+  SupplierRateLimitError,
+  SupplierUnavailableError,
+} from './suppliers/supplier-adapter';
+import {
+  parseSupplierCode,
+  SupplierRegistry,
+} from './suppliers/supplier-registry';
 import { PrismaService } from './prisma/prisma.service';
-import { Prisma, SupplierCode } from '@prisma/client';
+import { cacheTags } from './cache/cache-store';
+import {
+  freshnessPolicyFromEnv,
+  productFreshness,
+} from './catalog/product-freshness';
+import {
+  decodeProductCursor,
+  DEFAULT_ORDER,
+  encodeProductCursor,
+  parseProductSort,
+  PRODUCT_SORTS,
+  productCursorAfter,
+  productCursorWhere,
+  productOrderBy,
+} from './catalog/product-cursor';
+import type { ProductSort, SortOrder } from './catalog/product-cursor';
+import {
+  buildProductWhere,
+  ProductFilter,
+  toList,
+} from './catalog/product-filter';
+import {
+  parseProductImages,
+  publishedOnly,
+  publishedWhere,
+  withOverrides,
+} from './catalog/product-curation';
+import { ProductPersistenceService } from './catalog/product-persistence.service';
+import { CacheService } from './cache/cache.service';
+import { parseCurrencyParam } from './currency/exchange-rates.service';
+import {
+  currencyReport,
+  PricingService,
+  SellPrice,
+  withSellPrices,
+} from './pricing/pricing.service';
+import {
+  Prisma,
+  ProductAvailability,
+  Role,
+  SupplierCode,
+  SyncRun,
+  SyncTrigger,
+} from '@prisma/client';
 
 @Controller()
 export class AppController {
-  private readonly searchCache = new Map<string, SearchCacheEntry>();
+  private readonly logger = new Logger(AppController.name);
+  // supplierKeys with a background refresh in flight.
+  private readonly revalidating = new Set<string>();
 
   constructor(
     private readonly appService: AppService,
     private readonly catalogSyncJob: CatalogSyncJob,
+    private readonly syncProfiles: SyncProfilesService,
     private readonly farnellClient: FarnellClient,
+    private readonly suppliers: SupplierRegistry,
+    private readonly catalogSearch: CatalogSearchService,
     private readonly prisma: PrismaService,
+    private readonly pricing: PricingService,
+    private readonly cache: CacheService,
+    private readonly products: ProductPersistenceService,
   ) {}
 
   // test endpoint
@@ -25,27 +116,116 @@ export class AppController {
     return this.appService.getHello();
   }
 
-  // manual trigger for Farnell catalog sync
-  @Post('/admin/sync/farnell')
-  async syncFarnell(): Promise<{ status: 'ok'; message: string }> {
-    await this.catalogSyncJob.run();
+  // manual trigger for a supplier catalog sync, e.g. /admin/sync/farnell
+  // Queues one run per enabled sync profile of the supplier and answers at
+  // once; follow a run on /admin/sync/runs/:id/events and stop it with
+  // /admin/sync/runs/:id/cancel. Profiles already running here or on another
+  // instance are listed under `skipped`; 409 when every profile is.
+  @Post('/admin/sync/:supplier')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Roles(Role.admin)
+  @RequireScopes(Scope.sync)
+  async syncSupplier(
+    @Param('supplier') supplier: string,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<{
+    runIds: string[];
+    message: string;
+    runs: SyncRun[];
+    skipped: Array<{ profileId: string; reason: string }>;
+  }> {
+    const supplierCode = parseSupplierCode(supplier);
+    if (!supplierCode || !this.suppliers.isEnabled(supplierCode)) {
+      throw new BadRequestException(`Supplier not enabled: ${supplier}`);
+    }
+
+    const profiles = await this.syncProfiles.enabledFor(supplierCode);
+    if (!profiles.length) {
+      throw new BadRequestException(
+        `No enabled sync profile for ${supplierCode}`,
+      );
+    }
+
+    const runs: SyncRun[] = [];
+    const skipped: Array<{ profileId: string; reason: string }> = [];
+    for (const profile of profiles) {
+      try {
+        runs.push(
+          await this.catalogSyncJob.enqueue(
+            profile,
+            SyncTrigger.manual,
+            principal ? `${principal.role}:${principal.name}` : undefined,
+          ),
+        );
+      } catch (e) {
+        if (!(e instanceof SyncAlreadyRunningError)) throw e;
+        skipped.push({ profileId: profile.id, reason: e.message });
+      }
+    }
+    if (!runs.length) {
+      throw new ConflictException(
+        `${supplierCode} catalog sync is already running: ${skipped
+          .map((s) => s.reason)
+          .join('; ')}`,
+      );
+    }
     return {
-      status: 'ok',
-      message: 'Farnell catalog sync started',
+      runIds: runs.map((r) => r.id),
+      message: `${supplierCode} catalog sync queued for ${runs.length} profile(s)`,
+      runs,
+      skipped,
     };
   }
 
+  // Items carry sell prices for the caller's customer group, converted
+  // when ?currency= is given. Unavailable and discontinued products are
+  // left out unless ?includeUnavailable=true; callers without the catalog
+  // scope only see published products, with curation overrides applied.
+  // Only they fall back to the supplier on a miss: the hits are stored as
+  // candidates, which nobody else could see anyway.
   @Get('/search')
   async searchCatalog(
     @Query('q') q?: string,
     @Query('limit') limit?: string,
     @Query('supplier') supplier?: string,
-  ): Promise<{
-    source: 'local' | 'farnell' | 'empty';
-    count: number;
-    items: unknown[];
-    term?: string;
-  }> {
+    @Query('currency') currency?: string,
+    @Query('includeUnavailable') includeUnavailable?: string,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<
+    Omit<SearchCatalogResponse, 'items'> & {
+      items: Array<ReturnType<typeof withSellPrices<PublicSearchItem>>>;
+    } & ReturnType<typeof currencyReport>
+  > {
+    const targetCurrency = parseCurrencyParam(currency);
+    const result = await this.findCatalogMatches(
+      q,
+      limit,
+      supplier,
+      parseBoolean(includeUnavailable),
+      publishedOnly(principal),
+    );
+    const priced = await this.pricing.sellPrices(
+      result.items,
+      { customerGroup: principal?.customerGroup },
+      targetCurrency,
+    );
+    return {
+      ...result,
+      items: result.items.map((p) =>
+        withSellPrices(withOverrides(p), priced.prices.get(p.id)),
+      ),
+      ...currencyReport(priced),
+    };
+  }
+
+  // Cached per query; pricing is applied per caller afterwards.
+  private async findCatalogMatches(
+    q?: string,
+    limit?: string,
+    supplier?: string,
+    includeUnavailable = false,
+    onlyPublished = true,
+  ): Promise<SearchCatalogResponse> {
     const query = q?.trim();
     if (!query) return { source: 'empty', count: 0, items: [] };
 
@@ -54,24 +234,37 @@ export class AppController {
       : 20;
     const supplierCode = parseSupplierCode(supplier);
 
-    if (supplier && !supplierCode) {
+    if (
+      supplier &&
+      (!supplierCode || !this.suppliers.isEnabled(supplierCode))
+    ) {
       return { source: 'empty', count: 0, items: [] };
     }
 
-    const cacheKey = buildSearchCacheKey(query, safeLimit, supplierCode);
-    const cached = this.getSearchCache(cacheKey);
-    if (cached) return cached;
+    const cacheKey = buildSearchCacheKey(
+      query,
+      safeLimit,
+      supplierCode,
+      includeUnavailable,
+      onlyPublished,
+    );
+    const cached = await this.cache.get<CachedSearch>(cacheKey);
+    if (cached) {
+      const { hits, ...rest } = cached;
+      const cachedItems = await this.loadScoredProducts(hits, onlyPublished);
+      return { ...rest, count: cachedItems.length, items: cachedItems };
+    }
+    const cacheSupplierCodes = supplierCode
+      ? [supplierCode]
+      : this.suppliers.enabledCodesList();
 
-    const localItems = await this.prisma.product.findMany({
-      where: {
-        OR: [
-          { supplierSku: query },
-          { name: { contains: query, mode: 'insensitive' } },
-        ],
-        ...(supplierCode ? { supplier: supplierCode } : {}),
-      },
-      take: safeLimit,
+    const hits = await this.catalogSearch.search(query, {
+      limit: safeLimit,
+      supplier: supplierCode,
+      includeUnavailable,
+      publishedOnly: onlyPublished,
     });
+    const localItems = await this.loadScoredProducts(hits, onlyPublished);
 
     if (localItems.length > 0) {
       const result = {
@@ -79,120 +272,209 @@ export class AppController {
         count: localItems.length,
         items: localItems,
       };
-      this.setSearchCache(cacheKey, result);
+      await this.setSearchCache(cacheKey, result, cacheSupplierCodes);
       return result;
     }
+    if (onlyPublished) return { source: 'empty', count: 0, items: [] };
 
-    if (supplierCode && supplierCode !== SupplierCode.farnell) {
+    const adapters = this.resolveAdapters(supplierCode);
+    if (adapters.length === 0) {
       return { source: 'empty', count: 0, items: [] };
     }
 
-    const termResolved = buildFarnellTerm({ q: query }) ?? `any:${query}`;
-    let items: { supplierSku: string; name: string; raw?: unknown }[] = [];
+    let source: SupplierCode = adapters[0].code;
+    let termResolved = '';
+    let items: SupplierProduct[] = [];
     let rateLimited = false;
+    let budgetExhausted = false;
+    let supplierUnavailable = false;
 
-    try {
-      items = await this.farnellClient.searchProducts({
-        term: termResolved,
-        offset: 0,
-        numberOfResults: safeLimit,
-        responseGroup: 'large',
-      });
-    } catch (err) {
-      if (err instanceof FarnellRateLimitError) {
-        rateLimited = true;
-      } else {
-        throw err;
+    for (const adapter of adapters) {
+      source = adapter.code;
+      termResolved = adapter.buildTerm({ q: query }) ?? `any:${query}`;
+
+      try {
+        items = await adapter.search({
+          term: termResolved,
+          offset: 0,
+          numberOfResults: safeLimit,
+          responseGroup: 'large',
+        });
+      } catch (err) {
+        if (err instanceof SupplierRateLimitError) {
+          rateLimited = true;
+          budgetExhausted ||= err instanceof SupplierBudgetExhaustedError;
+        } else if (err instanceof SupplierUnavailableError) {
+          supplierUnavailable = true;
+        } else {
+          throw err;
+        }
       }
+
+      if (items.length > 0) break;
     }
 
     if (items.length === 0) {
       const result = {
-        source: 'farnell' as const,
+        source,
         count: 0,
         items: [],
         term: termResolved,
         ...(rateLimited ? { rateLimited: true } : {}),
+        ...(budgetExhausted ? { budgetExhausted: true } : {}),
+        ...(supplierUnavailable ? { supplierUnavailable: true } : {}),
       };
-      this.setSearchCache(cacheKey, result);
+      // Not cached: the answer may change once the budget resets or the
+      // supplier is back.
+      if (!budgetExhausted && !supplierUnavailable) {
+        await this.setSearchCache(cacheKey, result, cacheSupplierCodes);
+      }
       return result;
     }
 
-    const supplierValue = SupplierCode.farnell;
-    const ops = items.map((p) => {
-      const supplierKey = `${supplierValue}:${p.supplierSku}`;
-      return this.prisma.product.upsert({
-        where: { supplierKey },
-        create: {
-          supplier: supplierValue,
-          supplierSku: p.supplierSku,
-          supplierKey,
-          name: p.name,
-          raw: toInputJsonValue(p.raw ?? p),
-          sourceUpdatedAt: new Date(),
-        },
-        update: {
-          name: p.name,
-          raw: toInputJsonValue(p.raw ?? p),
-          sourceUpdatedAt: new Date(),
-        },
-      });
-    });
-
-    await this.prisma.$transaction(ops);
+    await this.upsertSupplierProducts(items);
 
-    const supplierKeys = items.map(
-      (p) => `${SupplierCode.farnell}:${p.supplierSku}`,
-    );
+    const supplierKeys = items.map((p) => buildSupplierKey(p));
     const savedItems = await this.prisma.product.findMany({
-      where: { supplierKey: { in: supplierKeys } },
+      where: {
+        supplierKey: { in: supplierKeys },
+        ...(includeUnavailable
+          ? {}
+          : { availability: ProductAvailability.active }),
+      },
+      include: { priceBreaks: true },
       take: safeLimit,
     });
 
     const result = {
-      source: 'farnell' as const,
+      source,
       count: savedItems.length,
       items: savedItems,
       term: termResolved,
       ...(rateLimited ? { rateLimited: true } : {}),
+      ...(budgetExhausted ? { budgetExhausted: true } : {}),
     };
-    this.setSearchCache(cacheKey, result);
+    await this.setSearchCache(cacheKey, result, cacheSupplierCodes);
     return result;
   }
 
+  // Keyset-paged: pass `nextCursor` back as ?cursor= for the next page;
+  // pages stay stable while the sync adds products. ?sort= createdAt
+  // (default), name, price, stock, updatedAt or sourceUpdatedAt, with
+  // ?order=asc|desc. Filters: supplier, brand (repeatable), inStock,
+  // updatedSince (ISO date), minPrice/maxPrice (list price in ?currency=),
+  // featured; ?sort=price orders by that list price too. ?total=true adds
+  // the match count, which costs a full count. Unavailable and discontinued
+  // products are left out unless ?includeUnavailable=true; callers without
+  // the catalog scope only see published products.
   @Get('/products')
   async listProducts(
     @Query('limit') limit?: string,
-    @Query('offset') offset?: string,
-  ): Promise<{
-    count: number;
-    total: number;
-    limit: number;
-    offset: number;
-    items: unknown[];
-  }> {
+    @Query('cursor') cursor?: string,
+    @Query('sort') sort?: string,
+    @Query('order') order?: string,
+    @Query('supplier') supplier?: string,
+    @Query('brand') brand?: string | string[],
+    @Query('inStock') inStock?: string,
+    @Query('updatedSince') updatedSince?: string,
+    @Query('minPrice') minPrice?: string,
+    @Query('maxPrice') maxPrice?: string,
+    @Query('featured') featured?: string,
+    @Query('total') total?: string,
+    @Query('currency') currency?: string,
+    @Query('includeUnavailable') includeUnavailable?: string,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<
+    {
+      count: number;
+      limit: number;
+      sort: ProductSort;
+      order: SortOrder;
+      nextCursor: string | null;
+      total?: number;
+      items: unknown[];
+    } & ReturnType<typeof currencyReport>
+  > {
+    const targetCurrency = parseCurrencyParam(currency);
     const safeLimit = Number.isFinite(Number(limit))
-      ? Math.max(1, Math.min(15, Math.floor(Number(limit))))
-      : 15;
-    const safeOffset = Number.isFinite(Number(offset))
-      ? Math.max(0, Math.floor(Number(offset)))
-      : 0;
+      ? Math.max(1, Math.min(100, Math.floor(Number(limit))))
+      : 24;
+
+    const sortBy = parseProductSort(sort);
+    if (!sortBy) {
+      throw new BadRequestException(
+        `sort must be one of ${PRODUCT_SORTS.join(', ')}`,
+      );
+    }
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      throw new BadRequestException('order must be asc or desc');
+    }
+    const sortOrder = order ?? DEFAULT_ORDER[sortBy];
+
+    const after = cursor ? decodeProductCursor(cursor) : null;
+    if (cursor && !after) throw new BadRequestException('Invalid cursor');
+    if (after && (after.sort !== sortBy || after.order !== sortOrder)) {
+      throw new BadRequestException(
+        'cursor belongs to a different sort; start again without it',
+      );
+    }
 
-    const [total, items] = await Promise.all([
-      this.prisma.product.count(),
+    const filter: ProductFilter = {
+      supplier: parseSupplierCode(supplier),
+      brands: toList(brand),
+      inStock: parseBoolean(inStock),
+      includeUnavailable: parseBoolean(includeUnavailable),
+      publishedOnly: publishedOnly(principal),
+      ...(await this.pricing.listPriceBounds(
+        {
+          minPrice: toOptionalNumber(minPrice),
+          maxPrice: toOptionalNumber(maxPrice),
+        },
+        targetCurrency,
+      )),
+      updatedSince: parseDateParam(updatedSince, 'updatedSince'),
+    };
+    const where: Prisma.ProductWhereInput = {
+      AND: [
+        buildProductWhere(filter),
+        parseBoolean(featured) ? { featured: true } : {},
+      ],
+    };
+
+    // One extra row tells whether there is a next page.
+    const [rows, count] = await Promise.all([
       this.prisma.product.findMany({
-        take: safeLimit,
-        skip: safeOffset,
-        orderBy: { createdAt: 'desc' },
+        where: after ? { AND: [where, productCursorWhere(after)] } : where,
+        orderBy: productOrderBy(sortBy, sortOrder),
+        take: safeLimit + 1,
+        include: { priceBreaks: true, stock: { select: { level: true } } },
       }),
+      parseBoolean(total) ? this.prisma.product.count({ where }) : undefined,
     ]);
+    const items = rows.slice(0, safeLimit);
+    const last = items[items.length - 1];
+    const nextCursor =
+      rows.length > safeLimit && last
+        ? encodeProductCursor(productCursorAfter(last, sortBy, sortOrder))
+        : null;
+
+    const priced = await this.pricing.sellPrices(
+      items,
+      { customerGroup: principal?.customerGroup },
+      targetCurrency,
+    );
 
     return {
       count: items.length,
-      total,
       limit: safeLimit,
-      offset: safeOffset,
-      items,
+      sort: sortBy,
+      order: sortOrder,
+      nextCursor,
+      ...(count !== undefined ? { total: count } : {}),
+      items: items.map((p) =>
+        withSellPrices(withOverrides(p), priced.prices.get(p.id)),
+      ),
+      ...currencyReport(priced),
     };
   }
 
@@ -200,95 +482,232 @@ export class AppController {
   async getProduct(
     @Param('supplierSku') supplierSku: string,
     @Query('refresh') refresh?: string,
-  ): Promise<{
-    source: 'local' | 'farnell' | 'empty';
-    item?: unknown;
-    description?: string | null;
-    attributes?: Array<{ label: string; value: string; unit?: string }>;
-    images?: { main?: string; thumb?: string };
-    datasheets?: Array<{ type?: string; description?: string; url?: string }>;
-    prices?: Array<{ from?: number; to?: number; cost?: number }>;
-    stock?: { level?: number; status?: number; leastLeadTime?: number };
-    productUrl?: string | null;
-    brandName?: string | null;
-    term?: string;
-    rateLimited?: boolean;
-  }> {
+    @Query('supplier') supplier?: string,
+    @Query('currency') currency?: string,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<
+    Omit<ProductLookup, 'item'> & { item?: unknown } & Partial<ProductDetail> &
+      ReturnType<typeof currencyReport>
+  > {
+    const targetCurrency = parseCurrencyParam(currency);
+    const result = await this.findProduct(
+      supplierSku,
+      refresh,
+      supplier,
+      publishedOnly(principal),
+    );
+    if (!result.item) return result;
+
+    const priced = await this.pricing.sellPrices(
+      [result.item],
+      { customerGroup: principal?.customerGroup },
+      targetCurrency,
+    );
+    const sellPrices = priced.prices.get(result.item.id) ?? [];
+    return {
+      ...result,
+      item: withSellPrices(withOverrides(result.item), sellPrices),
+      ...toProductDetail(result.item, sellPrices),
+      ...currencyReport(priced),
+    };
+  }
+
+  // Without ?refresh the freshness policy decides: a fresh local copy is
+  // served as is, an ageing one is served while a background refresh runs,
+  // and an expired one is refreshed before answering. refresh=true always
+  // asks the supplier; refresh=false never does for a known product.
+  // A refresh that fails (rate limit, exhausted budget, open circuit or a
+  // supplier error) falls back to the local copy, flagged `stale`.
+  // With `onlyPublished` unpublished products are not found, and unknown
+  // SKUs are not looked up at the supplier (the result would be a
+  // candidate the caller cannot see).
+  private async findProduct(
+    supplierSku: string,
+    refresh?: string,
+    supplier?: string,
+    onlyPublished = false,
+  ): Promise<ProductLookup> {
     const sku = supplierSku?.trim();
     if (!sku) return { source: 'empty' };
 
-    const shouldRefresh = refresh === undefined ? true : parseBoolean(refresh);
+    const supplierCode = parseSupplierCode(supplier);
+    if (supplier && !supplierCode) return { source: 'empty' };
+
     let item = await this.prisma.product.findFirst({
-      where: { supplier: SupplierCode.farnell, supplierSku: sku },
+      where: {
+        supplierSku: sku,
+        supplier: supplierCode ?? { in: this.suppliers.enabledCodesList() },
+        ...(onlyPublished ? publishedWhere : {}),
+      },
+      include: productDetailInclude,
     });
+    if (!item && onlyPublished) return { source: 'empty' };
+    const freshness = item
+      ? productFreshness(item.sourceUpdatedAt, freshnessPolicyFromEnv())
+      : null;
+    const shouldRefresh =
+      refresh === undefined
+        ? freshness?.state === 'expired'
+        : parseBoolean(refresh);
 
     if (!item || shouldRefresh) {
-      const termResolved = buildFarnellTerm({ id: sku }) ?? `id:${sku}`;
-      let fetched: { supplierSku: string; name: string; raw?: unknown }[] = [];
+      const adapters = this.resolveAdapters(supplierCode ?? item?.supplier);
+      let termResolved = `id:${sku}`;
+      let fetched: SupplierProduct | null = null;
       let rateLimited = false;
-
-      try {
-        fetched = await this.farnellClient.searchProducts({
-          term: termResolved,
-          offset: 0,
-          numberOfResults: 1,
-          responseGroup: 'large',
-        });
-      } catch (err) {
-        if (err instanceof FarnellRateLimitError) {
-          rateLimited = true;
-        } else {
-          throw err;
+      let budgetExhausted = false;
+      let supplierUnavailable = false;
+      let refreshFailed = false;
+
+      for (const adapter of adapters) {
+        termResolved = adapter.buildTerm({ id: sku }) ?? `id:${sku}`;
+
+        try {
+          fetched = await adapter.getBySku(sku, 'large');
+        } catch (err) {
+          refreshFailed = true;
+          if (err instanceof SupplierRateLimitError) {
+            rateLimited = true;
+            budgetExhausted ||= err instanceof SupplierBudgetExhaustedError;
+          } else if (err instanceof SupplierUnavailableError) {
+            supplierUnavailable = true;
+          } else if (!item) {
+            throw err;
+          }
         }
+
+        if (fetched) break;
       }
 
-      if (fetched.length > 0) {
-        await this.upsertFarnellProducts(fetched);
-        const supplierKey = `${SupplierCode.farnell}:${fetched[0].supplierSku}`;
+      if (fetched) {
+        await this.upsertSupplierProducts([fetched]);
         item = await this.prisma.product.findUnique({
-          where: { supplierKey },
+          where: { supplierKey: buildSupplierKey(fetched) },
+          include: productDetailInclude,
         });
       }
 
+      const flags = {
+        ...(rateLimited ? { rateLimited: true } : {}),
+        ...(budgetExhausted ? { budgetExhausted: true } : {}),
+        ...(supplierUnavailable ? { supplierUnavailable: true } : {}),
+      };
       if (!item) {
+        return { source: 'empty', term: termResolved, ...flags };
+      }
+      if (!fetched && refreshFailed) {
         return {
-          source: 'empty',
+          source: 'local',
+          item,
           term: termResolved,
-          ...(rateLimited ? { rateLimited: true } : {}),
+          ...flags,
+          stale: true,
+          ageSeconds: dataAgeSeconds(item),
         };
       }
 
       return {
-        source: 'farnell',
+        source: item.supplier,
         item,
-        description: extractFarnellDescription(item.raw),
-        attributes: extractFarnellAttributes(item.raw),
-        images: extractFarnellImages(item.raw),
-        datasheets: extractFarnellDatasheets(item.raw),
-        prices: extractFarnellPrices(item.raw),
-        stock: extractFarnellStock(item.raw),
-        productUrl: extractFarnellProductUrl(item.raw),
-        brandName: extractFarnellBrandName(item.raw),
         term: termResolved,
-        ...(rateLimited ? { rateLimited: true } : {}),
+        ...flags,
+        ageSeconds: dataAgeSeconds(item),
       };
     }
 
+    const revalidating =
+      refresh === undefined &&
+      freshness?.state === 'revalidate' &&
+      this.revalidateInBackground(item);
     return {
       source: 'local',
       item,
-      description: extractFarnellDescription(item.raw),
-      attributes: extractFarnellAttributes(item.raw),
-      images: extractFarnellImages(item.raw),
-      datasheets: extractFarnellDatasheets(item.raw),
-      prices: extractFarnellPrices(item.raw),
-      stock: extractFarnellStock(item.raw),
-      productUrl: extractFarnellProductUrl(item.raw),
-      brandName: extractFarnellBrandName(item.raw),
+      ageSeconds: dataAgeSeconds(item),
+      ...(revalidating ? { revalidating: true } : {}),
     };
   }
 
+  // One refresh per product at a time, at background priority so it never
+  // holds up interactive supplier calls. A failure leaves the local copy;
+  // the next view past the price age tries again.
+  private revalidateInBackground(item: {
+    supplier: SupplierCode;
+    supplierSku: string;
+    supplierKey: string;
+  }): boolean {
+    if (this.revalidating.has(item.supplierKey)) return true;
+    const adapter = this.suppliers.get(item.supplier);
+    if (!adapter) return false;
+
+    this.revalidating.add(item.supplierKey);
+    void adapter
+      .getBySku(item.supplierSku, 'large', 'background')
+      .then((fetched) =>
+        fetched ? this.upsertSupplierProducts([fetched]) : undefined,
+      )
+      .catch((e: Error) =>
+        this.logger.warn(
+          `Background refresh of ${item.supplierKey} failed: ${e.message}`,
+        ),
+      )
+      .finally(() => this.revalidating.delete(item.supplierKey));
+    return true;
+  }
+
+  // Recorded supplier price breaks carry our cost, so staff only (as with
+  // product revisions).
+  @Get('/products/:supplierSku/price-history')
+  @RequireScopes(Scope.catalog)
+  async getPriceHistory(
+    @Param('supplierSku') supplierSku: string,
+    @Query('supplier') supplier?: string,
+    @Query('limit') limit?: string,
+  ): Promise<{
+    supplierSku: string;
+    count: number;
+    items: Array<{
+      recordedAt: Date;
+      prices: unknown;
+      stock: { level?: number; status?: number; leastLeadTime?: number };
+    }>;
+  }> {
+    const sku = supplierSku?.trim();
+    const supplierCode = parseSupplierCode(supplier);
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(500, Math.floor(Number(limit))))
+      : 100;
+
+    const product = sku
+      ? await this.prisma.product.findFirst({
+          where: {
+            supplierSku: sku,
+            ...(supplierCode ? { supplier: supplierCode } : {}),
+          },
+        })
+      : null;
+    if (!product) return { supplierSku: sku ?? '', count: 0, items: [] };
+
+    const rows = await this.prisma.productPriceHistory.findMany({
+      where: { productId: product.id },
+      orderBy: { recordedAt: 'desc' },
+      take: safeLimit,
+    });
+
+    const items = rows.map((r) => ({
+      recordedAt: r.recordedAt,
+      prices: r.prices,
+      stock: {
+        ...(r.stockLevel !== null ? { level: r.stockLevel } : {}),
+        ...(r.stockStatus !== null ? { status: r.stockStatus } : {}),
+        ...(r.leastLeadTime !== null ? { leastLeadTime: r.leastLeadTime } : {}),
+      },
+    }));
+
+    return { supplierSku: product.supplierSku, count: items.length, items };
+  }
+
   @Get('/admin/farnell/search')
+  @RequireScopes(Scope.supplierSearch)
   async searchFarnell(
     @Query('term') term?: string,
     @Query('q') q?: string,
@@ -308,20 +727,25 @@ export class AppController {
       ? Math.max(1, Math.floor(Number(numberOfResults)))
       : 1;
 
-    const items = await this.farnellClient.searchProducts({
-      term: resolvedTerm,
-      offset: safeOffset,
-      numberOfResults: safeNumberOfResults,
-      responseGroup: responseGroup ?? 'large',
-    });
+    const items = await this.farnellClient
+      .searchProducts({
+        term: resolvedTerm,
+        offset: safeOffset,
+        numberOfResults: safeNumberOfResults,
+        responseGroup: responseGroup ?? 'large',
+      })
+      .catch(rethrowBudgetExhausted);
 
     return { count: items.length, items, term: resolvedTerm };
   }
 
+  // `supplier` defaults to farnell; any enabled supplier can be queried.
   @Post('/admin/farnell/search/batch')
+  @RequireScopes(Scope.supplierSearch)
   async searchFarnellBatch(
     @Body() body: unknown,
     @Query('save') save?: string,
+    @Query('supplier') supplier?: string,
   ): Promise<{
     count: number;
     results: Array<{
@@ -335,6 +759,14 @@ export class AppController {
     createdCount?: number;
     updatedCount?: number;
   }> {
+    const supplierCode = supplier
+      ? parseSupplierCode(supplier)
+      : SupplierCode.farnell;
+    const adapter = supplierCode ? this.suppliers.get(supplierCode) : null;
+    if (!adapter) {
+      throw new BadRequestException(`Supplier not enabled: ${supplier}`);
+    }
+
     const batch = normalizeBatchBody(body);
     const shouldSave = parseBoolean(save);
     const results: Array<{
@@ -349,7 +781,7 @@ export class AppController {
     let updatedCount = 0;
 
     for (const query of batch.queries) {
-      const termResolved = buildFarnellTerm(query);
+      const termResolved = adapter.buildTerm(query);
       const inputLabel = buildInputLabel(query);
 
       if (!termResolved) {
@@ -371,15 +803,28 @@ export class AppController {
         : batch.defaults.numberOfResults;
       const responseGroup = query.responseGroup ?? batch.defaults.responseGroup;
 
-      const items = await this.farnellClient.searchProducts({
-        term: termResolved,
-        offset,
-        numberOfResults,
-        responseGroup,
-      });
+      let items: SupplierProduct[];
+      try {
+        items = await adapter.search({
+          term: termResolved,
+          offset,
+          numberOfResults,
+          responseGroup,
+        });
+      } catch (e) {
+        if (!(e instanceof SupplierBudgetExhaustedError)) throw e;
+        results.push({
+          input: inputLabel,
+          term: termResolved,
+          count: 0,
+          items: [],
+          error: e.message,
+        });
+        continue;
+      }
 
       if (shouldSave && items.length > 0) {
-        const saveResult = await this.upsertFarnellProducts(items);
+        const saveResult = await this.upsertSupplierProducts(items);
         savedCount += saveResult.total;
         createdCount += saveResult.created;
         updatedCount += saveResult.updated;
@@ -402,69 +847,66 @@ export class AppController {
     };
   }
 
-  private getSearchCache(key: string): SearchCatalogResponse | null {
-    pruneCache(this.searchCache);
-    const entry = this.searchCache.get(key);
-    if (!entry) return null;
-    if (entry.expiresAt <= Date.now()) {
-      this.searchCache.delete(key);
-      return null;
-    }
-    return entry.value;
+  // Only product ids are cached; hits reload the products, so a cached
+  // result never serves stale prices. Tagged with the suppliers the query
+  // covered and every product it returned.
+  private async setSearchCache(
+    key: string,
+    { items, ...rest }: SearchCatalogResponse,
+    supplierCodes: SupplierCode[],
+  ) {
+    const value: CachedSearch = {
+      ...rest,
+      hits: items.map((p) => ({ id: p.id, score: p.score })),
+    };
+    await this.cache.set(key, value, {
+      ttlMs: getSearchCacheTtlMs(),
+      tags: [
+        ...supplierCodes.map(cacheTags.supplier),
+        ...items.map((p) => cacheTags.product(p.supplierKey)),
+      ],
+    });
   }
 
-  private setSearchCache(key: string, value: SearchCatalogResponse) {
-    const ttlMs = getSearchCacheTtlMs();
-    if (ttlMs <= 0) return;
-    const expiresAt = Date.now() + ttlMs;
-    this.searchCache.set(key, { expiresAt, value });
-    pruneCache(this.searchCache);
+  // Loads products for ranked hits, keeping rank order and exposing `score`.
+  // Cached hits are filtered again in case a product was unpublished since.
+  private async loadScoredProducts(
+    hits: Array<Pick<CatalogSearchHit, 'id'> & { score?: number }>,
+    onlyPublished: boolean,
+  ) {
+    if (hits.length === 0) return [];
+    const products = await this.prisma.product.findMany({
+      where: {
+        id: { in: hits.map((h) => h.id) },
+        ...(onlyPublished ? publishedWhere : {}),
+      },
+      include: { priceBreaks: true },
+    });
+    const byId = new Map(products.map((p) => [p.id, p]));
+    return hits
+      .map((h) => {
+        const product = byId.get(h.id);
+        return product ? { ...product, score: h.score } : null;
+      })
+      .filter(isNotNull);
   }
 
-  private async upsertFarnellProducts(
-    items: { supplierSku: string; name: string; raw?: unknown }[],
-  ): Promise<{ total: number; created: number; updated: number }> {
-    const supplierValue = SupplierCode.farnell;
-    const supplierKeys = items.map((p) => `${supplierValue}:${p.supplierSku}`);
-    const existing = await this.prisma.product.findMany({
-      where: { supplierKey: { in: supplierKeys } },
-      select: { supplierKey: true },
-    });
-    const existingKeys = new Set(existing.map((p) => p.supplierKey));
-    const created = supplierKeys.filter((k) => !existingKeys.has(k)).length;
-    const updated = supplierKeys.length - created;
-
-    const ops = items.map((p) => {
-      const supplierKey = `${supplierValue}:${p.supplierSku}`;
-      return this.prisma.product.upsert({
-        where: { supplierKey },
-        create: {
-          supplier: supplierValue,
-          supplierSku: p.supplierSku,
-          supplierKey,
-          name: p.name,
-          raw: toInputJsonValue(p.raw ?? p),
-          sourceUpdatedAt: new Date(),
-        },
-        update: {
-          name: p.name,
-          raw: toInputJsonValue(p.raw ?? p),
-          sourceUpdatedAt: new Date(),
-        },
-      });
-    });
+  private resolveAdapters(code?: SupplierCode | null): SupplierAdapter[] {
+    if (!code) return this.suppliers.enabled();
+    const adapter = this.suppliers.get(code);
+    return adapter ? [adapter] : [];
+  }
 
-    await this.prisma.$transaction(ops);
-    return { total: items.length, created, updated };
+  // Unchanged products count as updated; they are stamped as seen.
+  private async upsertSupplierProducts(
+    items: SupplierProduct[],
+  ): Promise<{ total: number; created: number; updated: number }> {
+    const { created, updated, unchanged } = await this.products.save(items);
+    return { total: items.length, created, updated: updated + unchanged };
   }
 }
 
-type BatchQuery = {
-  term?: string;
-  q?: string;
-  mpn?: string;
-  id?: string;
-  keyword?: string;
+type BatchQuery = SupplierQuery & {
   offset?: number | string;
   numberOfResults?: number | string;
   responseGroup?: ResponseGroup;
@@ -517,50 +959,113 @@ function normalizeBatchBody(body: unknown): {
   };
 }
 
-type SearchCatalogResponse = {
-  source: 'local' | 'farnell' | 'empty';
-  count: number;
-  items: unknown[];
-  term?: string;
-  rateLimited?: boolean;
-};
-
-type SearchCacheEntry = {
-  expiresAt: number;
-  value: SearchCatalogResponse;
+const productDetailInclude = {
+  priceBreaks: { orderBy: { quantityFrom: 'asc' } },
+  attributes: { orderBy: { position: 'asc' } },
+  stock: true,
+  datasheets: true,
+} satisfies Prisma.ProductInclude;
+
+type ProductWithDetail = Prisma.ProductGetPayload<{
+  include: typeof productDetailInclude;
+}>;
+
+type ProductDetail = {
+  description: string | null;
+  attributes: Array<{ label: string; value: string; unit?: string }>;
+  images?: { main?: string; thumb?: string };
+  datasheets: Array<{ type?: string; description?: string; url?: string }>;
+  prices: SellPrice[];
+  stock?: { level?: number; status?: number; leastLeadTime?: number };
+  productUrl: string | null;
+  brandName: string | null;
 };
 
-function toInputJsonValue(input: unknown): Prisma.InputJsonValue {
-  const v = JSON.parse(JSON.stringify(input)) as unknown;
-  return (v ?? {}) as Prisma.InputJsonValue;
+// Structured fields come from the normalized tables; free text and media
+// are still read from `raw` unless curation overrides them. Prices are
+// sell prices, never supplier cost.
+function toProductDetail(
+  item: ProductWithDetail,
+  prices: SellPrice[],
+): ProductDetail {
+  return {
+    description:
+      item.overrideDescription ?? extractFarnellDescription(item.raw),
+    attributes: item.attributes.map((a) => ({
+      label: a.label,
+      value: a.value,
+      ...(a.unit ? { unit: a.unit } : {}),
+    })),
+    images:
+      parseProductImages(item.overrideImages) ?? extractFarnellImages(item.raw),
+    datasheets: item.datasheets.map((d) => ({
+      ...(d.type ? { type: d.type } : {}),
+      ...(d.description ? { description: d.description } : {}),
+      ...(d.url ? { url: d.url } : {}),
+    })),
+    prices,
+    stock: item.stock
+      ? {
+          ...(item.stock.level !== null ? { level: item.stock.level } : {}),
+          ...(item.stock.status !== null ? { status: item.stock.status } : {}),
+          ...(item.stock.leastLeadTime !== null
+            ? { leastLeadTime: item.stock.leastLeadTime }
+            : {}),
+        }
+      : undefined,
+    productUrl: extractFarnellProductUrl(item.raw),
+    brandName: item.manufacturer,
+  };
 }
 
-function buildFarnellTerm(input: {
-  term?: string;
-  q?: string;
-  mpn?: string;
-  id?: string;
-  keyword?: string;
-}): string | null {
-  const directTerm = input.term?.trim();
-  if (directTerm) return directTerm;
+type SearchItem = Prisma.ProductGetPayload<{
+  include: { priceBreaks: true };
+}> & { score?: number };
 
-  const mpn = input.mpn?.trim();
-  if (mpn) return `manuPartNum:${mpn}`;
+type PublicSearchItem = ReturnType<typeof withOverrides<SearchItem>>;
 
-  const id = input.id?.trim();
-  if (id) return `id:${id}`;
+type SearchCatalogResponse = {
+  source: 'local' | SupplierCode | 'empty';
+  count: number;
+  items: SearchItem[];
+  term?: string;
+  rateLimited?: boolean;
+  // Our own Farnell call budget ran out; see /admin/farnell/budget.
+  budgetExhausted?: boolean;
+  // The supplier's circuit breaker is open.
+  supplierUnavailable?: boolean;
+};
 
-  const keyword = input.keyword?.trim();
-  if (keyword) return `any:${keyword}`;
+type ProductLookup = {
+  source: 'local' | SupplierCode | 'empty';
+  item?: ProductWithDetail;
+  term?: string;
+  rateLimited?: boolean;
+  budgetExhausted?: boolean;
+  supplierUnavailable?: boolean;
+  // Served from the local copy because the refresh failed.
+  stale?: boolean;
+  // Seconds since the supplier data was fetched.
+  ageSeconds?: number;
+  // A background refresh was started; the next request gets its result.
+  revalidating?: boolean;
+};
 
-  const q = input.q?.trim();
-  if (!q) return null;
+type CachedSearch = Omit<SearchCatalogResponse, 'items' | 'count'> & {
+  hits: Array<{ id: string; score?: number }>;
+};
 
-  if (/\s/.test(q)) return `any:${q}`;
-  if (/^\d+$/.test(q)) return `id:${q}`;
+// Seconds since the supplier data was last fetched.
+function dataAgeSeconds(p: {
+  sourceUpdatedAt: Date | null;
+  updatedAt: Date;
+}): number {
+  const at = p.sourceUpdatedAt ?? p.updatedAt;
+  return Math.max(0, Math.round((Date.now() - at.getTime()) / 1000));
+}
 
-  return `manuPartNum:${q}`;
+function buildSupplierKey(p: { supplier: SupplierCode; supplierSku: string }) {
+  return `${p.supplier}:${p.supplierSku}`;
 }
 
 function buildInputLabel(input: BatchQuery): string {
@@ -572,8 +1077,6 @@ function buildInputLabel(input: BatchQuery): string {
   return '';
 }
 
-type ResponseGroup = 'small' | 'medium' | 'large';
-
 function parseResponseGroup(
   value: unknown,
   fallback: ResponseGroup,
@@ -606,25 +1109,14 @@ function normalizeBatchQuery(
   };
 }
 
-function parseSupplierCode(value?: string): SupplierCode | null {
-  if (!value) return null;
-  const normalized = value.trim().toLowerCase();
-  if (!normalized) return null;
-
-  if (normalized === 'farnell') return SupplierCode.farnell;
-  if (normalized === 'newark') return SupplierCode.newark;
-  if (normalized === 'element14') return SupplierCode.element14;
-  if (normalized === 'mock') return SupplierCode.mock;
-
-  return null;
-}
-
 function buildSearchCacheKey(
   q: string,
   limit: number,
   supplier: SupplierCode | null,
+  includeUnavailable: boolean,
+  onlyPublished: boolean,
 ): string {
-  return `${supplier ?? 'any'}|${limit}|${q.toLowerCase()}`;
+  return `${supplier ?? 'any'}|${limit}|${includeUnavailable ? 'all' : 'active'}|${onlyPublished ? 'published' : 'staff'}|${q.toLowerCase()}`;
 }
 
 function getSearchCacheTtlMs(): number {
@@ -634,22 +1126,30 @@ function getSearchCacheTtlMs(): number {
   return 60_000;
 }
 
-function pruneCache(cache: Map<string, SearchCacheEntry>) {
-  const now = Date.now();
-  for (const [key, entry] of cache) {
-    if (entry.expiresAt <= now) cache.delete(key);
+// 429 with the reset time instead of a generic 500.
+function rethrowBudgetExhausted(e: unknown): never {
+  if (e instanceof SupplierBudgetExhaustedError) {
+    throw new HttpException(
+      { statusCode: 429, message: e.message, resetAt: e.resetAt },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
   }
+  throw e;
+}
 
-  const maxSize = 500;
-  if (cache.size <= maxSize) return;
+function toOptionalNumber(v?: string): number | undefined {
+  if (v === undefined || !v.trim()) return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
 
-  const deleteCount = cache.size - maxSize;
-  let idx = 0;
-  for (const key of cache.keys()) {
-    cache.delete(key);
-    idx += 1;
-    if (idx >= deleteCount) break;
+function parseDateParam(v: string | undefined, name: string): Date | undefined {
+  if (v === undefined || !v.trim()) return undefined;
+  const date = new Date(v.trim());
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO date`);
   }
+  return date;
 }
 
 function parseBoolean(value?: string): boolean {
@@ -663,188 +1163,14 @@ function parseBoolean(value?: string): boolean {
   );
 }
 
-function isRecord(v: unknown): v is Record<string, unknown> {
-  return typeof v === 'object' && v !== null;
-}
-
-function asString(v: unknown): string | undefined {
-  return typeof v === 'string' && v.trim() ? v : undefined;
-}
-
 function isNotNull<T>(v: T | null): v is T {
   return v !== null;
 }
 
-function extractFarnellDescription(raw: unknown): string | null {
-  if (!isRecord(raw)) return null;
-
-  const direct =
-    asString(raw.longDescription) ??
-    asString(raw.shortDescription) ??
-    asString(raw.description) ??
-    asString(raw.productDescription);
-  if (direct) return direct;
-
-  const overview = raw.productOverview;
-  if (isRecord(overview)) {
-    const fromOverview =
-      asString(overview.description) ??
-      asString(overview.shortDescription) ??
-      asString(overview.longDescription) ??
-      asString(overview.alsoKnownAs);
-    if (fromOverview) return fromOverview;
-  }
-
-  return asString(raw.displayName) ?? asString(raw.name) ?? null;
-}
-
-function extractFarnellAttributes(
-  raw: unknown,
-): Array<{ label: string; value: string; unit?: string }> {
-  if (!isRecord(raw)) return [];
-
-  const attrsRaw = raw.attributes;
-  const list = Array.isArray(attrsRaw)
-    ? attrsRaw
-    : isRecord(attrsRaw) && Array.isArray(attrsRaw.attribute)
-      ? attrsRaw.attribute
-      : [];
-
-  return list
-    .map((entry) => {
-      if (!isRecord(entry)) return null;
-      const label = asString(entry.attributeLabel);
-      const value = asString(entry.attributeValue);
-      const unit = asString(entry.attributeUnit);
-      if (!label || !value) return null;
-      return { label, value, ...(unit ? { unit } : {}) };
-    })
-    .filter(isNotNull);
-}
-
-function extractFarnellImages(
-  raw: unknown,
-): { main?: string; thumb?: string } | undefined {
-  if (!isRecord(raw)) return undefined;
-  const image = raw.image;
-  if (!isRecord(image)) return undefined;
-
-  const main =
-    asString(image.mainImageURL) ??
-    asString(image.mainImageUrl) ??
-    asString(image.mainImage);
-  const thumb =
-    asString(image.thumbNailImageURL) ??
-    asString(image.thumbnailImageURL) ??
-    asString(image.thumbnailImageUrl) ??
-    asString(image.thumbNailImageUrl) ??
-    asString(image.thumbNailImage) ??
-    asString(image.thumbnailImage);
-
-  if (!main && !thumb) return undefined;
-  return { ...(main ? { main } : {}), ...(thumb ? { thumb } : {}) };
-}
-
-function extractFarnellDatasheets(
-  raw: unknown,
-): Array<{ type?: string; description?: string; url?: string }> {
-  if (!isRecord(raw)) return [];
-  const dsRaw = raw.datasheets;
-  const list = Array.isArray(dsRaw)
-    ? dsRaw
-    : isRecord(dsRaw) && Array.isArray(dsRaw.datasheet)
-      ? dsRaw.datasheet
-      : [];
-
-  return list
-    .map((entry) => {
-      if (!isRecord(entry)) return null;
-      const type = asString(entry.type);
-      const description = asString(entry.description);
-      const url = asString(entry.url);
-      if (!type && !description && !url) return null;
-      return {
-        ...(type ? { type } : {}),
-        ...(description ? { description } : {}),
-        ...(url ? { url } : {}),
-      };
-    })
-    .filter(isNotNull);
-}
-
-function extractFarnellPrices(
-  raw: unknown,
-): Array<{ from?: number; to?: number; cost?: number }> {
-  if (!isRecord(raw)) return [];
-  const pricesRaw = raw.prices;
-  const list = Array.isArray(pricesRaw)
-    ? pricesRaw
-    : isRecord(pricesRaw) && Array.isArray(pricesRaw.price)
-      ? pricesRaw.price
-      : [];
-
-  return list
-    .map((entry) => {
-      if (!isRecord(entry)) return null;
-      const from = toNumber(entry.from);
-      const to = toNumber(entry.to);
-      const cost = toNumber(entry.cost);
-      if (from === undefined && to === undefined && cost === undefined) {
-        return null;
-      }
-      return {
-        ...(from !== undefined ? { from } : {}),
-        ...(to !== undefined ? { to } : {}),
-        ...(cost !== undefined ? { cost } : {}),
-      };
-    })
-    .filter(isNotNull);
-}
-
-function extractFarnellStock(
-  raw: unknown,
-): { level?: number; status?: number; leastLeadTime?: number } | undefined {
-  if (!isRecord(raw)) return undefined;
-  const stock = raw.stock;
-  if (!isRecord(stock)) return undefined;
-
-  const level = toNumber(stock.level);
-  const status = toNumber(stock.status);
-  const leastLeadTime = toNumber(stock.leastLeadTime);
-
-  if (
-    level === undefined &&
-    status === undefined &&
-    leastLeadTime === undefined
-  ) {
-    return undefined;
-  }
-  return {
-    ...(level !== undefined ? { level } : {}),
-    ...(status !== undefined ? { status } : {}),
-    ...(leastLeadTime !== undefined ? { leastLeadTime } : {}),
-  };
-}
-
-function extractFarnellProductUrl(raw: unknown): string | null {
-  if (!isRecord(raw)) return null;
-  return asString(raw.productURL) ?? asString(raw.productUrl) ?? null;
-}
-
-function extractFarnellBrandName(raw: unknown): string | null {
-  if (!isRecord(raw)) return null;
-  return (
-    asString(raw.brandName) ??
-    (isRecord(raw.brand) ? asString(raw.brand.name) : null) ??
-    null
-  );
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
 }
 
-function toNumber(v: unknown): number | undefined {
-  if (typeof v === 'number' && Number.isFinite(v)) return v;
-  if (typeof v === 'string' && v.trim()) {
-    const n = Number(v);
-    return Number.isFinite(n) ? n : undefined;
-  }
-  return undefined;
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v : undefined;
 }
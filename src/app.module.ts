@@ -3,9 +3,24 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ScheduleModule } from '@nestjs/schedule';
 import { CatalogSyncJob } from './jobs/catalog-sync.job';
+import { JobLocksModule } from './jobs/job-locks.module';
+import { PriceSyncJob } from './jobs/price-sync.job';
+import { SyncProfilesController } from './jobs/sync-profiles.controller';
+import { SyncProfilesService } from './jobs/sync-profiles.service';
+import { SyncRunsController } from './jobs/sync-runs.controller';
+import { SyncScheduler } from './jobs/sync-scheduler';
+import { SyncRunsService } from './jobs/sync-runs.service';
 import { ConfigModule } from '@nestjs/config';
 import { SuppliersModule } from './suppliers/suppliers.module';
 import { PrismaModule } from './prisma/prisma.module';
+import { CatalogModule } from './catalog/catalog.module';
+import { QuotesModule } from './quotes/quotes.module';
+import { OrdersModule } from './orders/orders.module';
+import { BomsModule } from './boms/boms.module';
+import { AuthModule } from './auth/auth.module';
+import { PricingModule } from './pricing/pricing.module';
+import { CurrencyModule } from './currency/currency.module';
+import { CacheModule } from './cache/cache.module';
 
 @Module({
   imports: [
@@ -13,8 +28,24 @@ import { PrismaModule } from './prisma/prisma.module';
     ScheduleModule.forRoot(),
     SuppliersModule,
     PrismaModule,
+    AuthModule,
+    JobLocksModule,
+    CacheModule,
+    CurrencyModule,
+    PricingModule,
+    CatalogModule,
+    QuotesModule,
+    OrdersModule,
+    BomsModule,
+  ],
+  controllers: [AppController, SyncRunsController, SyncProfilesController],
+  providers: [
+    AppService,
+    CatalogSyncJob,
+    PriceSyncJob,
+    SyncRunsService,
+    SyncProfilesService,
+    SyncScheduler,
   ],
-  controllers: [AppController],
-  providers: [AppService, CatalogSyncJob],
 })
 export class AppModule {}
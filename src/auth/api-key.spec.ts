@@ -0,0 +1,48 @@
+import {
+  generateApiKey,
+  hashApiKey,
+  hasScope,
+  looksLikeApiKey,
+} from './api-key';
+
+describe('generateApiKey', () => {
+  it('produces well-formed, unique keys', () => {
+    const a = generateApiKey();
+    const b = generateApiKey();
+    expect(looksLikeApiKey(a.key)).toBe(true);
+    expect(a.key.startsWith(`rk_${a.prefix}_`)).toBe(true);
+    expect(a.key).not.toBe(b.key);
+  });
+});
+
+describe('hashApiKey', () => {
+  it('is deterministic and does not contain the key', () => {
+    const { key } = generateApiKey();
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    expect(hashApiKey(key)).not.toContain(key);
+  });
+});
+
+describe('looksLikeApiKey', () => {
+  it('rejects arbitrary tokens', () => {
+    expect(looksLikeApiKey('secret')).toBe(false);
+    expect(looksLikeApiKey('rk_XYZ_abc')).toBe(false);
+  });
+});
+
+describe('hasScope', () => {
+  it('matches exact scopes and the wildcard', () => {
+    expect(hasScope(['sync'], 'sync')).toBe(true);
+    expect(hasScope(['*'], 'orders')).toBe(true);
+    expect(hasScope(['orders'], 'sync')).toBe(false);
+  });
+
+  it('treats a scope as covering its sub-scopes', () => {
+    expect(hasScope(['supplier'], 'supplier:search')).toBe(true);
+    expect(hasScope(['supplier:search'], 'supplier')).toBe(false);
+  });
+
+  it('grants nothing without scopes', () => {
+    expect(hasScope([], 'sync')).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { Role } from '@prisma/client';
+
+// Keys look like `rk_<prefix>_<secret>`. They carry 192 bits of randomness,
+// so a plain SHA-256 is enough to store them; no slow hash is needed.
+const KEY_PREFIX = 'rk';
+
+export const Scope = {
+  all: '*',
+  sync: 'sync',
+  supplierSearch: 'supplier:search',
+  catalog: 'catalog',
+  orders: 'orders',
+  pricing: 'pricing',
+  apiKeys: 'api-keys',
+} as const;
+
+export type Principal = {
+  keyId: string;
+  name: string;
+  role: Role;
+  scopes: string[];
+  customerGroup: string | null;
+};
+
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = randomBytes(4).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  return { key: `${KEY_PREFIX}_${prefix}_${secret}`, prefix };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function looksLikeApiKey(value: string): boolean {
+  return /^rk_[0-9a-f]{8}_[A-Za-z0-9_-]{32}$/.test(value);
+}
+
+// `*` grants every scope; `orders` also grants `orders:<anything>`.
+export function hasScope(granted: string[], required: string): boolean {
+  return granted.some(
+    (s) => s === Scope.all || s === required || required.startsWith(`${s}:`),
+  );
+}
+
+export function parseRole(value?: string): Role | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return Object.values(Role).find((r) => r === normalized);
+}
@@ -0,0 +1,82 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { parseRole, Scope } from './api-key';
+import { ApiKeysService, ApiKeyView } from './api-keys.service';
+import { RequireScopes, Roles } from './auth.decorators';
+
+@Controller('/admin/api-keys')
+@Roles(Role.admin)
+@RequireScopes(Scope.apiKeys)
+export class ApiKeysController {
+  constructor(private readonly apiKeys: ApiKeysService) {}
+
+  // Body: { name, role, scopes?: string[], customerGroup?, expiresAt?: ISO date }
+  // The plaintext key is only returned here.
+  @Post()
+  createApiKey(
+    @Body() body: unknown,
+  ): Promise<{ key: string; apiKey: ApiKeyView }> {
+    const obj = isRecord(body) ? body : {};
+
+    const name = typeof obj.name === 'string' ? obj.name.trim() : '';
+    if (!name) throw new BadRequestException('name is required');
+
+    const role = parseRole(typeof obj.role === 'string' ? obj.role : '');
+    if (!role) {
+      throw new BadRequestException(
+        `role must be one of: ${Object.values(Role).join(', ')}`,
+      );
+    }
+
+    const scopes = Array.isArray(obj.scopes)
+      ? obj.scopes.map((s) => (typeof s === 'string' ? s.trim() : ''))
+      : [];
+    const invalid = scopes.filter((s) => !/^(\*|[a-z][a-z0-9:-]*)$/.test(s));
+    if (invalid.length) {
+      throw new BadRequestException(`Invalid scopes: ${invalid.join(', ')}`);
+    }
+
+    let expiresAt: Date | undefined;
+    if (typeof obj.expiresAt === 'string' && obj.expiresAt.trim()) {
+      expiresAt = new Date(obj.expiresAt);
+      if (Number.isNaN(expiresAt.getTime())) {
+        throw new BadRequestException('expiresAt must be an ISO date');
+      }
+    }
+
+    const customerGroup =
+      typeof obj.customerGroup === 'string' && obj.customerGroup.trim()
+        ? obj.customerGroup.trim()
+        : undefined;
+
+    return this.apiKeys.create({
+      name,
+      role,
+      scopes,
+      customerGroup,
+      expiresAt,
+    });
+  }
+
+  @Get()
+  listApiKeys(): Promise<ApiKeyView[]> {
+    return this.apiKeys.list();
+  }
+
+  @Delete('/:id')
+  revokeApiKey(@Param('id') id: string): Promise<ApiKeyView> {
+    return this.apiKeys.revoke(id);
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
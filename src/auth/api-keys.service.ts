@@ -0,0 +1,126 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  generateApiKey,
+  hashApiKey,
+  looksLikeApiKey,
+  Principal,
+  Scope,
+} from './api-key';
+
+export type CreateApiKeyInput = {
+  name: string;
+  role: Role;
+  scopes?: string[];
+  customerGroup?: string;
+  expiresAt?: Date;
+};
+
+// Everything but the hash.
+export const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  role: true,
+  scopes: true,
+  customerGroup: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiKeySelect;
+
+export type ApiKeyView = Prisma.ApiKeyGetPayload<{
+  select: typeof apiKeySelect;
+}>;
+
+// lastUsedAt is written at most once per key per minute.
+const TOUCH_INTERVAL_MS = 60_000;
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Returns the plaintext key once; only its hash is stored.
+  async create(
+    input: CreateApiKeyInput,
+  ): Promise<{ key: string; apiKey: ApiKeyView }> {
+    const { key, prefix } = generateApiKey();
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: input.name,
+        prefix,
+        keyHash: hashApiKey(key),
+        role: input.role,
+        scopes: input.scopes?.length ? input.scopes : [Scope.all],
+        customerGroup: input.customerGroup,
+        expiresAt: input.expiresAt,
+      },
+      select: apiKeySelect,
+    });
+    return { key, apiKey };
+  }
+
+  list(): Promise<ApiKeyView[]> {
+    return this.prisma.apiKey.findMany({
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(id: string): Promise<ApiKeyView> {
+    const existing = await this.prisma.apiKey.findUnique({
+      where: { id },
+      select: apiKeySelect,
+    });
+    if (!existing) throw new NotFoundException(`API key not found: ${id}`);
+    if (existing.revokedAt) return existing;
+
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: apiKeySelect,
+    });
+  }
+
+  // Resolves a presented key to its principal, or null when the key is
+  // unknown, revoked or expired.
+  async authenticate(key: string, ip?: string): Promise<Principal | null> {
+    if (!looksLikeApiKey(key)) return null;
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+    });
+    const now = new Date();
+    if (!apiKey || apiKey.revokedAt) return null;
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) return null;
+
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= TOUCH_INTERVAL_MS
+    ) {
+      this.prisma.apiKey
+        .update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: now, lastUsedIp: ip ?? null },
+        })
+        .catch((e: unknown) =>
+          this.logger.warn(
+            `Failed to record API key use: ${(e as Error).message ?? String(e)}`,
+          ),
+        );
+    }
+
+    return {
+      keyId: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role,
+      scopes: apiKey.scopes,
+      customerGroup: apiKey.customerGroup,
+    };
+  }
+}
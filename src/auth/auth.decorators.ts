@@ -0,0 +1,26 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import type { Request } from 'express';
+import { Principal } from './api-key';
+
+export const ROLES_KEY = 'auth:roles';
+export const SCOPES_KEY = 'auth:scopes';
+
+export type AuthenticatedRequest = Request & { principal?: Principal };
+
+// Restricts a route to the given roles. `/admin/*` routes default to
+// admin and staff when no roles are declared.
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+// Every listed scope must be granted to the calling API key.
+export const RequireScopes = (...scopes: string[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
+
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): Principal | undefined =>
+    ctx.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
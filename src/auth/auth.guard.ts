@@ -0,0 +1,93 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { hasScope } from './api-key';
+import { ApiKeysService } from './api-keys.service';
+import { AuthenticatedRequest, ROLES_KEY, SCOPES_KEY } from './auth.decorators';
+
+const ADMIN_ROUTE_ROLES: Role[] = [Role.admin, Role.staff];
+
+// Global guard. Authenticates an API key when one is presented, then
+// enforces @Roles/@RequireScopes. Every `/admin/*` route needs an admin or
+// staff key even without explicit metadata, so new admin routes are closed
+// by default.
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') return true;
+
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const key = extractApiKey(req);
+    if (key) {
+      const principal = await this.apiKeys.authenticate(key, req.ip);
+      if (!principal) {
+        throw new UnauthorizedException('Invalid, revoked or expired API key');
+      }
+      req.principal = principal;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    const roles =
+      this.reflector.getAllAndOverride<Role[] | undefined>(
+        ROLES_KEY,
+        targets,
+      ) ?? (isAdminRoute(context) ? ADMIN_ROUTE_ROLES : undefined);
+    const scopes =
+      this.reflector.getAllAndMerge<string[]>(SCOPES_KEY, targets) ?? [];
+
+    if (!roles && scopes.length === 0) return true;
+
+    const principal = req.principal;
+    if (!principal) throw new UnauthorizedException('API key required');
+
+    if (roles && !roles.includes(principal.role)) {
+      throw new ForbiddenException(
+        `Role ${principal.role} cannot access this route`,
+      );
+    }
+
+    const missing = scopes.filter((s) => !hasScope(principal.scopes, s));
+    if (missing.length) {
+      throw new ForbiddenException(`Missing scope: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
+
+// Accepts `Authorization: Bearer <key>` or `X-Api-Key: <key>`.
+function extractApiKey(req: AuthenticatedRequest): string | undefined {
+  const header = req.headers.authorization;
+  if (header) {
+    const m = /^Bearer\s+(\S+)$/i.exec(header.trim());
+    if (m) return m[1];
+  }
+  const apiKey = req.headers['x-api-key'];
+  const value = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+  return value?.trim() || undefined;
+}
+
+// Judged from the route definitions rather than the request URL, which
+// Express matches case-insensitively.
+function isAdminRoute(context: ExecutionContext): boolean {
+  const paths = [context.getClass(), context.getHandler()].flatMap((target) => {
+    const path = Reflect.getMetadata(PATH_METADATA, target) as
+      | string
+      | string[]
+      | undefined;
+    return Array.isArray(path) ? path : path ? [path] : [];
+  });
+  return paths.some((p) => /^\/*admin(\/|$)/i.test(p));
+}
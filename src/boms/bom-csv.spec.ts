@@ -0,0 +1,82 @@
+import { parseBomCsv, parseCsv } from './bom-csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with separators, quotes and newlines', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","x\ny"\r\n1,2,3,4')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'x\ny'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('detects semicolon and tab separated exports', () => {
+    expect(parseCsv('MPN;Qty\nBC547;2')).toEqual([
+      ['MPN', 'Qty'],
+      ['BC547', '2'],
+    ]);
+    expect(parseCsv('MPN\tQty\nBC547\t2\n')).toEqual([
+      ['MPN', 'Qty'],
+      ['BC547', '2'],
+    ]);
+  });
+
+  it('drops a byte order mark', () => {
+    expect(parseCsv('\uFEFFMPN\nBC547')).toEqual([['MPN'], ['BC547']]);
+  });
+});
+
+describe('parseBomCsv', () => {
+  it('finds columns by common header names', () => {
+    const bom = parseBomCsv(
+      [
+        'Designator,Mfr. Part #,Manufacturer,Qty,Description',
+        '"R1, R2",CRCW060310K0FKEA,Vishay,2,10k 0603',
+      ].join('\n'),
+    );
+    expect(bom.columns).toEqual({
+      mpn: 'Mfr. Part #',
+      quantity: 'Qty',
+      manufacturer: 'Manufacturer',
+      references: 'Designator',
+      description: 'Description',
+    });
+    expect(bom.lines).toEqual([
+      {
+        row: 2,
+        mpn: 'CRCW060310K0FKEA',
+        manufacturer: 'Vishay',
+        description: '10k 0603',
+        quantity: 2,
+        references: ['R1', 'R2'],
+      },
+    ]);
+  });
+
+  it('uses the mapping over header aliases', () => {
+    const bom = parseBomCsv('Part,Count,MPN\nLM358DT,5,ignored', {
+      mpn: 'part',
+      quantity: 'COUNT',
+    });
+    expect(bom.lines[0]).toMatchObject({ mpn: 'LM358DT', quantity: 5 });
+  });
+
+  it('reports mapped headers missing from the file', () => {
+    const bom = parseBomCsv('MPN,Qty\nBC547,1', { mpn: 'Part Number' });
+    expect(bom.unknownColumns).toEqual(['Part Number']);
+    expect(bom.columns.mpn).toBeNull();
+    expect(bom.lines).toEqual([]);
+  });
+
+  it('counts reference designators when the quantity is blank', () => {
+    const bom = parseBomCsv('MPN,Qty,Refs\nBC547,,Q1 Q2 Q3\nBC557,,');
+    expect(bom.lines.map((l) => l.quantity)).toEqual([3, 1]);
+  });
+
+  it('reports unreadable rows and skips blank ones', () => {
+    const bom = parseBomCsv('MPN,Qty\nBC547,2\n\n,4\nBC557,1.5\n,\n');
+    expect(bom.lines.map((l) => l.mpn)).toEqual(['BC547']);
+    expect(bom.errors).toEqual([
+      { row: 4, message: 'missing MPN' },
+      { row: 5, message: 'quantity must be a positive integer: 1.5' },
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+// Reads customer BOM exports (CSV, or semicolon/tab separated text saved from
+// a spreadsheet). The first non-empty row is the header; columns are found
+// by the names in `mapping` or, failing that, by common header aliases.
+
+export const BOM_COLUMNS = [
+  'mpn',
+  'quantity',
+  'manufacturer',
+  'references',
+  'description',
+] as const;
+
+export type BomColumn = (typeof BOM_COLUMNS)[number];
+
+// Header name per field, matched case-insensitively.
+export type BomColumnMapping = Partial<Record<BomColumn, string>>;
+
+export type BomLineInput = {
+  // Row number in the file, header included.
+  row: number;
+  mpn: string;
+  manufacturer: string | null;
+  description: string | null;
+  quantity: number;
+  references: string[];
+};
+
+export type BomRowError = { row: number; message: string };
+
+export type ParsedBom = {
+  // Header used for each field; null when the file has none.
+  columns: Record<BomColumn, string | null>;
+  // Mapped headers that are not in the file.
+  unknownColumns: string[];
+  lines: BomLineInput[];
+  errors: BomRowError[];
+};
+
+const HEADER_ALIASES: Record<BomColumn, string[]> = {
+  mpn: [
+    'mpn',
+    'manufacturer part number',
+    'manufacturer part no',
+    'manufacturer part #',
+    'mfr part number',
+    'mfr part no',
+    'mfr part #',
+    'mfg part number',
+    'part number',
+    'part no',
+    'pn',
+  ],
+  quantity: ['quantity', 'qty', 'qty per board', 'quantity per board'],
+  manufacturer: ['manufacturer', 'manufacturer name', 'mfr', 'mfg', 'brand'],
+  references: [
+    'references',
+    'reference',
+    'reference designators',
+    'reference designator',
+    'designators',
+    'designator',
+    'refdes',
+    'ref des',
+    'refs',
+  ],
+  description: ['description', 'value', 'comment'],
+};
+
+export function parseBomCsv(
+  text: string,
+  mapping: BomColumnMapping = {},
+): ParsedBom {
+  const rows = parseCsv(text);
+  const headerIdx = rows.findIndex((r) => r.some((c) => c.trim()));
+  const header = headerIdx >= 0 ? rows[headerIdx] : [];
+  const { indexes, columns, unknownColumns } = resolveColumns(header, mapping);
+
+  const lines: BomLineInput[] = [];
+  const errors: BomRowError[] = [];
+  if (indexes.mpn === null) {
+    return { columns, unknownColumns, lines, errors };
+  }
+
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const cells = rows[i];
+    if (!cells.some((c) => c.trim())) continue;
+    const row = i + 1;
+    const cell = (col: BomColumn) => {
+      const idx = indexes[col];
+      return idx === null ? '' : (cells[idx] ?? '').trim();
+    };
+
+    const mpn = cell('mpn');
+    if (!mpn) {
+      errors.push({ row, message: 'missing MPN' });
+      continue;
+    }
+    const references = parseReferences(cell('references'));
+    const quantity = parseQuantity(cell('quantity'), references);
+    if (quantity === null) {
+      errors.push({
+        row,
+        message: `quantity must be a positive integer: ${cell('quantity')}`,
+      });
+      continue;
+    }
+
+    lines.push({
+      row,
+      mpn,
+      manufacturer: cell('manufacturer') || null,
+      description: cell('description') || null,
+      quantity,
+      references,
+    });
+  }
+
+  return { columns, unknownColumns, lines, errors };
+}
+
+// RFC 4180 fields: quoted fields may hold separators, newlines and doubled
+// quotes. The separator is whichever of `,` `;` and tab the first line uses
+// most.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const sep = detectSeparator(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"' && !field.trim()) {
+      field = '';
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function detectSeparator(text: string): string {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === '\n' || ch === '\r')) break;
+    else if (!quoted && ch in counts) counts[ch]++;
+  }
+  return Object.keys(counts).reduce((best, sep) =>
+    counts[sep] > counts[best] ? sep : best,
+  );
+}
+
+function resolveColumns(
+  header: string[],
+  mapping: BomColumnMapping,
+): {
+  indexes: Record<BomColumn, number | null>;
+  columns: Record<BomColumn, string | null>;
+  unknownColumns: string[];
+} {
+  const names = header.map(headerKey);
+  const indexes = {} as Record<BomColumn, number | null>;
+  const columns = {} as Record<BomColumn, string | null>;
+  const unknownColumns: string[] = [];
+
+  for (const col of BOM_COLUMNS) {
+    const mapped = mapping[col]?.trim();
+    let idx = -1;
+    if (mapped) {
+      idx = names.indexOf(headerKey(mapped));
+      if (idx < 0) unknownColumns.push(mapped);
+    } else {
+      for (const alias of HEADER_ALIASES[col]) {
+        idx = names.indexOf(alias);
+        if (idx >= 0) break;
+      }
+    }
+    indexes[col] = idx >= 0 ? idx : null;
+    columns[col] = idx >= 0 ? header[idx].trim() : null;
+  }
+  return { indexes, columns, unknownColumns };
+}
+
+// "Mfr. Part #" and "mfr part #" name the same column.
+function headerKey(v: string): string {
+  return v.toLowerCase().replace(/[._:]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function parseReferences(v: string): string[] {
+  return v.split(/[\s,;]+/).filter(Boolean);
+}
+
+// A blank quantity counts the reference designators (one part each), or 1.
+function parseQuantity(v: string, references: string[]): number | null {
+  if (!v) return Math.max(1, references.length);
+  const n = Number(v.replace(/\s/g, ''));
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
@@ -0,0 +1,124 @@
+import { BomMatchStatus } from '@prisma/client';
+import {
+  classifyBomLine,
+  countMatches,
+  MatchCandidate,
+  normalizeMpn,
+} from './bom-match';
+
+function product(
+  productId: string,
+  mpn: string,
+  extra: Partial<MatchCandidate> = {},
+): MatchCandidate {
+  return {
+    productId,
+    supplier: 'farnell',
+    supplierSku: productId,
+    name: mpn,
+    manufacturer: 'STMicroelectronics',
+    mpn,
+    availability: 'active',
+    curationStatus: 'published',
+    ...extra,
+  };
+}
+
+describe('normalizeMpn', () => {
+  it.each([
+    ['lm358dt', 'LM358DT', 'LM358DT'],
+    ['LM358DT-TR', 'LM358DTTR', 'LM358DT'],
+    ['LM358DT/REEL', 'LM358DTREEL', 'LM358DT'],
+    ['IRF540N#PBF', 'IRF540NPBF', 'IRF540N'],
+    ['296-1395-1-ND', '29613951ND', '29613951'],
+    ['CRCW0603 10K0 FKEA', 'CRCW060310K0FKEA', 'CRCW060310K0FKEA'],
+    ['LM358DR', 'LM358DR', 'LM358DR'],
+  ])('%s', (mpn, key, base) => {
+    expect(normalizeMpn(mpn)).toEqual({ key, base });
+  });
+
+  it('rejects part numbers without letters or digits', () => {
+    expect(normalizeMpn(' - ')).toBeNull();
+  });
+});
+
+describe('classifyBomLine', () => {
+  it('matches the same part number exactly', () => {
+    const match = classifyBomLine({ mpn: 'lm358-dt' }, [
+      product('a', 'LM358DT'),
+      product('b', 'LM358DT-TR'),
+    ]);
+    expect(match.status).toBe(BomMatchStatus.exact);
+    expect(match.productId).toBe('a');
+    expect(match.candidates.map((c) => c.productId)).toEqual(['a']);
+  });
+
+  it('prefers the active, published offer of the same part', () => {
+    const match = classifyBomLine({ mpn: 'LM358DT' }, [
+      product('old', 'LM358DT', { availability: 'discontinued' }),
+      product('new', 'LM358DT', { supplier: 'newark' }),
+    ]);
+    expect(match.status).toBe(BomMatchStatus.exact);
+    expect(match.productId).toBe('new');
+  });
+
+  it('is probable when only the packaging differs', () => {
+    const match = classifyBomLine({ mpn: 'LM358DT-TR' }, [
+      product('a', 'LM358DT'),
+    ]);
+    expect(match).toMatchObject({
+      status: BomMatchStatus.probable,
+      productId: 'a',
+    });
+  });
+
+  it('narrows by manufacturer and downgrades when it disagrees', () => {
+    const products = [
+      product('st', 'BC547B'),
+      product('on', 'BC547B', { manufacturer: 'onsemi' }),
+    ];
+    expect(classifyBomLine({ mpn: 'BC547B' }, products).status).toBe(
+      BomMatchStatus.multiple,
+    );
+    expect(
+      classifyBomLine({ mpn: 'BC547B', manufacturer: 'ONSEMI' }, products),
+    ).toMatchObject({ status: BomMatchStatus.exact, productId: 'on' });
+    expect(
+      classifyBomLine({ mpn: 'BC547B', manufacturer: 'Nexperia' }, [
+        products[0],
+      ]),
+    ).toMatchObject({ status: BomMatchStatus.probable, productId: 'st' });
+  });
+
+  it('falls back to products extending the part number', () => {
+    expect(
+      classifyBomLine({ mpn: 'LM358' }, [product('a', 'LM358DT')]),
+    ).toMatchObject({ status: BomMatchStatus.probable, productId: 'a' });
+    expect(
+      classifyBomLine({ mpn: 'LM358' }, [
+        product('a', 'LM358DT'),
+        product('b', 'LM358N'),
+      ]),
+    ).toMatchObject({ status: BomMatchStatus.multiple, productId: null });
+  });
+
+  it('finds nothing for unrelated or very short part numbers', () => {
+    expect(
+      classifyBomLine({ mpn: 'LM358DT' }, [product('a', 'LM324DT')]).status,
+    ).toBe(BomMatchStatus.none);
+    expect(
+      classifyBomLine({ mpn: 'R1' }, [product('a', 'R1EX24002')]).status,
+    ).toBe(BomMatchStatus.none);
+  });
+});
+
+describe('countMatches', () => {
+  it('counts every status', () => {
+    expect(countMatches([{ match: 'exact' }, { match: 'exact' }])).toEqual({
+      exact: 2,
+      probable: 0,
+      multiple: 0,
+      none: 0,
+    });
+  });
+});
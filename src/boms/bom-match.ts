@@ -0,0 +1,152 @@
+import {
+  BomMatchStatus,
+  CurationStatus,
+  ProductAvailability,
+  SupplierCode,
+} from '@prisma/client';
+
+// `key` is the part number as the catalogue indexes it (`Product.mpnKey`):
+// uppercased, letters and digits only. `base` also drops packaging and
+// ordering suffixes, so LM358DT-TR, lm358dt and LM358DT/REEL share a base.
+export type MpnKeys = { key: string; base: string };
+
+// Suffixes only count after a separator: "-TR" is tape and reel, but the
+// trailing R of LM358DR is part of TI's orderable part number.
+const PACKAGING_SUFFIX =
+  /[-/#\s.](TR|T&R|REEL|RL|CT|CUT|CUT TAPE|BULK|TUBE|TRAY|ND|CT-ND|TR-ND|DKR-ND|PBF|TRPBF)$/;
+
+// Part numbers this short match far too much by prefix.
+const MIN_PREFIX_LENGTH = 4;
+
+export function normalizeMpn(mpn: string): MpnKeys | null {
+  const upper = mpn.trim().toUpperCase();
+  const key = alnum(upper);
+  if (!key) return null;
+
+  let stripped = upper;
+  for (;;) {
+    const next = stripped.replace(PACKAGING_SUFFIX, '');
+    if (next === stripped) break;
+    stripped = next;
+  }
+  return { key, base: alnum(stripped) || key };
+}
+
+export type MatchCandidate = {
+  productId: string;
+  supplier: SupplierCode;
+  supplierSku: string;
+  name: string;
+  manufacturer: string | null;
+  mpn: string | null;
+  availability: ProductAvailability;
+  curationStatus: CurationStatus;
+};
+
+export type BomMatch = {
+  status: BomMatchStatus;
+  // Set for exact and probable matches.
+  productId: string | null;
+  // Products the status was decided on, best first.
+  candidates: MatchCandidate[];
+};
+
+// exact:    the part number matches exactly, by a single manufacturer
+// probable: it matches once packaging suffixes are ignored, the manufacturer
+//           disagrees, or a single product extends the part number
+// multiple: the part number fits parts from several manufacturers, or
+//           several products extend it
+// none:     nothing fits
+// The same part offered by several suppliers is one match; the active,
+// published offer is preferred.
+export function classifyBomLine(
+  line: { mpn: string; manufacturer?: string | null },
+  products: MatchCandidate[],
+): BomMatch {
+  const keys = normalizeMpn(line.mpn);
+  const none: BomMatch = {
+    status: BomMatchStatus.none,
+    productId: null,
+    candidates: [],
+  };
+  if (!keys) return none;
+
+  const withKeys = products
+    .filter((p) => p.mpn)
+    .map((p) => ({ p, keys: normalizeMpn(p.mpn as string) }))
+    .filter((c): c is { p: MatchCandidate; keys: MpnKeys } => !!c.keys);
+
+  const exact = withKeys.filter((c) => c.keys.key === keys.key);
+  const sameBase = withKeys.filter((c) => c.keys.base === keys.base);
+  const tier: { status: BomMatchStatus; pool: MatchCandidate[] } = exact.length
+    ? { status: BomMatchStatus.exact, pool: exact.map((c) => c.p) }
+    : { status: BomMatchStatus.probable, pool: sameBase.map((c) => c.p) };
+
+  if (!tier.pool.length) {
+    if (keys.base.length < MIN_PREFIX_LENGTH) return none;
+    const extended = withKeys.filter((c) => c.keys.key.startsWith(keys.base));
+    const parts = new Set(extended.map((c) => c.keys.base));
+    if (!parts.size) return none;
+    const candidates = rank(extended.map((c) => c.p));
+    return parts.size === 1
+      ? {
+          status: BomMatchStatus.probable,
+          productId: candidates[0].productId,
+          candidates,
+        }
+      : { status: BomMatchStatus.multiple, productId: null, candidates };
+  }
+
+  if (line.manufacturer) {
+    const agreeing = tier.pool.filter((p) =>
+      sameManufacturer(line.manufacturer as string, p.manufacturer),
+    );
+    if (agreeing.length) tier.pool = agreeing;
+    else tier.status = BomMatchStatus.probable;
+  }
+
+  const candidates = rank(tier.pool);
+  const makers = new Set(
+    candidates
+      .map((p) => (p.manufacturer ? alnum(p.manufacturer.toUpperCase()) : ''))
+      .filter(Boolean),
+  );
+  if (makers.size > 1) {
+    return { status: BomMatchStatus.multiple, productId: null, candidates };
+  }
+  return {
+    status: tier.status,
+    productId: candidates[0].productId,
+    candidates,
+  };
+}
+
+export function countMatches(
+  lines: Array<{ match: BomMatchStatus }>,
+): Record<BomMatchStatus, number> {
+  const counts = Object.fromEntries(
+    Object.values(BomMatchStatus).map((s) => [s, 0]),
+  ) as Record<BomMatchStatus, number>;
+  for (const l of lines) counts[l.match]++;
+  return counts;
+}
+
+// "Texas Instruments" matches "TEXAS INSTRUMENTS INC"; an unknown
+// manufacturer never disagrees.
+function sameManufacturer(given: string, product: string | null): boolean {
+  if (!product) return true;
+  const a = alnum(given.toUpperCase());
+  const b = alnum(product.toUpperCase());
+  return !a || !b || a.startsWith(b) || b.startsWith(a);
+}
+
+function rank(products: MatchCandidate[]): MatchCandidate[] {
+  const score = (p: MatchCandidate) =>
+    (p.availability === ProductAvailability.active ? 2 : 0) +
+    (p.curationStatus === CurationStatus.published ? 1 : 0);
+  return [...products].sort((a, b) => score(b) - score(a));
+}
+
+function alnum(v: string): string {
+  return v.replace(/[^A-Z0-9]/g, '');
+}
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { BomLine, BomStatus } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import { CurrentPrincipal, RequireScopes } from '../auth/auth.decorators';
+import { parseCurrencyParam } from '../currency/exchange-rates.service';
+import type { CreateQuoteInput } from '../quotes/quotes.service';
+import { BOM_COLUMNS, BomColumnMapping } from './bom-csv';
+import {
+  BomLinePatch,
+  BomQuoteResult,
+  BomsService,
+  BomWithLines,
+  ImportBomInput,
+} from './boms.service';
+
+// Customer bills of materials: import a CSV, review the matched lines, then
+// turn the BOM into a draft quote. Unmatched lines are looked up at Farnell,
+// hence the supplier search scope.
+@Controller('/admin/boms')
+@RequireScopes(Scope.catalog, Scope.supplierSearch)
+export class BomsController {
+  constructor(private readonly boms: BomsService) {}
+
+  // Body: { csv, mapping?: { mpn?, quantity?, manufacturer?, references?,
+  //         description? }, name?, customerName?, customerEmail?,
+  //         reference? }. Mapping values are CSV header names.
+  @Post()
+  importBom(
+    @Body() body: unknown,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<BomWithLines> {
+    return this.boms.import(normalizeImportBody(body), actor(principal));
+  }
+
+  @Get()
+  async listBoms(
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(100, Math.floor(Number(limit))))
+      : 20;
+    const safeOffset = Number.isFinite(Number(offset))
+      ? Math.max(0, Math.floor(Number(offset)))
+      : 0;
+
+    const [total, items] = await this.boms.list({
+      status: status ? parseStatus(status) : undefined,
+      limit: safeLimit,
+      offset: safeOffset,
+    });
+    return {
+      count: items.length,
+      total,
+      limit: safeLimit,
+      offset: safeOffset,
+      items,
+    };
+  }
+
+  @Get('/:id')
+  getBom(@Param('id') id: string): Promise<BomWithLines> {
+    return this.boms.get(id);
+  }
+
+  // Body: { productId?: string | null, quantity? }
+  @Patch('/:id/lines/:lineId')
+  updateLine(
+    @Param('id') id: string,
+    @Param('lineId') lineId: string,
+    @Body() body: unknown,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<BomLine> {
+    return this.boms.updateLine(
+      id,
+      lineId,
+      normalizeLineBody(body),
+      actor(principal),
+    );
+  }
+
+  // Body: { customerName?, customerEmail?, reference?, notes?, validDays?,
+  //         currency?, ownerKeyId? }; customer fields default to the BOM's.
+  // Without `ownerKeyId` (the customer's API key id) nobody can accept the
+  // quote.
+  @Post('/:id/quote')
+  createQuote(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<BomQuoteResult> {
+    return this.boms.createQuote(id, normalizeQuoteBody(body));
+  }
+}
+
+function normalizeImportBody(body: unknown): ImportBomInput {
+  const obj = isRecord(body) ? body : {};
+  const csv = asString(obj.csv);
+  if (!csv) throw new BadRequestException('csv must be a string');
+
+  const mapping: BomColumnMapping = {};
+  if (obj.mapping !== undefined) {
+    if (!isRecord(obj.mapping)) {
+      throw new BadRequestException('mapping must be an object');
+    }
+    for (const col of BOM_COLUMNS) {
+      const header = obj.mapping[col];
+      if (header === undefined) continue;
+      if (typeof header !== 'string' || !header.trim()) {
+        throw new BadRequestException(`mapping.${col} must be a header name`);
+      }
+      mapping[col] = header;
+    }
+  }
+
+  return {
+    csv,
+    mapping,
+    name: asString(obj.name),
+    customerName: asString(obj.customerName),
+    customerEmail: asString(obj.customerEmail),
+    reference: asString(obj.reference),
+  };
+}
+
+function normalizeLineBody(body: unknown): BomLinePatch {
+  const obj = isRecord(body) ? body : {};
+  const patch: BomLinePatch = {};
+
+  if (obj.productId !== undefined) {
+    if (obj.productId !== null && !asString(obj.productId)) {
+      throw new BadRequestException('productId must be a string or null');
+    }
+    patch.productId =
+      obj.productId === null ? null : (obj.productId as string).trim();
+  }
+  if (obj.quantity !== undefined) {
+    const quantity = Number(obj.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new BadRequestException('quantity must be a positive integer');
+    }
+    patch.quantity = quantity;
+  }
+  return patch;
+}
+
+function normalizeQuoteBody(body: unknown): Omit<CreateQuoteInput, 'lines'> {
+  const obj = isRecord(body) ? body : {};
+  const validDays = Number(obj.validDays);
+
+  return {
+    customerName: asString(obj.customerName),
+    customerEmail: asString(obj.customerEmail),
+    reference: asString(obj.reference),
+    notes: asString(obj.notes),
+    ownerKeyId: asString(obj.ownerKeyId)?.trim(),
+    currency: parseCurrencyParam(asString(obj.currency)),
+    validDays:
+      Number.isFinite(validDays) && validDays > 0 ? validDays : undefined,
+  };
+}
+
+function parseStatus(v: string): BomStatus {
+  if ((Object.values(BomStatus) as string[]).includes(v)) {
+    return v as BomStatus;
+  }
+  throw new BadRequestException(
+    `status must be one of ${Object.values(BomStatus).join(', ')}`,
+  );
+}
+
+function actor(principal?: Principal): string {
+  return principal ? `${principal.role}:${principal.name}` : 'unknown';
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v : undefined;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CatalogModule } from '../catalog/catalog.module';
+import { QuotesModule } from '../quotes/quotes.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
+import { BomsController } from './boms.controller';
+import { BomsService } from './boms.service';
+
+@Module({
+  imports: [SuppliersModule, CatalogModule, QuotesModule],
+  controllers: [BomsController],
+  providers: [BomsService],
+})
+export class BomsModule {}
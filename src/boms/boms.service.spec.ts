@@ -0,0 +1,259 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { Prisma, Role, SupplierCode } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import { ProductPersistenceService } from '../catalog/product-persistence.service';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { OrdersController } from '../orders/orders.controller';
+import { OrdersService } from '../orders/orders.service';
+import { PricingService } from '../pricing/pricing.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { QuotesController } from '../quotes/quotes.controller';
+import { PricedLine, QuotesService } from '../quotes/quotes.service';
+import { SupplierRegistry } from '../suppliers/supplier-registry';
+import { BomsService } from './boms.service';
+
+type Row = Record<string, unknown>;
+
+const customer: Principal = {
+  keyId: 'key-customer',
+  name: 'Acme',
+  role: Role.customer,
+  scopes: [],
+  customerGroup: 'trade',
+};
+
+// Just enough of Prisma for a BOM to travel to an order.
+function fakePrisma() {
+  const quotes = new Map<string, Row>();
+  const orders = new Map<string, Row>();
+  const boms = new Map<string, Row>([
+    [
+      'bom-1',
+      {
+        id: 'bom-1',
+        customerName: 'Acme',
+        customerEmail: null,
+        reference: 'PO-7',
+        lines: [
+          {
+            id: 'line-1',
+            position: 2,
+            mpn: 'LM358DT',
+            quantity: 10,
+            productId: 'prod-1',
+            product: { supplier: SupplierCode.farnell, supplierSku: '123' },
+          },
+        ],
+      },
+    ],
+  ]);
+  const apiKeys = new Map<string, Row>([
+    [
+      customer.keyId,
+      { id: customer.keyId, customerGroup: 'trade', revokedAt: null },
+    ],
+  ]);
+
+  const prisma = {
+    apiKey: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(apiKeys.get(where.id) ?? null),
+    },
+    product: { findMany: () => Promise.resolve([]) },
+    bom: {
+      create: ({ data }: { data: Row & { lines: { createMany: Row } } }) =>
+        Promise.resolve({
+          ...data,
+          id: 'bom-2',
+          lines: (data.lines.createMany as { data: Row[] }).data,
+        }),
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(boms.get(where.id) ?? null),
+      update: ({ where, data }: { where: { id: string }; data: Row }) => {
+        const bom = { ...boms.get(where.id), ...data };
+        boms.set(where.id, bom);
+        return Promise.resolve(bom);
+      },
+    },
+    quote: {
+      create: ({ data }: { data: Row & { lines: { createMany: Row } } }) => {
+        const { lines, ...rest } = data;
+        const quote = {
+          ...rest,
+          id: `quote-${quotes.size + 1}`,
+          number: quotes.size + 1,
+          status: 'draft',
+          createdAt: new Date(),
+          lines: (lines.createMany as { data: Row[] }).data,
+        };
+        quotes.set(quote.id, quote);
+        return Promise.resolve(quote);
+      },
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(quotes.get(where.id) ?? null),
+      update: ({ where, data }: { where: { id: string }; data: Row }) => {
+        const quote = { ...quotes.get(where.id), ...data };
+        quotes.set(where.id, quote);
+        return Promise.resolve(quote);
+      },
+    },
+    order: {
+      findUnique: ({ where }: { where: { quoteId: string } }) =>
+        Promise.resolve(
+          [...orders.values()].find((o) => o.quoteId === where.quoteId) ?? null,
+        ),
+      create: ({ data }: { data: Row & { lines: { createMany: Row } } }) => {
+        const { lines, ...rest } = data;
+        const order = {
+          ...rest,
+          id: `order-${orders.size + 1}`,
+          number: orders.size + 1,
+          status: 'pending',
+          lines: (lines.createMany as { data: Row[] }).data,
+        };
+        orders.set(order.id, order);
+        return Promise.resolve(order);
+      },
+    },
+  };
+  return { prisma, quotes };
+}
+
+describe('BomsService', () => {
+  let boms: BomsService;
+  let quotesController: QuotesController;
+  let ordersController: OrdersController;
+  let quotes: Map<string, Row>;
+  let priceLines: jest.SpyInstance;
+  const farnell = {
+    code: SupplierCode.farnell,
+    buildTerm: ({ mpn }: { mpn: string }) => `manuPartNum:${mpn}`,
+    search: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const fake = fakePrisma();
+    quotes = fake.quotes;
+    const app = await Test.createTestingModule({
+      controllers: [QuotesController, OrdersController],
+      providers: [
+        BomsService,
+        QuotesService,
+        OrdersService,
+        { provide: PrismaService, useValue: fake.prisma },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        {
+          provide: ExchangeRatesService,
+          useValue: { defaultCurrency: () => 'GBP' },
+        },
+        { provide: PricingService, useValue: {} },
+        { provide: SupplierRegistry, useValue: { get: () => farnell } },
+        { provide: ProductPersistenceService, useValue: {} },
+      ],
+    }).compile();
+
+    boms = app.get(BomsService);
+    quotesController = app.get(QuotesController);
+    ordersController = app.get(OrdersController);
+    priceLines = jest
+      .spyOn(app.get(QuotesService), 'priceLines')
+      .mockImplementation((inputs) =>
+        Promise.resolve(
+          inputs.map(
+            (l, position) =>
+              ({
+                position,
+                productId: 'prod-1',
+                supplier: SupplierCode.farnell,
+                supplierSku: l.supplierSku,
+                supplierKey: `farnell:${l.supplierSku}`,
+                name: 'Op amp',
+                manufacturer: null,
+                mpn: 'LM358DT',
+                requestedQty: l.quantity,
+                quantity: l.quantity,
+                minOrderQty: 1,
+                orderMultiple: 1,
+                unitPrice: new Prisma.Decimal('0.5'),
+                lineTotal: new Prisma.Decimal(0.5 * l.quantity),
+                priceBreaks: [],
+                pricedAt: new Date(),
+              }) as PricedLine,
+          ),
+        ),
+      );
+  });
+
+  it('looks up a limited number of unmatched lines at background priority', async () => {
+    farnell.search.mockReset().mockResolvedValue([]);
+    const csv = [
+      'MPN,Qty',
+      ...Array.from({ length: 51 }, (_, i) => `PART${i},1`),
+    ].join('\n');
+
+    const bom = await boms.import({ csv }, 'staff:Sales');
+
+    expect(farnell.search).toHaveBeenCalledTimes(50);
+    expect(farnell.search).toHaveBeenCalledWith(
+      expect.objectContaining({ priority: 'background' }),
+    );
+    expect(bom.lines[50]).toMatchObject({
+      match: 'none',
+      matchSource: null,
+      note: 'Not looked up at farnell: import limit of 50 supplier lookups reached',
+    });
+  });
+
+  it('lets the customer accept the quote and order it', async () => {
+    const { quoteId } = await boms.createQuote('bom-1', {
+      ownerKeyId: customer.keyId,
+    });
+    expect(quotes.get(quoteId)).toMatchObject({
+      ownerKeyId: customer.keyId,
+      customerGroup: 'trade',
+    });
+    expect(priceLines).toHaveBeenCalledWith(
+      [{ supplier: SupplierCode.farnell, supplierSku: '123', quantity: 10 }],
+      { customerGroup: 'trade' },
+      'GBP',
+      undefined,
+    );
+
+    await quotesController.sendQuote(quoteId);
+    const accepted = await quotesController.acceptQuote(quoteId, customer);
+    expect(accepted.status).toBe('accepted');
+
+    const order = await ordersController.createOrderFromQuote(
+      quoteId,
+      customer,
+    );
+    expect(order).toMatchObject({
+      quoteId,
+      ownerKeyId: customer.keyId,
+      subtotal: new Prisma.Decimal(5),
+    });
+  });
+
+  it('tells staff that a quote without an owner cannot be accepted', async () => {
+    const { quoteId } = await boms.createQuote('bom-1', {});
+    await quotesController.sendQuote(quoteId);
+
+    await expect(
+      quotesController.acceptQuote(quoteId, {
+        ...customer,
+        keyId: 'key-staff',
+        role: Role.staff,
+        scopes: [Scope.orders],
+      }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('rejects an unknown owner key', async () => {
+    await expect(
+      boms.createQuote('bom-1', { ownerKeyId: 'key-unknown' }),
+    ).rejects.toThrow('ownerKeyId is not an active API key');
+  });
+});
@@ -0,0 +1,368 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Bom,
+  BomLine,
+  BomMatchStatus,
+  BomStatus,
+  Prisma,
+  SupplierCode,
+} from '@prisma/client';
+import { ProductPersistenceService } from '../catalog/product-persistence.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateQuoteInput, QuotesService } from '../quotes/quotes.service';
+import { SupplierRegistry } from '../suppliers/supplier-registry';
+import { BomColumnMapping, BomLineInput, parseBomCsv } from './bom-csv';
+import {
+  BomMatch,
+  classifyBomLine,
+  countMatches,
+  MatchCandidate,
+  normalizeMpn,
+} from './bom-match';
+
+const MAX_LINES = 1000;
+// Catalogue products considered per line; exact keys sort first.
+const LOCAL_CANDIDATES = 50;
+const SUPPLIER_RESULTS = 10;
+// Farnell lookups per import. They run inside the upload request and share
+// the daily request budget, so the remaining unmatched lines stay `none`
+// with a note for the reviewer.
+const SUPPLIER_LOOKUPS = 50;
+
+export type ImportBomInput = {
+  csv: string;
+  mapping?: BomColumnMapping;
+  name?: string;
+  customerName?: string;
+  customerEmail?: string;
+  reference?: string;
+};
+
+// Omitted fields are left alone; a null product clears the selection.
+export type BomLinePatch = {
+  productId?: string | null;
+  quantity?: number;
+};
+
+export type BomWithLines = Bom & {
+  lines: BomLine[];
+  matches: Record<BomMatchStatus, number>;
+};
+
+export type BomQuoteResult = {
+  quoteId: string;
+  // Lines left out because no product is selected.
+  skipped: Array<{ lineId: string; position: number; mpn: string }>;
+};
+
+type LineMatch = BomMatch & { source: string | null; note?: string };
+
+const candidateSelect = {
+  id: true,
+  supplier: true,
+  supplierSku: true,
+  name: true,
+  manufacturer: true,
+  mpn: true,
+  availability: true,
+  curationStatus: true,
+} satisfies Prisma.ProductSelect;
+
+// Imports customer BOMs: each line is matched against the local catalogue
+// first and Farnell (`manuPartNum:`) second. Supplier hits are stored as
+// curation candidates, like any other live search result.
+@Injectable()
+export class BomsService {
+  private readonly logger = new Logger(BomsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly suppliers: SupplierRegistry,
+    private readonly products: ProductPersistenceService,
+    private readonly quotes: QuotesService,
+  ) {}
+
+  async import(input: ImportBomInput, actor: string): Promise<BomWithLines> {
+    const parsed = parseBomCsv(input.csv, input.mapping);
+    if (parsed.unknownColumns.length) {
+      throw new BadRequestException({
+        message: 'Mapped columns not found in the header',
+        columns: parsed.unknownColumns,
+      });
+    }
+    if (!parsed.columns.mpn) {
+      throw new BadRequestException(
+        'No MPN column found; name it with mapping.mpn',
+      );
+    }
+    if (!parsed.lines.length) {
+      throw new BadRequestException({
+        message: 'BOM has no readable lines',
+        errors: parsed.errors,
+      });
+    }
+    if (parsed.lines.length > MAX_LINES) {
+      throw new BadRequestException(`BOM exceeds ${MAX_LINES} lines`);
+    }
+
+    // Repeated part numbers are matched (and searched) once.
+    const matched = new Map<string, LineMatch>();
+    const lookups = { left: SUPPLIER_LOOKUPS };
+    const lines: Prisma.BomLineCreateManyBomInput[] = [];
+    for (const line of parsed.lines) {
+      const keys = normalizeMpn(line.mpn);
+      const cacheKey = `${keys?.key ?? ''}|${line.manufacturer ?? ''}`;
+      let match = matched.get(cacheKey);
+      if (!match) {
+        match = await this.matchLine(line, lookups);
+        matched.set(cacheKey, match);
+      }
+      lines.push({
+        position: line.row,
+        mpn: line.mpn,
+        mpnKey: keys?.key ?? '',
+        manufacturer: line.manufacturer,
+        description: line.description,
+        quantity: line.quantity,
+        references: line.references,
+        match: match.status,
+        matchSource: match.source,
+        candidates: match.candidates,
+        productId: match.productId,
+        note: match.note,
+      });
+    }
+
+    const bom = await this.prisma.bom.create({
+      data: {
+        name: input.name,
+        customerName: input.customerName,
+        customerEmail: input.customerEmail,
+        reference: input.reference,
+        columns: parsed.columns,
+        rowErrors: parsed.errors.length ? parsed.errors : Prisma.DbNull,
+        createdBy: actor,
+        lines: { createMany: { data: lines } },
+      },
+      include: { lines: { orderBy: { position: 'asc' } } },
+    });
+    return withMatches(bom);
+  }
+
+  list(opts: { status?: BomStatus; limit: number; offset: number }) {
+    const where: Prisma.BomWhereInput = opts.status
+      ? { status: opts.status }
+      : {};
+    return Promise.all([
+      this.prisma.bom.count({ where }),
+      this.prisma.bom.findMany({
+        where,
+        include: { _count: { select: { lines: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: opts.limit,
+        skip: opts.offset,
+      }),
+    ]);
+  }
+
+  async get(id: string): Promise<BomWithLines> {
+    const bom = await this.prisma.bom.findUnique({
+      where: { id },
+      include: { lines: { orderBy: { position: 'asc' } } },
+    });
+    if (!bom) throw new NotFoundException(`BOM not found: ${id}`);
+    return withMatches(bom);
+  }
+
+  // A reviewer may pick any catalogue product, not only a candidate.
+  async updateLine(
+    bomId: string,
+    lineId: string,
+    patch: BomLinePatch,
+    actor: string,
+  ): Promise<BomLine> {
+    const line = await this.prisma.bomLine.findFirst({
+      where: { id: lineId, bomId },
+      select: { id: true },
+    });
+    if (!line) throw new NotFoundException(`BOM line not found: ${lineId}`);
+    if (patch.productId) {
+      const product = await this.prisma.product.findUnique({
+        where: { id: patch.productId },
+        select: { id: true },
+      });
+      if (!product) {
+        throw new NotFoundException(`Product not found: ${patch.productId}`);
+      }
+    }
+
+    return this.prisma.bomLine.update({
+      where: { id: lineId },
+      data: {
+        ...(patch.productId !== undefined
+          ? { productId: patch.productId }
+          : {}),
+        ...(patch.quantity !== undefined ? { quantity: patch.quantity } : {}),
+        reviewedAt: new Date(),
+        reviewedBy: actor,
+      },
+    });
+  }
+
+  // Creates a draft quote from every line with a selected product; lines of
+  // the same product are combined. A BOM can be quoted again after review.
+  // `ownerKeyId` is the customer's API key: it owns the quote (so it can
+  // accept and order it) and its customer group prices it.
+  async createQuote(
+    id: string,
+    input: Omit<CreateQuoteInput, 'lines'>,
+  ): Promise<BomQuoteResult> {
+    const bom = await this.prisma.bom.findUnique({
+      where: { id },
+      include: {
+        lines: {
+          orderBy: { position: 'asc' },
+          include: {
+            product: { select: { supplier: true, supplierSku: true } },
+          },
+        },
+      },
+    });
+    if (!bom) throw new NotFoundException(`BOM not found: ${id}`);
+    const owner = input.ownerKeyId
+      ? await this.findOwnerKey(input.ownerKeyId)
+      : null;
+
+    const quantities = new Map<
+      string,
+      { supplier: SupplierCode; supplierSku: string; quantity: number }
+    >();
+    const skipped: BomQuoteResult['skipped'] = [];
+    for (const line of bom.lines) {
+      if (!line.productId || !line.product) {
+        skipped.push({
+          lineId: line.id,
+          position: line.position,
+          mpn: line.mpn,
+        });
+        continue;
+      }
+      const entry = quantities.get(line.productId);
+      if (entry) entry.quantity += line.quantity;
+      else
+        quantities.set(line.productId, {
+          ...line.product,
+          quantity: line.quantity,
+        });
+    }
+
+    const quote = await this.quotes.create({
+      customerName: input.customerName ?? bom.customerName ?? undefined,
+      customerEmail: input.customerEmail ?? bom.customerEmail ?? undefined,
+      reference: input.reference ?? bom.reference ?? undefined,
+      notes: input.notes,
+      customerGroup: input.customerGroup ?? owner?.customerGroup,
+      ownerKeyId: owner?.id,
+      currency: input.currency,
+      validDays: input.validDays,
+      lines: [...quantities.values()],
+    });
+    await this.prisma.bom.update({
+      where: { id },
+      data: { status: BomStatus.quoted, quoteId: quote.id },
+    });
+    return { quoteId: quote.id, skipped };
+  }
+
+  private async findOwnerKey(id: string) {
+    const key = await this.prisma.apiKey.findUnique({
+      where: { id },
+      select: { id: true, customerGroup: true, revokedAt: true },
+    });
+    if (!key || key.revokedAt) {
+      throw new BadRequestException(
+        `ownerKeyId is not an active API key: ${id}`,
+      );
+    }
+    return key;
+  }
+
+  private async matchLine(
+    line: BomLineInput,
+    lookups: { left: number },
+  ): Promise<LineMatch> {
+    const keys = normalizeMpn(line.mpn);
+    if (!keys) {
+      return {
+        status: BomMatchStatus.none,
+        productId: null,
+        candidates: [],
+        source: null,
+      };
+    }
+
+    const local = classifyBomLine(
+      line,
+      await this.findCandidates({ mpnKey: { startsWith: keys.base } }),
+    );
+    if (local.status !== BomMatchStatus.none) {
+      return { ...local, source: 'catalog' };
+    }
+
+    const adapter = this.suppliers.get(SupplierCode.farnell);
+    const term = adapter?.buildTerm({ mpn: line.mpn });
+    if (!adapter || !term) return { ...local, source: null };
+    if (lookups.left <= 0) {
+      return {
+        ...local,
+        source: null,
+        note: `Not looked up at ${adapter.code}: import limit of ${SUPPLIER_LOOKUPS} supplier lookups reached`,
+      };
+    }
+    lookups.left -= 1;
+
+    try {
+      const items = await adapter.search({
+        term,
+        numberOfResults: SUPPLIER_RESULTS,
+        priority: 'background',
+      });
+      if (!items.length) return { ...local, source: adapter.code };
+      const saved = await this.products.save(items);
+      const candidates = await this.findCandidates({
+        id: { in: saved.products.map((p) => p.id) },
+      });
+      return { ...classifyBomLine(line, candidates), source: adapter.code };
+    } catch (e) {
+      // One failed lookup leaves the line unmatched instead of failing the
+      // whole import; the reviewer sees why.
+      this.logger.warn(
+        `BOM lookup failed for ${line.mpn}: ${(e as Error).message}`,
+      );
+      return { ...local, source: adapter.code, note: (e as Error).message };
+    }
+  }
+
+  private async findCandidates(
+    where: Prisma.ProductWhereInput,
+  ): Promise<MatchCandidate[]> {
+    const rows = await this.prisma.product.findMany({
+      where,
+      select: candidateSelect,
+      orderBy: [{ mpnKey: 'asc' }, { id: 'asc' }],
+      take: LOCAL_CANDIDATES,
+    });
+    return rows.map(({ id, ...rest }) => ({ productId: id, ...rest }));
+  }
+}
+
+function withMatches<T extends Bom & { lines: BomLine[] }>(
+  bom: T,
+): T & { matches: Record<BomMatchStatus, number> } {
+  return { ...bom, matches: countMatches(bom.lines) };
+}
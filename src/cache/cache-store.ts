@@ -0,0 +1,24 @@
+// Backend behind CacheService. Values must survive a JSON round trip so
+// every store can hold them.
+export interface CacheStore {
+  readonly kind: 'memory' | 'postgres';
+  get<T>(key: string): Promise<T | null>;
+  set(
+    key: string,
+    value: unknown,
+    opts: { ttlMs: number; tags: string[] },
+  ): Promise<void>;
+  // Removes every entry carrying any of the tags; returns how many.
+  invalidate(tags: string[]): Promise<number>;
+  flush(): Promise<number>;
+  // Live (unexpired) entries.
+  size(): Promise<number>;
+}
+
+// Tags the catalogue writers invalidate by. A supplier tag covers results
+// that may gain or lose products; a product tag covers results that hold
+// that product.
+export const cacheTags = {
+  supplier: (code: string) => `supplier:${code}`,
+  product: (supplierKey: string) => `product:${supplierKey}`,
+};
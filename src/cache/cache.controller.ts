@@ -0,0 +1,43 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import { RequireScopes, Roles } from '../auth/auth.decorators';
+import { CacheService, CacheStats } from './cache.service';
+
+@Controller('/admin/cache')
+@RequireScopes(Scope.catalog)
+export class CacheController {
+  constructor(private readonly cache: CacheService) {}
+
+  @Get()
+  getStats(): Promise<CacheStats> {
+    return this.cache.stats();
+  }
+
+  // Body: { tags?: string[] }. Without tags everything is dropped, e.g.
+  // { "tags": ["supplier:farnell"] } only drops Farnell results.
+  @Post('/flush')
+  @Roles(Role.admin)
+  async flush(@Body() body: unknown): Promise<{ removed: number }> {
+    const tags = isRecord(body) ? body.tags : undefined;
+    if (tags === undefined) return { removed: await this.cache.flush() };
+    if (
+      !Array.isArray(tags) ||
+      !tags.length ||
+      !tags.every((t): t is string => typeof t === 'string' && !!t.trim())
+    ) {
+      throw new BadRequestException('tags must be a non-empty string array');
+    }
+    return { removed: await this.cache.invalidate(tags.map((t) => t.trim())) };
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CacheController } from './cache.controller';
+import { CacheService } from './cache.service';
+
+@Module({
+  controllers: [CacheController],
+  providers: [CacheService],
+  exports: [CacheService],
+})
+export class CacheModule {}
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheStore } from './cache-store';
+import { MemoryCacheStore } from './memory-cache-store';
+import { PostgresCacheStore } from './postgres-cache-store';
+
+function toPositiveInt(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+// Counters are per instance even when the store is shared.
+export type CacheStats = {
+  store: CacheStore['kind'];
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  sets: number;
+  invalidated: number;
+  flushed: number;
+  since: Date;
+};
+
+// Store errors are logged and treated as a miss: a broken cache must never
+// fail the request it was meant to speed up.
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly store: CacheStore;
+  private readonly counters = {
+    hits: 0,
+    misses: 0,
+    sets: 0,
+    invalidated: 0,
+    flushed: 0,
+    since: new Date(),
+  };
+
+  constructor(config: ConfigService, prisma: PrismaService) {
+    // memory (default): per-instance LRU; postgres: shared by all instances.
+    this.store =
+      config.get<string>('CACHE_STORE')?.trim().toLowerCase() === 'postgres'
+        ? new PostgresCacheStore(prisma)
+        : new MemoryCacheStore(
+            toPositiveInt(config.get('CACHE_MAX_ENTRIES'), 500),
+          );
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.store.get<T>(key);
+      if (value === null) this.counters.misses += 1;
+      else this.counters.hits += 1;
+      return value;
+    } catch (e) {
+      this.counters.misses += 1;
+      this.logger.warn(`Cache read failed for ${key}: ${(e as Error).message}`);
+      return null;
+    }
+  }
+
+  async set(
+    key: string,
+    value: unknown,
+    opts: { ttlMs: number; tags?: string[] },
+  ): Promise<void> {
+    if (opts.ttlMs <= 0) return;
+    try {
+      await this.store.set(key, value, {
+        ttlMs: opts.ttlMs,
+        tags: [...new Set(opts.tags ?? [])],
+      });
+      this.counters.sets += 1;
+    } catch (e) {
+      this.logger.warn(
+        `Cache write failed for ${key}: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  // Called by catalogue writers; see `cacheTags`.
+  async invalidate(tags: string[]): Promise<number> {
+    if (!tags.length) return 0;
+    try {
+      const removed = await this.store.invalidate([...new Set(tags)]);
+      this.counters.invalidated += removed;
+      return removed;
+    } catch (e) {
+      this.logger.warn(`Cache invalidation failed: ${(e as Error).message}`);
+      return 0;
+    }
+  }
+
+  async flush(): Promise<number> {
+    const removed = await this.store.flush();
+    this.counters.flushed += removed;
+    return removed;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const { hits, misses } = this.counters;
+    return {
+      store: this.store.kind,
+      entries: await this.store.size(),
+      ...this.counters,
+      hitRate: hits + misses ? hits / (hits + misses) : null,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { MemoryCacheStore } from './memory-cache-store';
+
+describe('MemoryCacheStore', () => {
+  let now: number;
+  let store: MemoryCacheStore;
+
+  beforeEach(() => {
+    now = 1_000;
+    store = new MemoryCacheStore(2, () => now);
+  });
+
+  it('returns values until they expire', async () => {
+    await store.set('a', { n: 1 }, { ttlMs: 100, tags: [] });
+    expect(await store.get('a')).toEqual({ n: 1 });
+    now += 100;
+    expect(await store.get('a')).toBeNull();
+    expect(await store.size()).toBe(0);
+  });
+
+  it('evicts the least recently used entry', async () => {
+    await store.set('a', 1, { ttlMs: 100, tags: [] });
+    await store.set('b', 2, { ttlMs: 100, tags: [] });
+    await store.get('a');
+    await store.set('c', 3, { ttlMs: 100, tags: [] });
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('drops every entry carrying an invalidated tag', async () => {
+    await store.set('a', 1, { ttlMs: 100, tags: ['supplier:farnell'] });
+    await store.set('b', 2, {
+      ttlMs: 100,
+      tags: ['supplier:mock', 'product:mock:1'],
+    });
+    expect(await store.invalidate(['product:mock:1', 'unknown'])).toBe(1);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeNull();
+  });
+
+  it('forgets old tags when a key is overwritten', async () => {
+    await store.set('a', 1, { ttlMs: 100, tags: ['x'] });
+    await store.set('a', 2, { ttlMs: 100, tags: ['y'] });
+    expect(await store.invalidate(['x'])).toBe(0);
+    expect(await store.get('a')).toBe(2);
+    expect(await store.flush()).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { CacheStore } from './cache-store';
+
+type Entry = { value: unknown; tags: string[]; expiresAt: number };
+
+// Per-process LRU: Map insertion order doubles as recency, so a hit moves
+// the entry to the end and eviction takes from the front.
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = 'memory' as const;
+  private readonly entries = new Map<string, Entry>();
+  private readonly byTag = new Map<string, Set<string>>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(null);
+    if (entry.expiresAt <= this.now()) {
+      this.delete(key);
+      return Promise.resolve(null);
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value as T);
+  }
+
+  set(
+    key: string,
+    value: unknown,
+    opts: { ttlMs: number; tags: string[] },
+  ): Promise<void> {
+    this.delete(key);
+    this.entries.set(key, {
+      value,
+      tags: opts.tags,
+      expiresAt: this.now() + opts.ttlMs,
+    });
+    for (const tag of opts.tags) {
+      let keys = this.byTag.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.byTag.set(tag, keys);
+      }
+      keys.add(key);
+    }
+    this.evict();
+    return Promise.resolve();
+  }
+
+  invalidate(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of this.byTag.get(tag) ?? []) {
+        if (this.delete(key)) removed += 1;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+
+  flush(): Promise<number> {
+    const removed = this.entries.size;
+    this.entries.clear();
+    this.byTag.clear();
+    return Promise.resolve(removed);
+  }
+
+  size(): Promise<number> {
+    this.pruneExpired();
+    return Promise.resolve(this.entries.size);
+  }
+
+  private evict() {
+    if (this.entries.size <= this.maxEntries) return;
+    this.pruneExpired();
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.delete(key);
+    }
+  }
+
+  private pruneExpired() {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.delete(key);
+    }
+  }
+
+  private delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.byTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.byTag.delete(tag);
+    }
+    return true;
+  }
+}
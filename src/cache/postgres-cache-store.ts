@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheStore } from './cache-store';
+
+// Expired rows are ignored on read and deleted at most this often.
+const PURGE_INTERVAL_MS = 60_000;
+
+// Shared by every API instance through the CacheEntry table, so a write on
+// one instance invalidates what the others serve.
+export class PostgresCacheStore implements CacheStore {
+  readonly kind = 'postgres' as const;
+  private lastPurgeAt = 0;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.prisma.cacheEntry.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt <= new Date()) return null;
+    return entry.value as T;
+  }
+
+  async set(
+    key: string,
+    value: unknown,
+    opts: { ttlMs: number; tags: string[] },
+  ): Promise<void> {
+    const data = {
+      value: JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue,
+      tags: opts.tags,
+      expiresAt: new Date(Date.now() + opts.ttlMs),
+    };
+    await this.prisma.cacheEntry.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+    await this.purgeExpired();
+  }
+
+  async invalidate(tags: string[]): Promise<number> {
+    if (!tags.length) return 0;
+    const { count } = await this.prisma.cacheEntry.deleteMany({
+      where: { tags: { hasSome: tags } },
+    });
+    return count;
+  }
+
+  async flush(): Promise<number> {
+    const { count } = await this.prisma.cacheEntry.deleteMany();
+    return count;
+  }
+
+  size(): Promise<number> {
+    return this.prisma.cacheEntry.count({
+      where: { expiresAt: { gt: new Date() } },
+    });
+  }
+
+  private async purgeExpired() {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) return;
+    this.lastPurgeAt = Date.now();
+    await this.prisma.cacheEntry.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { parseAttributeValue, parseQuantityPart } from './attribute-units';
+
+describe('parseAttributeValue', () => {
+  it.each([
+    ['Resistance', '10kohm', null, 'resistance', 10_000],
+    ['Resistance', '4k7', null, 'resistance', 4_700],
+    ['Resistance', '10', 'kohm', 'resistance', 10_000],
+    ['Resistance', '10k', null, 'resistance', 10_000],
+    ['Capacitance', '4.7µF', null, 'capacitance', 4.7e-6],
+    ['Capacitance', '100nF', null, 'capacitance', 1e-7],
+    ['Voltage Rating', '50V', null, 'voltage', 50],
+    ['Power Rating', '1/4W', null, 'power', 0.25],
+    ['Clock Frequency', '16MHz', null, 'frequency', 16e6],
+    ['Output Current', '500mA', null, 'current', 0.5],
+    ['No. of Pins', '8', null, 'count', 8],
+  ])('%s "%s" (%s)', (label, value, unit, kind, expected) => {
+    const result = parseAttributeValue({ label, value, unit });
+
+    expect(result.status).toBe('numeric');
+    if (result.status !== 'numeric') return;
+    expect(result.quantity.kind).toBe(kind);
+    expect(result.quantity.value).toBeCloseTo(expected, 12);
+  });
+
+  it('parses temperature ranges', () => {
+    const result = parseAttributeValue({
+      label: 'Operating Temperature Range',
+      value: '-40°C to 85°C',
+    });
+
+    expect(result).toEqual({
+      status: 'numeric',
+      quantity: {
+        kind: 'temperature',
+        unit: '°C',
+        value: -40,
+        min: -40,
+        max: 85,
+      },
+    });
+  });
+
+  it('applies a trailing unit to the whole range', () => {
+    const result = parseAttributeValue({
+      label: 'Supply Voltage Range',
+      value: '1.8 to 5.5V',
+    });
+
+    expect(result.status).toBe('numeric');
+    if (result.status !== 'numeric') return;
+    expect(result.quantity).toMatchObject({
+      kind: 'voltage',
+      min: 1.8,
+      max: 5.5,
+    });
+  });
+
+  it('parses tolerances as percent and keeps them on quantities', () => {
+    expect(parseAttributeValue({ label: 'Tolerance', value: '± 1%' })).toEqual({
+      status: 'numeric',
+      quantity: {
+        kind: 'percent',
+        unit: '%',
+        value: 1,
+        min: 1,
+        max: 1,
+        tolerancePct: 1,
+      },
+    });
+
+    const withTol = parseAttributeValue({
+      label: 'Capacitance',
+      value: '10uF ±20%',
+    });
+    expect(withTol.status).toBe('numeric');
+    if (withTol.status !== 'numeric') return;
+    expect(withTol.quantity.tolerancePct).toBe(20);
+  });
+
+  it('treats package codes and words as text', () => {
+    expect(parseAttributeValue({ label: 'Package', value: '0603' })).toEqual({
+      status: 'text',
+    });
+    expect(parseAttributeValue({ label: 'Package', value: 'SOT-23' })).toEqual({
+      status: 'text',
+    });
+    expect(
+      parseAttributeValue({ label: 'Product Range', value: 'MCWR Series' }),
+    ).toEqual({ status: 'text' });
+  });
+
+  it('reports numeric-looking values it cannot read', () => {
+    expect(
+      parseAttributeValue({ label: 'Resistance', value: '10 furlongs' }),
+    ).toEqual({ status: 'unparsed' });
+  });
+});
+
+describe('parseQuantityPart', () => {
+  it('rejects SI prefixes on temperatures', () => {
+    expect(parseQuantityPart('5k°C')).toBeNull();
+  });
+});
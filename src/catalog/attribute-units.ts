@@ -0,0 +1,240 @@
+import { QuantityKind } from '@prisma/client';
+
+// Parses free-text attribute values ("10kohm", "4.7µF", "-40°C to 85°C",
+// "± 1%") into canonical SI numbers so they can be range-filtered.
+
+export type ParsedQuantity = {
+  kind: QuantityKind;
+  unit: string;
+  value: number;
+  min: number;
+  max: number;
+  tolerancePct?: number;
+};
+
+export type AttributeParseResult =
+  | { status: 'numeric'; quantity: ParsedQuantity }
+  | { status: 'text' }
+  | { status: 'unparsed' };
+
+export const CANONICAL_UNITS: Record<QuantityKind, string> = {
+  resistance: 'ohm',
+  capacitance: 'F',
+  inductance: 'H',
+  voltage: 'V',
+  current: 'A',
+  power: 'W',
+  frequency: 'Hz',
+  temperature: '°C',
+  percent: '%',
+  count: '',
+};
+
+const SI_PREFIXES: Record<string, number> = {
+  p: 1e-12,
+  n: 1e-9,
+  u: 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+};
+
+// Checked in order: "ohm" before "h" and "hz" before "h".
+const UNIT_SYMBOLS: Array<[string, QuantityKind]> = [
+  ['ohms', QuantityKind.resistance],
+  ['ohm', QuantityKind.resistance],
+  ['degc', QuantityKind.temperature],
+  ['°c', QuantityKind.temperature],
+  ['hz', QuantityKind.frequency],
+  ['f', QuantityKind.capacitance],
+  ['h', QuantityKind.inductance],
+  ['v', QuantityKind.voltage],
+  ['a', QuantityKind.current],
+  ['w', QuantityKind.power],
+  ['%', QuantityKind.percent],
+];
+
+const LABEL_HINTS: Array<[RegExp, QuantityKind]> = [
+  [/resist/i, QuantityKind.resistance],
+  [/capacit/i, QuantityKind.capacitance],
+  [/inductan/i, QuantityKind.inductance],
+  [/volt/i, QuantityKind.voltage],
+  [/current/i, QuantityKind.current],
+  [/power/i, QuantityKind.power],
+  [/freq/i, QuantityKind.frequency],
+  [/temp/i, QuantityKind.temperature],
+  [/toleran/i, QuantityKind.percent],
+];
+
+const RANGE_SEPARATOR = /\s+to\s+|\s*~\s*|\s*\.\.\.?\s*|\s+-\s+|\s*[–—]\s*/i;
+
+export function parseAttributeValue(input: {
+  label?: string;
+  value: string;
+  unit?: string | null;
+}): AttributeParseResult {
+  const hint = kindFromLabel(input.label);
+  let text = normalizeText(input.value);
+  if (!/\d/.test(text)) return { status: 'text' };
+  // Package codes such as "0603" are identifiers, not quantities.
+  if (/^0\d+$/.test(text)) return { status: 'text' };
+  // "SOT-23", "Reel of 5000": text unless the label names a quantity.
+  if (!/^[+\-±.\d]/.test(text) && !hint) return { status: 'text' };
+
+  let tolerancePct: number | undefined;
+  const tol = /±\s*(\d+(?:\.\d+)?)\s*%/.exec(text);
+  if (tol) {
+    tolerancePct = Number(tol[1]);
+    text = text.replace(tol[0], '').trim();
+    if (!text) {
+      return numeric(QuantityKind.percent, [tolerancePct], tolerancePct);
+    }
+  }
+
+  const unit = input.unit ? normalizeText(input.unit) : '';
+  const parts = text.split(RANGE_SEPARATOR).filter(Boolean);
+  if (parts.length === 0 || parts.length > 2) return { status: 'unparsed' };
+
+  const parsed = parts.map((p) => parseQuantityPart(p, unit, hint));
+  if (parsed.some((p) => p === null)) return { status: 'unparsed' };
+
+  const quantities = parsed as Array<{
+    value: number;
+    kind: QuantityKind | null;
+  }>;
+  // "-40 to 85°C": the unit of the last part applies to the whole range.
+  const kind =
+    quantities.map((q) => q.kind).find((k) => k !== null) ??
+    hint ??
+    QuantityKind.count;
+  if (quantities.some((q) => q.kind !== null && q.kind !== kind)) {
+    return { status: 'unparsed' };
+  }
+
+  return numeric(
+    kind,
+    quantities.map((q) => q.value),
+    tolerancePct,
+  );
+}
+
+// Parses a single quantity like "4.7uF", "10k", "1/4W" or "-40°C". Returns
+// the value in canonical units and the kind implied by its unit symbol.
+export function parseQuantityPart(
+  part: string,
+  unitHint = '',
+  labelHint: QuantityKind | null = null,
+): { value: number; kind: QuantityKind | null } | null {
+  let text = normalizeText(part);
+
+  // RKM notation: 4k7 -> 4.7k, 2R2 -> 2.2
+  const rkm = /^(\d+)([pnumkKMGR])(\d+)$/.exec(text);
+  if (rkm) {
+    const prefix = rkm[2] === 'R' ? '' : rkm[2];
+    text = `${rkm[1]}.${rkm[3]}${prefix}`;
+  }
+
+  const m = /^([+-]?\d+(?:\.\d+)?(?:\/\d+)?)\s*([^\d\s].*)?$/.exec(text);
+  if (!m) return null;
+
+  const base = parseNumber(m[1]);
+  if (base === null) return null;
+
+  let suffix = (m[2] ?? '').trim();
+  if (!suffix && unitHint) suffix = unitHint;
+  else if (suffix && unitHint && !matchUnit(suffix) && isPrefix(suffix)) {
+    // value "10k" with unit "ohm"
+    suffix = `${suffix}${unitHint}`;
+  }
+
+  if (!suffix) return { value: base, kind: null };
+
+  const unit = matchUnit(suffix);
+  if (unit) {
+    if (unit.prefix && !isPrefix(unit.prefix)) return null;
+    if (
+      unit.prefix &&
+      (unit.kind === QuantityKind.temperature ||
+        unit.kind === QuantityKind.percent)
+    ) {
+      return null;
+    }
+    const factor = unit.prefix ? SI_PREFIXES[unit.prefix] : 1;
+    return { value: scale(base, factor), kind: unit.kind };
+  }
+
+  // Bare SI prefix ("10k") only makes sense with a kind from the label.
+  if (isPrefix(suffix) && labelHint) {
+    return { value: scale(base, SI_PREFIXES[suffix]), kind: labelHint };
+  }
+
+  return null;
+}
+
+export function kindFromLabel(label?: string): QuantityKind | null {
+  if (!label) return null;
+  for (const [re, kind] of LABEL_HINTS) {
+    if (re.test(label)) return kind;
+  }
+  return null;
+}
+
+function numeric(
+  kind: QuantityKind,
+  values: number[],
+  tolerancePct?: number,
+): AttributeParseResult {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return {
+    status: 'numeric',
+    quantity: {
+      kind,
+      unit: CANONICAL_UNITS[kind],
+      value: values[0],
+      min,
+      max,
+      ...(tolerancePct !== undefined ? { tolerancePct } : {}),
+    },
+  };
+}
+
+function matchUnit(
+  suffix: string,
+): { prefix: string; kind: QuantityKind } | null {
+  const lower = suffix.toLowerCase();
+  for (const [symbol, kind] of UNIT_SYMBOLS) {
+    if (lower.endsWith(symbol)) {
+      return { prefix: suffix.slice(0, suffix.length - symbol.length), kind };
+    }
+  }
+  return null;
+}
+
+function isPrefix(v: string): boolean {
+  return Object.hasOwn(SI_PREFIXES, v);
+}
+
+function parseNumber(v: string): number | null {
+  const [num, den] = v.split('/');
+  const n = Number(num);
+  const d = den !== undefined ? Number(den) : 1;
+  if (!Number.isFinite(n) || !Number.isFinite(d) || d === 0) return null;
+  return n / d;
+}
+
+// Keeps 12 significant digits so 4.7 * 1e-6 does not turn into 4.7000…04e-6.
+function scale(value: number, factor: number): number {
+  return Number((value * factor).toPrecision(12));
+}
+
+function normalizeText(v: string): string {
+  return v
+    .replace(/[µμ]/g, 'u')
+    .replace(/Ω/g, 'ohm')
+    .replace(/[−‐]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, SupplierCode } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export type CatalogSearchHit = { id: string; score: number };
+
+// Minimum pg_trgm similarity for the part-number fallback.
+const TRIGRAM_THRESHOLD = 0.3;
+
+@Injectable()
+export class CatalogSearchService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Ranked full-text search over the generated `searchVector`. Every token is
+  // matched as a prefix so word order and partial words both hit. When that
+  // finds nothing, falls back to trigram / substring matching on MPN and SKU.
+  async search(
+    query: string,
+    opts: {
+      limit: number;
+      supplier?: SupplierCode | null;
+      includeUnavailable?: boolean;
+      // Candidates and hidden products are left out when set.
+      publishedOnly?: boolean;
+    },
+  ): Promise<CatalogSearchHit[]> {
+    const filters = Prisma.sql`${
+      opts.supplier
+        ? Prisma.sql`AND p."supplier" = ${opts.supplier}::"SupplierCode"`
+        : Prisma.empty
+    } ${
+      opts.includeUnavailable
+        ? Prisma.empty
+        : Prisma.sql`AND p."availability" = 'active'`
+    } ${
+      opts.publishedOnly
+        ? Prisma.sql`AND p."curationStatus" = 'published'`
+        : Prisma.empty
+    }`;
+
+    const tsquery = buildPrefixTsQuery(query);
+    if (tsquery) {
+      const ranked = await this.prisma.$queryRaw<CatalogSearchHit[]>`
+        SELECT p."id", ts_rank(p."searchVector", q.query)::float8 AS score
+        FROM "Product" p, to_tsquery('simple', ${tsquery}) AS q(query)
+        WHERE p."searchVector" @@ q.query ${filters}
+        ORDER BY score DESC, p."updatedAt" DESC
+        LIMIT ${opts.limit}
+      `;
+      if (ranked.length > 0) return ranked;
+    }
+
+    const needle = query.trim();
+    const like = `%${escapeLike(needle)}%`;
+    return this.prisma.$queryRaw<CatalogSearchHit[]>`
+      SELECT p."id",
+        GREATEST(
+          similarity(coalesce(p."mpn", ''), ${needle}),
+          similarity(p."supplierSku", ${needle})
+        )::float8 AS score
+      FROM "Product" p
+      WHERE (
+        similarity(coalesce(p."mpn", ''), ${needle}) >= ${TRIGRAM_THRESHOLD}
+        OR similarity(p."supplierSku", ${needle}) >= ${TRIGRAM_THRESHOLD}
+        OR p."mpn" ILIKE ${like}
+        OR p."supplierSku" ILIKE ${like}
+      ) ${filters}
+      ORDER BY score DESC, p."updatedAt" DESC
+      LIMIT ${opts.limit}
+    `;
+  }
+}
+
+// "10k 0603 resistor" -> "10k:* & 0603:* & resistor:*"
+export function buildPrefixTsQuery(query: string): string | null {
+  const tokens = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  if (tokens.length === 0) return null;
+  return tokens.map((t) => `${t}:*`).join(' & ');
+}
+
+function escapeLike(v: string): string {
+  return v.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
@@ -0,0 +1,175 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import { CurrentPrincipal, RequireScopes } from '../auth/auth.decorators';
+import { parseCurrencyParam } from '../currency/exchange-rates.service';
+import {
+  currencyReport,
+  PricingService,
+  withSellPrices,
+} from '../pricing/pricing.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import { CatalogSearchService } from './catalog-search.service';
+import { publishedOnly, withOverrides } from './product-curation';
+import {
+  AttributeFacet,
+  ParametricSearchService,
+} from './parametric-search.service';
+import {
+  parseAttributeFilters,
+  parseAttributeRanges,
+  ProductFilter,
+  toList,
+} from './product-filter';
+
+@Controller()
+export class CatalogController {
+  constructor(
+    private readonly parametricSearch: ParametricSearchService,
+    private readonly catalogSearch: CatalogSearchService,
+    private readonly prisma: PrismaService,
+    private readonly pricing: PricingService,
+  ) {}
+
+  // e.g. /search/parametric?attr=Resistance:10kohm&attr=Package:0603
+  //        &attrRange=Tolerance:..1%&brand=Multicomp&inStock=true
+  //        &minPrice=0.01&maxPrice=0.5
+  // Price bounds are list prices in `currency` (default: the store
+  // currency). Callers without the catalog scope only see published products.
+  @Get('/search/parametric')
+  async searchParametric(
+    @Query('q') q?: string,
+    @Query('attr') attr?: string | string[],
+    @Query('attrRange') attrRange?: string | string[],
+    @Query('brand') brand?: string | string[],
+    @Query('inStock') inStock?: string,
+    @Query('includeUnavailable') includeUnavailable?: string,
+    @Query('minPrice') minPrice?: string,
+    @Query('maxPrice') maxPrice?: string,
+    @Query('supplier') supplier?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+    @Query('currency') currency?: string,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<
+    {
+      count: number;
+      total: number;
+      limit: number;
+      offset: number;
+      items: unknown[];
+      facets: AttributeFacet[];
+      brands: Array<{ brand: string; count: number }>;
+    } & ReturnType<typeof currencyReport>
+  > {
+    const targetCurrency = parseCurrencyParam(currency);
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(100, Math.floor(Number(limit))))
+      : 24;
+    const safeOffset = Number.isFinite(Number(offset))
+      ? Math.max(0, Math.floor(Number(offset)))
+      : 0;
+
+    const filter: ProductFilter = {
+      supplier: parseSupplierCode(supplier),
+      brands: toList(brand),
+      inStock: parseBoolean(inStock),
+      includeUnavailable: parseBoolean(includeUnavailable),
+      publishedOnly: publishedOnly(principal),
+      ...(await this.pricing.listPriceBounds(
+        {
+          minPrice: toOptionalNumber(minPrice),
+          maxPrice: toOptionalNumber(maxPrice),
+        },
+        targetCurrency,
+      )),
+      attributes: parseAttributeFilters(attr),
+      ranges: parseAttributeRanges(attrRange),
+    };
+
+    const query = q?.trim();
+    if (query) {
+      const hits = await this.catalogSearch.search(query, {
+        limit: 1000,
+        supplier: filter.supplier,
+        includeUnavailable: filter.includeUnavailable,
+        publishedOnly: filter.publishedOnly,
+      });
+      filter.ids = hits.map((h) => h.id);
+    }
+
+    const result = await this.parametricSearch.search(filter, {
+      limit: safeLimit,
+      offset: safeOffset,
+    });
+    const priced = await this.pricing.sellPrices(
+      result.items,
+      { customerGroup: principal?.customerGroup },
+      targetCurrency,
+    );
+
+    return {
+      count: result.items.length,
+      total: result.total,
+      limit: safeLimit,
+      offset: safeOffset,
+      items: result.items.map((p) =>
+        withSellPrices(withOverrides(p), priced.prices.get(p.id)),
+      ),
+      facets: result.facets,
+      brands: result.brands,
+      ...currencyReport(priced),
+    };
+  }
+
+  // Attribute values that look numeric but the unit parser could not read.
+  @Get('/admin/attributes/unparsed')
+  @RequireScopes(Scope.catalog)
+  async listUnparsedAttributes(@Query('limit') limit?: string): Promise<{
+    count: number;
+    items: Array<{
+      label: string;
+      value: string;
+      unit: string | null;
+      products: number;
+    }>;
+  }> {
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(500, Math.floor(Number(limit))))
+      : 100;
+
+    const rows = await this.prisma.productAttribute.groupBy({
+      by: ['label', 'value', 'unit'],
+      where: { parseStatus: 'unparsed' },
+      _count: { _all: true },
+      orderBy: { _count: { productId: 'desc' } },
+      take: safeLimit,
+    });
+
+    const items = rows.map((r) => ({
+      label: r.label,
+      value: r.value,
+      unit: r.unit,
+      products: r._count._all,
+    }));
+    return { count: items.length, items };
+  }
+}
+
+function toOptionalNumber(v?: string): number | undefined {
+  if (v === undefined || !v.trim()) return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function parseBoolean(value?: string): boolean {
+  if (!value) return false;
+  const normalized = value.trim().toLowerCase();
+  return (
+    normalized === '1' ||
+    normalized === 'true' ||
+    normalized === 'yes' ||
+    normalized === 'y'
+  );
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { CacheModule } from '../cache/cache.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { CatalogSearchService } from './catalog-search.service';
+import { CatalogController } from './catalog.controller';
+import { CurationController } from './curation.controller';
+import { CurationService } from './curation.service';
+import { ParametricSearchService } from './parametric-search.service';
+import { ProductPersistenceService } from './product-persistence.service';
+import { ProductRevisionsController } from './product-revisions.controller';
+import { ProductRevisionsService } from './product-revisions.service';
+
+@Module({
+  imports: [PricingModule, CacheModule],
+  controllers: [
+    CatalogController,
+    ProductRevisionsController,
+    CurationController,
+  ],
+  providers: [
+    CatalogSearchService,
+    ParametricSearchService,
+    ProductPersistenceService,
+    ProductRevisionsService,
+    CurationService,
+  ],
+  exports: [
+    CatalogSearchService,
+    ParametricSearchService,
+    ProductPersistenceService,
+  ],
+})
+export class CatalogModule {}
@@ -0,0 +1,157 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { CurationStatus } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import { CurrentPrincipal, RequireScopes } from '../auth/auth.decorators';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import {
+  CurationPatch,
+  CurationService,
+  CurationView,
+} from './curation.service';
+import { parseProductImages } from './product-curation';
+
+// Review queue for products stored from supplier data. Candidates stay out
+// of the public catalogue until they are published here.
+@Controller('/admin/curation')
+@RequireScopes(Scope.catalog)
+export class CurationController {
+  constructor(private readonly curation: CurationService) {}
+
+  // e.g. /admin/curation/products?status=candidate&supplier=farnell&q=10k
+  @Get('/products')
+  async listProducts(
+    @Query('status') status?: string,
+    @Query('supplier') supplier?: string,
+    @Query('q') q?: string,
+    @Query('featured') featured?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<{
+    count: number;
+    total: number;
+    limit: number;
+    offset: number;
+    items: CurationView[];
+  }> {
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(200, Math.floor(Number(limit))))
+      : 50;
+    const safeOffset = Number.isFinite(Number(offset))
+      ? Math.max(0, Math.floor(Number(offset)))
+      : 0;
+
+    const { total, items } = await this.curation.list({
+      status: status ? parseStatus(status) : undefined,
+      supplier: parseSupplierCode(supplier),
+      q,
+      featured: featured === undefined ? undefined : featured.trim() === 'true',
+      limit: safeLimit,
+      offset: safeOffset,
+    });
+    return {
+      count: items.length,
+      total,
+      limit: safeLimit,
+      offset: safeOffset,
+      items,
+    };
+  }
+
+  // Body: { status?, name?, description?, images?: { main?, thumb? },
+  //         featured? }; null clears an override.
+  @Patch('/products/:id')
+  updateProduct(
+    @Param('id') id: string,
+    @Body() body: unknown,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<CurationView> {
+    return this.curation.update(id, normalizePatchBody(body), actor(principal));
+  }
+
+  // Body: { ids: string[] }
+  @Post('/publish')
+  async publish(
+    @Body() body: unknown,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<{ published: number }> {
+    const ids = isRecord(body) ? body.ids : undefined;
+    if (
+      !Array.isArray(ids) ||
+      !ids.length ||
+      !ids.every((id): id is string => typeof id === 'string' && !!id.trim())
+    ) {
+      throw new BadRequestException('ids must be a non-empty string array');
+    }
+    return {
+      published: await this.curation.publish(
+        ids.map((id) => id.trim()),
+        actor(principal),
+      ),
+    };
+  }
+}
+
+function normalizePatchBody(body: unknown): CurationPatch {
+  const obj = isRecord(body) ? body : {};
+  const patch: CurationPatch = {};
+
+  if (obj.status !== undefined) patch.status = parseStatus(obj.status);
+  for (const key of ['name', 'description'] as const) {
+    if (obj[key] === undefined) continue;
+    if (obj[key] === null) {
+      patch[key] = null;
+      continue;
+    }
+    const value = typeof obj[key] === 'string' ? obj[key].trim() : '';
+    if (!value) {
+      throw new BadRequestException(`${key} must be a string or null`);
+    }
+    patch[key] = value;
+  }
+  if (obj.images !== undefined) {
+    const images = obj.images === null ? null : parseProductImages(obj.images);
+    if (obj.images !== null && !images) {
+      throw new BadRequestException(
+        'images must be { main?: string, thumb?: string } or null',
+      );
+    }
+    patch.images = images;
+  }
+  if (obj.featured !== undefined) {
+    if (typeof obj.featured !== 'boolean') {
+      throw new BadRequestException('featured must be a boolean');
+    }
+    patch.featured = obj.featured;
+  }
+  return patch;
+}
+
+function parseStatus(v: unknown): CurationStatus {
+  if (
+    typeof v === 'string' &&
+    (Object.values(CurationStatus) as string[]).includes(v)
+  ) {
+    return v as CurationStatus;
+  }
+  throw new BadRequestException(
+    `status must be one of ${Object.values(CurationStatus).join(', ')}`,
+  );
+}
+
+function actor(principal?: Principal): string {
+  return principal ? `${principal.role}:${principal.name}` : 'unknown';
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,176 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { CurationStatus, Prisma, Product, SupplierCode } from '@prisma/client';
+import { cacheTags } from '../cache/cache-store';
+import { CacheService } from '../cache/cache.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseProductImages, ProductImages } from './product-curation';
+
+// Omitted fields are left alone; null clears an override.
+export type CurationPatch = {
+  status?: CurationStatus;
+  name?: string | null;
+  description?: string | null;
+  images?: ProductImages | null;
+  featured?: boolean;
+};
+
+// A product under review: supplier values next to the overrides.
+export type CurationView = Pick<
+  Product,
+  | 'id'
+  | 'supplier'
+  | 'supplierSku'
+  | 'supplierKey'
+  | 'name'
+  | 'manufacturer'
+  | 'mpn'
+  | 'description'
+  | 'availability'
+  | 'curationStatus'
+  | 'curatedAt'
+  | 'curatedBy'
+  | 'overrideName'
+  | 'overrideDescription'
+  | 'featured'
+  | 'createdAt'
+> & { overrideImages: ProductImages | null };
+
+const curationSelect = {
+  id: true,
+  supplier: true,
+  supplierSku: true,
+  supplierKey: true,
+  name: true,
+  manufacturer: true,
+  mpn: true,
+  description: true,
+  availability: true,
+  curationStatus: true,
+  curatedAt: true,
+  curatedBy: true,
+  overrideName: true,
+  overrideDescription: true,
+  overrideImages: true,
+  featured: true,
+  createdAt: true,
+} satisfies Prisma.ProductSelect;
+
+@Injectable()
+export class CurationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cache: CacheService,
+  ) {}
+
+  // Oldest first, so a review queue is worked through in arrival order.
+  async list(opts: {
+    status?: CurationStatus;
+    supplier?: SupplierCode | null;
+    q?: string;
+    featured?: boolean;
+    limit: number;
+    offset: number;
+  }): Promise<{ total: number; items: CurationView[] }> {
+    const q = opts.q?.trim();
+    const where: Prisma.ProductWhereInput = {
+      ...(opts.status ? { curationStatus: opts.status } : {}),
+      ...(opts.supplier ? { supplier: opts.supplier } : {}),
+      ...(opts.featured !== undefined ? { featured: opts.featured } : {}),
+      ...(q
+        ? {
+            OR: [
+              { name: { contains: q, mode: 'insensitive' } },
+              { mpn: { contains: q, mode: 'insensitive' } },
+              { supplierSku: { contains: q, mode: 'insensitive' } },
+            ],
+          }
+        : {}),
+    };
+    const [total, rows] = await Promise.all([
+      this.prisma.product.count({ where }),
+      this.prisma.product.findMany({
+        where,
+        select: curationSelect,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: opts.limit,
+        skip: opts.offset,
+      }),
+    ]);
+    return { total, items: rows.map(toView) };
+  }
+
+  async update(
+    id: string,
+    patch: CurationPatch,
+    actor: string,
+  ): Promise<CurationView> {
+    const current = await this.prisma.product.findUnique({
+      where: { id },
+      select: { supplier: true, supplierKey: true, curationStatus: true },
+    });
+    if (!current) throw new NotFoundException(`Product not found: ${id}`);
+
+    const updated = await this.prisma.product.update({
+      where: { id },
+      data: {
+        ...(patch.status ? { curationStatus: patch.status } : {}),
+        ...(patch.name !== undefined ? { overrideName: patch.name } : {}),
+        ...(patch.description !== undefined
+          ? { overrideDescription: patch.description }
+          : {}),
+        ...(patch.images !== undefined
+          ? { overrideImages: patch.images ?? Prisma.DbNull }
+          : {}),
+        ...(patch.featured !== undefined ? { featured: patch.featured } : {}),
+        curatedAt: new Date(),
+        curatedBy: actor,
+      },
+      select: curationSelect,
+    });
+
+    await this.cache.invalidate([
+      cacheTags.product(current.supplierKey),
+      ...(patch.status === CurationStatus.published &&
+      current.curationStatus !== CurationStatus.published
+        ? [cacheTags.supplier(current.supplier)]
+        : []),
+    ]);
+    return toView(updated);
+  }
+
+  // Moves candidates (and hidden products) to published. Returns how many
+  // changed.
+  async publish(ids: string[], actor: string): Promise<number> {
+    const products = await this.prisma.product.findMany({
+      where: {
+        id: { in: ids },
+        curationStatus: { not: CurationStatus.published },
+      },
+      select: { id: true, supplier: true },
+    });
+    if (!products.length) return 0;
+
+    const { count } = await this.prisma.product.updateMany({
+      where: {
+        id: { in: products.map((p) => p.id) },
+        curationStatus: { not: CurationStatus.published },
+      },
+      data: {
+        curationStatus: CurationStatus.published,
+        curatedAt: new Date(),
+        curatedBy: actor,
+      },
+    });
+    // Newly published products can join any cached result of their supplier.
+    await this.cache.invalidate([
+      ...new Set(products.map((p) => cacheTags.supplier(p.supplier))),
+    ]);
+    return count;
+  }
+}
+
+function toView(
+  p: Prisma.ProductGetPayload<{ select: typeof curationSelect }>,
+): CurationView {
+  return { ...p, overrideImages: parseProductImages(p.overrideImages) };
+}
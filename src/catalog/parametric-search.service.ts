@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { buildProductWhere, ProductFilter } from './product-filter';
+
+export type AttributeFacet = {
+  label: string;
+  values: Array<{ value: string; count: number }>;
+};
+
+export type ParametricSearchResult = {
+  total: number;
+  items: Prisma.ProductGetPayload<{ include: typeof parametricInclude }>[];
+  facets: AttributeFacet[];
+  brands: Array<{ brand: string; count: number }>;
+};
+
+const parametricInclude = {
+  attributes: { orderBy: { position: 'asc' } },
+  stock: true,
+  priceBreaks: true,
+} satisfies Prisma.ProductInclude;
+
+// Cap on distinct values returned per facet label.
+const MAX_FACET_VALUES = 50;
+
+@Injectable()
+export class ParametricSearchService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async search(
+    filter: ProductFilter,
+    page: { limit: number; offset: number },
+  ): Promise<ParametricSearchResult> {
+    const where = buildProductWhere(filter);
+
+    const [total, items, facets, brands] = await Promise.all([
+      this.prisma.product.count({ where }),
+      this.prisma.product.findMany({
+        where,
+        include: parametricInclude,
+        // Cheapest first by list price, the basis of the price filter too.
+        orderBy: [{ listPrice: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+        take: page.limit,
+        skip: page.offset,
+      }),
+      this.buildAttributeFacets(filter),
+      this.buildBrandFacet(where),
+    ]);
+
+    return { total, items, facets, brands };
+  }
+
+  // Counts per label/value over the filtered products. A label that is being
+  // filtered on is counted without its own filter so alternatives stay
+  // visible in the sidebar.
+  private async buildAttributeFacets(
+    filter: ProductFilter,
+  ): Promise<AttributeFacet[]> {
+    const selected = filter.attributes ?? [];
+
+    const [base, ...perLabel] = await Promise.all([
+      this.groupAttributes(buildProductWhere(filter), {
+        notIn: selected.map((a) => a.label),
+      }),
+      ...selected.map((a) =>
+        this.groupAttributes(
+          buildProductWhere(filter, { excludeLabel: a.label }),
+          { only: a.label },
+        ),
+      ),
+    ]);
+
+    // Labels compare case-insensitively, as the filters do.
+    const byLabel = new Map<string, AttributeFacet>();
+    for (const row of [...base, ...perLabel.flat()]) {
+      const key = row.label.toLowerCase();
+      const facet = byLabel.get(key) ?? { label: row.label, values: [] };
+      if (facet.values.length < MAX_FACET_VALUES) {
+        facet.values.push({ value: row.value, count: row._count._all });
+      }
+      byLabel.set(key, facet);
+    }
+
+    return [...byLabel.values()].sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  private groupAttributes(
+    productWhere: Prisma.ProductWhereInput,
+    labels: { only?: string; notIn?: string[] },
+  ) {
+    return this.prisma.productAttribute.groupBy({
+      by: ['label', 'value'],
+      where: {
+        product: productWhere,
+        ...(labels.only
+          ? { label: { equals: labels.only, mode: 'insensitive' } }
+          : {}),
+        ...(labels.notIn?.length
+          ? {
+              NOT: labels.notIn.map((label) => ({
+                label: { equals: label, mode: 'insensitive' as const },
+              })),
+            }
+          : {}),
+      },
+      _count: { _all: true },
+      orderBy: [{ label: 'asc' }, { _count: { value: 'desc' } }],
+    });
+  }
+
+  private async buildBrandFacet(where: Prisma.ProductWhereInput) {
+    const rows = await this.prisma.product.groupBy({
+      by: ['manufacturer'],
+      where: { AND: [where, { manufacturer: { not: null } }] },
+      _count: { _all: true },
+      orderBy: { _count: { manufacturer: 'desc' } },
+      take: MAX_FACET_VALUES,
+    });
+
+    return rows.map((r) => ({
+      brand: r.manufacturer ?? '',
+      count: r._count._all,
+    }));
+  }
+}
@@ -0,0 +1,81 @@
+import { Role } from '@prisma/client';
+import {
+  parseProductImages,
+  publishedOnly,
+  withOverrides,
+} from './product-curation';
+
+const product = {
+  id: 'p1',
+  name: 'RES 10K 1% 0603',
+  description: 'Thick film resistor',
+  overrideName: null,
+  overrideDescription: null,
+  overrideImages: null,
+  featured: false,
+};
+
+describe('withOverrides', () => {
+  it('keeps supplier values without overrides', () => {
+    expect(withOverrides(product)).toEqual({
+      id: 'p1',
+      name: 'RES 10K 1% 0603',
+      description: 'Thick film resistor',
+      featured: false,
+    });
+  });
+
+  it('layers overrides over supplier values', () => {
+    expect(
+      withOverrides({
+        ...product,
+        overrideName: '10k resistor',
+        overrideDescription: 'Our standard 10k resistor',
+        overrideImages: { main: 'https://example.com/r.jpg' },
+        featured: true,
+      }),
+    ).toEqual({
+      id: 'p1',
+      name: '10k resistor',
+      description: 'Our standard 10k resistor',
+      featured: true,
+    });
+  });
+});
+
+describe('parseProductImages', () => {
+  it('accepts main and thumb URLs', () => {
+    expect(parseProductImages({ main: '/a.jpg' })).toEqual({ main: '/a.jpg' });
+    expect(parseProductImages({ main: '/a.jpg', thumb: '/t.jpg' })).toEqual({
+      main: '/a.jpg',
+      thumb: '/t.jpg',
+    });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseProductImages(null)).toBeNull();
+    expect(parseProductImages({})).toBeNull();
+    expect(parseProductImages(['/a.jpg'])).toBeNull();
+    expect(parseProductImages({ main: 1 })).toBeNull();
+  });
+});
+
+describe('publishedOnly', () => {
+  const principal = {
+    keyId: 'k1',
+    name: 'shop',
+    role: Role.customer,
+    scopes: ['orders'],
+    customerGroup: null,
+  };
+
+  it('limits anonymous and customer callers to published products', () => {
+    expect(publishedOnly()).toBe(true);
+    expect(publishedOnly(principal)).toBe(true);
+  });
+
+  it('lets catalog staff see every product', () => {
+    expect(publishedOnly({ ...principal, scopes: ['catalog'] })).toBe(false);
+    expect(publishedOnly({ ...principal, scopes: ['*'] })).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { CurationStatus, Prisma } from '@prisma/client';
+import { hasScope, Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+
+export type ProductImages = { main?: string; thumb?: string };
+
+type Curated = {
+  name: string;
+  description: string | null;
+  overrideName: string | null;
+  overrideDescription: string | null;
+  overrideImages: Prisma.JsonValue;
+  featured: boolean;
+};
+
+export const publishedWhere = {
+  curationStatus: CurationStatus.published,
+} satisfies Prisma.ProductWhereInput;
+
+// Callers with the catalog scope (staff tools, quoting) see candidates and
+// hidden products too; everyone else only published ones.
+export function publishedOnly(principal?: Principal): boolean {
+  return !principal || !hasScope(principal.scopes, Scope.catalog);
+}
+
+const OVERRIDE_FIELDS = [
+  'overrideName',
+  'overrideDescription',
+  'overrideImages',
+];
+
+// The product as the catalogue shows it: overrides replace the supplier's
+// name and description, and the override columns themselves are dropped.
+export function withOverrides<T extends Curated>(
+  p: T,
+): Omit<T, 'overrideName' | 'overrideDescription' | 'overrideImages'> {
+  const rest = Object.fromEntries(
+    Object.entries(p).filter(([key]) => !OVERRIDE_FIELDS.includes(key)),
+  ) as Omit<T, 'overrideName' | 'overrideDescription' | 'overrideImages'>;
+  return {
+    ...rest,
+    name: p.overrideName ?? p.name,
+    description: p.overrideDescription ?? p.description,
+  };
+}
+
+// Null unless `v` holds at least one image URL.
+export function parseProductImages(v: unknown): ProductImages | null {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return null;
+  const { main, thumb } = v as Record<string, unknown>;
+  if (main !== undefined && typeof main !== 'string') return null;
+  if (thumb !== undefined && typeof thumb !== 'string') return null;
+  if (!main && !thumb) return null;
+  return { ...(main ? { main } : {}), ...(thumb ? { thumb } : {}) };
+}
@@ -0,0 +1,95 @@
+import { Prisma } from '@prisma/client';
+import {
+  decodeProductCursor,
+  encodeProductCursor,
+  parseProductSort,
+  productCursorAfter,
+  productCursorWhere,
+  productOrderBy,
+} from './product-cursor';
+
+const product = {
+  id: 'p2',
+  createdAt: new Date('2026-10-01T10:00:00.000Z'),
+  name: 'Resistor 10k',
+  listPrice: new Prisma.Decimal('0.01200'),
+  updatedAt: new Date('2026-10-02T10:00:00.000Z'),
+  sourceUpdatedAt: null,
+  stock: { level: 120 },
+};
+
+describe('product cursors', () => {
+  it('round-trips through the opaque form', () => {
+    const cursor = productCursorAfter(product, 'price', 'asc');
+    expect(cursor).toEqual({
+      sort: 'price',
+      order: 'asc',
+      value: '0.012',
+      id: 'p2',
+    });
+    expect(decodeProductCursor(encodeProductCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects cursors it did not issue', () => {
+    expect(decodeProductCursor('not-a-cursor')).toBeNull();
+    expect(
+      decodeProductCursor(
+        Buffer.from(JSON.stringify(['price', 'asc', 'abc', 'p2'])).toString(
+          'base64url',
+        ),
+      ),
+    ).toBeNull();
+    expect(
+      decodeProductCursor(
+        Buffer.from(JSON.stringify(['rowid', 'asc', 1, 'p2'])).toString(
+          'base64url',
+        ),
+      ),
+    ).toBeNull();
+  });
+
+  it('continues after the cursor, then into products without a value', () => {
+    expect(
+      productCursorWhere({
+        sort: 'price',
+        order: 'asc',
+        value: '0.012',
+        id: 'p2',
+      }),
+    ).toEqual({
+      OR: [
+        { listPrice: { gt: '0.012' } },
+        { AND: [{ listPrice: { equals: '0.012' } }, { id: { gt: 'p2' } }] },
+        { listPrice: null },
+      ],
+    });
+  });
+
+  it('pages through products without a value by id', () => {
+    expect(
+      productCursorWhere({
+        sort: 'sourceUpdatedAt',
+        order: 'desc',
+        value: null,
+        id: 'p2',
+      }),
+    ).toEqual({ AND: [{ sourceUpdatedAt: null }, { id: { lt: 'p2' } }] });
+  });
+
+  it('orders by the sort field with nulls last, then id', () => {
+    expect(productOrderBy('stock', 'desc')).toEqual([
+      { stock: { level: { sort: 'desc', nulls: 'last' } } },
+      { id: 'desc' },
+    ]);
+    expect(productOrderBy('name', 'asc')).toEqual([
+      { name: 'asc' },
+      { id: 'asc' },
+    ]);
+  });
+
+  it('parses sort names', () => {
+    expect(parseProductSort(undefined)).toBe('createdAt');
+    expect(parseProductSort('price')).toBe('price');
+    expect(parseProductSort('cost')).toBeNull();
+  });
+});
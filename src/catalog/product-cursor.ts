@@ -0,0 +1,200 @@
+import { Prisma } from '@prisma/client';
+
+// Keyset pagination for product listings. A cursor holds the sort value and
+// id of the last item served, so pages stay stable while the sync inserts
+// rows: new products land before or after the cursor, never shifting the
+// rest. A product whose sort value changes between pages (e.g. `updatedAt`
+// after a sync write) may move across the cursor.
+
+export const PRODUCT_SORTS = [
+  'createdAt',
+  'name',
+  'price',
+  'stock',
+  'updatedAt',
+  'sourceUpdatedAt',
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+// Newest first for dates, most in stock first, A-Z and cheapest first.
+export const DEFAULT_ORDER: Record<ProductSort, SortOrder> = {
+  createdAt: 'desc',
+  name: 'asc',
+  price: 'asc',
+  stock: 'desc',
+  updatedAt: 'desc',
+  sourceUpdatedAt: 'desc',
+};
+
+// Sort values travel as strings (decimals, dates) or numbers (stock).
+type SortValue = string | number | null;
+
+export type ProductCursor = {
+  sort: ProductSort;
+  order: SortOrder;
+  value: SortValue;
+  id: string;
+};
+
+type SortableProduct = {
+  id: string;
+  createdAt: Date;
+  name: string;
+  listPrice: Prisma.Decimal | null;
+  updatedAt: Date;
+  sourceUpdatedAt: Date | null;
+  stock?: { level: number | null } | null;
+};
+
+export function parseProductSort(v?: string): ProductSort | null {
+  const sort = v?.trim() || 'createdAt';
+  return (PRODUCT_SORTS as readonly string[]).includes(sort)
+    ? (sort as ProductSort)
+    : null;
+}
+
+export function encodeProductCursor(cursor: ProductCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id]),
+  ).toString('base64url');
+}
+
+// Null for anything that is not a cursor this module issued.
+export function decodeProductCursor(v: string): ProductCursor | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(v, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 4) return null;
+  const [sort, order, value, id] = parsed as unknown[];
+  if (
+    typeof sort !== 'string' ||
+    !(PRODUCT_SORTS as readonly string[]).includes(sort) ||
+    (order !== 'asc' && order !== 'desc') ||
+    !validSortValue(sort as ProductSort, value) ||
+    typeof id !== 'string' ||
+    !id
+  ) {
+    return null;
+  }
+  return { sort: sort as ProductSort, order, value, id };
+}
+
+export function productCursorAfter(
+  p: SortableProduct,
+  sort: ProductSort,
+  order: SortOrder,
+): ProductCursor {
+  return { sort, order, value: sortValue(p, sort), id: p.id };
+}
+
+// Nulls (no price, no stock row, never fetched) sort last either way; the
+// id breaks ties.
+export function productOrderBy(
+  sort: ProductSort,
+  order: SortOrder,
+): Prisma.ProductOrderByWithRelationInput[] {
+  const nullsLast = { sort: order, nulls: 'last' as const };
+  const primary: Prisma.ProductOrderByWithRelationInput = {
+    createdAt: { createdAt: order },
+    name: { name: order },
+    price: { listPrice: nullsLast },
+    stock: { stock: { level: nullsLast } },
+    updatedAt: { updatedAt: order },
+    sourceUpdatedAt: { sourceUpdatedAt: nullsLast },
+  }[sort];
+  return [primary, { id: order }];
+}
+
+// Rows that come after `cursor` in `productOrderBy(cursor.sort, cursor.order)`.
+export function productCursorWhere(
+  cursor: ProductCursor,
+): Prisma.ProductWhereInput {
+  const { sort, value, id } = cursor;
+  const beyond = cursor.order === 'asc' ? 'gt' : 'lt';
+  const nextId = { id: { [beyond]: id } };
+
+  if (value === null) {
+    return { AND: [isNull(sort), nextId] };
+  }
+  const or: Prisma.ProductWhereInput[] = [
+    field(sort, beyond, value),
+    { AND: [field(sort, 'equals', value), nextId] },
+  ];
+  if (sort === 'price' || sort === 'stock' || sort === 'sourceUpdatedAt') {
+    or.push(isNull(sort));
+  }
+  return { OR: or };
+}
+
+function validSortValue(sort: ProductSort, v: unknown): v is SortValue {
+  if (v === null) return true;
+  switch (sort) {
+    case 'name':
+      return typeof v === 'string';
+    case 'price':
+      return typeof v === 'string' && Number.isFinite(Number(v));
+    case 'stock':
+      return Number.isInteger(v);
+    default:
+      return typeof v === 'string' && !Number.isNaN(Date.parse(v));
+  }
+}
+
+function sortValue(p: SortableProduct, sort: ProductSort): SortValue {
+  switch (sort) {
+    case 'createdAt':
+      return p.createdAt.toISOString();
+    case 'name':
+      return p.name;
+    case 'price':
+      return p.listPrice?.toString() ?? null;
+    case 'stock':
+      return p.stock?.level ?? null;
+    case 'updatedAt':
+      return p.updatedAt.toISOString();
+    case 'sourceUpdatedAt':
+      return p.sourceUpdatedAt?.toISOString() ?? null;
+  }
+}
+
+type Op = 'gt' | 'lt' | 'equals';
+
+function field(
+  sort: ProductSort,
+  op: Op,
+  value: string | number,
+): Prisma.ProductWhereInput {
+  switch (sort) {
+    case 'createdAt':
+      return { createdAt: { [op]: String(value) } };
+    case 'name':
+      return { name: { [op]: String(value) } };
+    case 'price':
+      return { listPrice: { [op]: String(value) } };
+    case 'stock':
+      return { stock: { level: { [op]: Number(value) } } };
+    case 'updatedAt':
+      return { updatedAt: { [op]: String(value) } };
+    case 'sourceUpdatedAt':
+      return { sourceUpdatedAt: { [op]: String(value) } };
+  }
+}
+
+function isNull(sort: ProductSort): Prisma.ProductWhereInput {
+  switch (sort) {
+    case 'price':
+      return { listPrice: null };
+    case 'stock':
+      return { OR: [{ stock: { is: null } }, { stock: { level: null } }] };
+    case 'sourceUpdatedAt':
+      return { sourceUpdatedAt: null };
+    default:
+      // Never null; no row matches.
+      return { id: { in: [] } };
+  }
+}
@@ -0,0 +1,186 @@
+import { Prisma, SupplierCode } from '@prisma/client';
+import {
+  kindFromLabel,
+  parseAttributeValue,
+  parseQuantityPart,
+} from './attribute-units';
+
+export type AttributeFilter = { label: string; values: string[] };
+
+// Bounds are canonical SI numbers; the attribute's whole [min, max] must fit.
+export type AttributeRangeFilter = {
+  label: string;
+  min?: number;
+  max?: number;
+};
+
+// Shared filter model for product listing endpoints. Values within one
+// attribute label are OR-ed; separate labels and other fields are AND-ed.
+export type ProductFilter = {
+  ids?: string[];
+  supplier?: SupplierCode | null;
+  brands?: string[];
+  inStock?: boolean;
+  // Unavailable and discontinued products are left out unless set.
+  includeUnavailable?: boolean;
+  // Candidates and hidden products are left out when set.
+  publishedOnly?: boolean;
+  // List price bounds in the store currency (see PricingService.listPriceBounds).
+  minPrice?: number;
+  maxPrice?: number;
+  // Content changed at or after this time.
+  updatedSince?: Date;
+  attributes?: AttributeFilter[];
+  ranges?: AttributeRangeFilter[];
+};
+
+export function buildProductWhere(
+  filter: ProductFilter,
+  opts: { excludeLabel?: string } = {},
+): Prisma.ProductWhereInput {
+  const and: Prisma.ProductWhereInput[] = [];
+
+  if (filter.ids) and.push({ id: { in: filter.ids } });
+  if (!filter.includeUnavailable) and.push({ availability: 'active' });
+  if (filter.publishedOnly) and.push({ curationStatus: 'published' });
+  if (filter.supplier) and.push({ supplier: filter.supplier });
+
+  if (filter.brands?.length) {
+    and.push({
+      OR: filter.brands.map((brand) => ({
+        manufacturer: { equals: brand, mode: 'insensitive' as const },
+      })),
+    });
+  }
+
+  if (filter.inStock) and.push({ stock: { level: { gt: 0 } } });
+  if (filter.updatedSince) {
+    and.push({ updatedAt: { gte: filter.updatedSince } });
+  }
+
+  if (filter.minPrice !== undefined || filter.maxPrice !== undefined) {
+    and.push({
+      listPrice: {
+        ...(filter.minPrice !== undefined ? { gte: filter.minPrice } : {}),
+        ...(filter.maxPrice !== undefined ? { lte: filter.maxPrice } : {}),
+      },
+    });
+  }
+
+  for (const attr of filter.attributes ?? []) {
+    if (sameLabel(attr.label, opts.excludeLabel)) continue;
+    and.push({
+      attributes: {
+        some: {
+          label: { equals: attr.label, mode: 'insensitive' },
+          OR: attr.values.flatMap((value) => attributeValueMatch(attr, value)),
+        },
+      },
+    });
+  }
+
+  for (const range of filter.ranges ?? []) {
+    if (sameLabel(range.label, opts.excludeLabel)) continue;
+    and.push({
+      attributes: {
+        some: {
+          label: { equals: range.label, mode: 'insensitive' },
+          parseStatus: 'numeric',
+          ...(range.min !== undefined
+            ? { numericMin: { gte: range.min } }
+            : {}),
+          ...(range.max !== undefined
+            ? { numericMax: { lte: range.max } }
+            : {}),
+        },
+      },
+    });
+  }
+
+  return and.length ? { AND: and } : {};
+}
+
+// "10k" also matches a stored "10kohm" or "10000ohm" through its numeric value.
+function attributeValueMatch(
+  attr: AttributeFilter,
+  value: string,
+): Prisma.ProductAttributeWhereInput[] {
+  const match: Prisma.ProductAttributeWhereInput[] = [
+    { value: { equals: value, mode: 'insensitive' } },
+  ];
+  const parsed = parseAttributeValue({ label: attr.label, value });
+  if (parsed.status === 'numeric') {
+    const eps = Math.abs(parsed.quantity.value) * 1e-9;
+    match.push({
+      numericValue: {
+        gte: parsed.quantity.value - eps,
+        lte: parsed.quantity.value + eps,
+      },
+    });
+  }
+  return match;
+}
+
+// Accepts `attrRange=Label:min..max` (repeatable); either bound may be
+// omitted and may carry units, e.g. `Tolerance:..1%`, `Voltage:50V..`.
+export function parseAttributeRanges(
+  input?: string | string[],
+): AttributeRangeFilter[] {
+  const ranges: AttributeRangeFilter[] = [];
+
+  for (const entry of toList(input)) {
+    const idx = entry.indexOf(':');
+    if (idx <= 0) continue;
+    const label = entry.slice(0, idx).trim();
+    const [lo, hi] = entry.slice(idx + 1).split('..');
+    if (!label || hi === undefined) continue;
+
+    const hint = kindFromLabel(label);
+    const min = lo?.trim() ? parseQuantityPart(lo, '', hint)?.value : undefined;
+    const max = hi.trim() ? parseQuantityPart(hi, '', hint)?.value : undefined;
+    if (min === undefined && max === undefined) continue;
+
+    ranges.push({
+      label,
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+    });
+  }
+
+  return ranges;
+}
+
+// Accepts `attr=Label:Value` (repeatable). Values for the same label merge.
+export function parseAttributeFilters(
+  input?: string | string[],
+): AttributeFilter[] {
+  const byLabel = new Map<string, AttributeFilter>();
+
+  for (const entry of toList(input)) {
+    const idx = entry.indexOf(':');
+    if (idx <= 0) continue;
+    const label = entry.slice(0, idx).trim();
+    const value = entry.slice(idx + 1).trim();
+    if (!label || !value) continue;
+
+    const key = label.toLowerCase();
+    const existing = byLabel.get(key);
+    if (existing) {
+      if (!existing.values.includes(value)) existing.values.push(value);
+    } else {
+      byLabel.set(key, { label, values: [value] });
+    }
+  }
+
+  return [...byLabel.values()];
+}
+
+export function toList(input?: string | string[]): string[] {
+  if (input === undefined) return [];
+  const list = Array.isArray(input) ? input : [input];
+  return list.map((v) => v.trim()).filter(Boolean);
+}
+
+function sameLabel(a: string, b?: string): boolean {
+  return b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,44 @@
+import { freshnessPolicyFromEnv, productFreshness } from './product-freshness';
+
+describe('productFreshness', () => {
+  const policy = { priceMaxAgeSeconds: 60, staticMaxAgeSeconds: 3600 };
+  const now = new Date('2026-10-20T12:00:00Z');
+  const ago = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+  it.each([
+    [0, 'fresh'],
+    [60, 'fresh'],
+    [61, 'revalidate'],
+    [3600, 'revalidate'],
+    [3601, 'expired'],
+  ])('%i seconds old is %s', (seconds, state) => {
+    expect(productFreshness(ago(seconds), policy, now)).toEqual({
+      state,
+      ageSeconds: seconds,
+    });
+  });
+
+  it('treats a product never fetched from the supplier as expired', () => {
+    expect(productFreshness(null, policy, now)).toEqual({
+      state: 'expired',
+      ageSeconds: null,
+    });
+  });
+});
+
+describe('freshnessPolicyFromEnv', () => {
+  it('uses defaults for missing or invalid values', () => {
+    expect(
+      freshnessPolicyFromEnv({ PRODUCT_PRICE_MAX_AGE_SECONDS: 'x' }),
+    ).toEqual({ priceMaxAgeSeconds: 900, staticMaxAgeSeconds: 604_800 });
+  });
+
+  it('never lets the static age drop below the price age', () => {
+    expect(
+      freshnessPolicyFromEnv({
+        PRODUCT_PRICE_MAX_AGE_SECONDS: '600',
+        PRODUCT_STATIC_MAX_AGE_SECONDS: '60',
+      }),
+    ).toEqual({ priceMaxAgeSeconds: 600, staticMaxAgeSeconds: 600 });
+  });
+});
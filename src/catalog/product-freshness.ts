@@ -0,0 +1,58 @@
+// How old the local copy of a product may get before we ask the supplier
+// again. One supplier call refreshes static content and price/stock alike,
+// so the two ages only differ in how the refresh happens:
+// - within `priceMaxAgeSeconds` the local copy is served as is;
+// - past it, but within `staticMaxAgeSeconds`, the local copy is still
+//   served and a background refresh brings prices and stock up to date;
+// - past `staticMaxAgeSeconds` the request waits for the supplier.
+export type FreshnessPolicy = {
+  priceMaxAgeSeconds: number;
+  staticMaxAgeSeconds: number;
+};
+
+export type ProductFreshness = {
+  state: 'fresh' | 'revalidate' | 'expired';
+  // null when the product was never fetched from the supplier.
+  ageSeconds: number | null;
+};
+
+export function freshnessPolicyFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): FreshnessPolicy {
+  const priceMaxAgeSeconds = toNonNegativeInt(
+    env.PRODUCT_PRICE_MAX_AGE_SECONDS,
+    15 * 60,
+  );
+  return {
+    priceMaxAgeSeconds,
+    staticMaxAgeSeconds: Math.max(
+      priceMaxAgeSeconds,
+      toNonNegativeInt(env.PRODUCT_STATIC_MAX_AGE_SECONDS, 7 * 24 * 3600),
+    ),
+  };
+}
+
+export function productFreshness(
+  sourceUpdatedAt: Date | null,
+  policy: FreshnessPolicy,
+  now = new Date(),
+): ProductFreshness {
+  if (!sourceUpdatedAt) return { state: 'expired', ageSeconds: null };
+
+  const ageSeconds = Math.max(
+    0,
+    Math.floor((now.getTime() - sourceUpdatedAt.getTime()) / 1000),
+  );
+  if (ageSeconds <= policy.priceMaxAgeSeconds) {
+    return { state: 'fresh', ageSeconds };
+  }
+  if (ageSeconds <= policy.staticMaxAgeSeconds) {
+    return { state: 'revalidate', ageSeconds };
+  }
+  return { state: 'expired', ageSeconds };
+}
+
+function toNonNegativeInt(v: string | undefined, fallback: number): number {
+  const n = v ? Number(v) : NaN;
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
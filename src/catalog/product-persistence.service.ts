@@ -0,0 +1,371 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PayloadRichness, Prisma, ProductAvailability } from '@prisma/client';
+import { cacheTags } from '../cache/cache-store';
+import { CacheService } from '../cache/cache.service';
+import { PricingService } from '../pricing/pricing.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  mergeFarnellPayload,
+  VolatileField,
+} from '../suppliers/farnell/farnell.merge';
+import {
+  FarnellMappedProduct,
+  mapFarnellProduct,
+  productContentHash,
+  toNormalizedCreate,
+  toNormalizedUpdate,
+} from '../suppliers/farnell/farnell.mapper';
+import type { SupplierProduct } from '../suppliers/supplier-adapter';
+import { revisionSnapshot } from './product-revision';
+
+export type SaveProductsOptions = {
+  // Products the supplier lists again become active (catalogue sync).
+  reactivate?: boolean;
+  // Products written per transaction (default: all of them).
+  txBatchSize?: number;
+  // Products that still fail when retried one by one are passed here and
+  // skipped; without it the first such error is thrown.
+  onError?: (p: SupplierProduct, e: unknown) => void;
+};
+
+export type SavedProduct = {
+  id: string;
+  supplierKey: string;
+  status: 'created' | 'updated' | 'unchanged';
+};
+
+export type SaveProductsResult = {
+  created: number;
+  updated: number;
+  unchanged: number;
+  products: SavedProduct[];
+};
+
+type Write = {
+  product: SupplierProduct;
+  supplierKey: string;
+  isNew: boolean;
+  // Cache tag the write invalidates.
+  tag: string;
+  upsert: () => Prisma.PrismaPromise<{ id: string }>;
+};
+
+const VOLATILE_TIMESTAMPS: Record<
+  VolatileField,
+  'pricesUpdatedAt' | 'stockUpdatedAt'
+> = {
+  prices: 'pricesUpdatedAt',
+  stock: 'stockUpdatedAt',
+};
+
+// The one write path for supplier payloads (live search, lookups, batch
+// save, catalogue and price sync). Payloads are merged field by field into
+// what is stored, normalized rows follow the merged payload, and products
+// whose content did not change are only stamped as seen. Content and
+// availability changes append a ProductRevision in the same write.
+@Injectable()
+export class ProductPersistenceService {
+  private readonly logger = new Logger(ProductPersistenceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cache: CacheService,
+    private readonly pricing: PricingService,
+  ) {}
+
+  async save(
+    items: SupplierProduct[],
+    opts: SaveProductsOptions = {},
+  ): Promise<SaveProductsResult> {
+    const result: SaveProductsResult = {
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      products: [],
+    };
+    const size = opts.txBatchSize ?? items.length;
+    for (let i = 0; i < items.length; i += size) {
+      await this.saveChunk(items.slice(i, i + size), opts, result);
+    }
+
+    const written = result.products.filter((p) => p.status !== 'unchanged');
+    if (written.length) {
+      await this.pricing.refreshListPrices({
+        id: { in: written.map((p) => p.id) },
+      });
+    }
+    return result;
+  }
+
+  // Moves the products matching `where` to `availability` and appends a
+  // revision for each. Returns how many changed.
+  async setAvailability(
+    where: Prisma.ProductWhereInput,
+    availability: ProductAvailability,
+  ): Promise<number> {
+    const products = await this.prisma.product.findMany({
+      where: { AND: [where, { availability: { not: availability } }] },
+      select: {
+        id: true,
+        supplier: true,
+        name: true,
+        raw: true,
+        contentHash: true,
+        priceBreaks: { select: { currency: true }, take: 1 },
+        revisions: {
+          select: { snapshot: true },
+          orderBy: { recordedAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+    if (!products.length) return 0;
+
+    const now = new Date();
+    const [{ count }] = await this.prisma.$transaction([
+      this.prisma.product.updateMany({
+        where: {
+          id: { in: products.map((p) => p.id) },
+          availability: { not: availability },
+        },
+        data: { availability, availabilityChangedAt: now },
+      }),
+      this.prisma.productRevision.createMany({
+        data: products.map((p) => ({
+          productId: p.id,
+          name: p.name,
+          raw:
+            p.raw === null ? Prisma.DbNull : (p.raw as Prisma.InputJsonValue),
+          // Products stored before revisions existed have no snapshot yet.
+          snapshot:
+            (p.revisions[0]?.snapshot as Prisma.InputJsonValue | undefined) ??
+            toInputJsonValue(
+              revisionSnapshot(
+                p.name,
+                mapFarnellProduct(p.raw, {
+                  currency: p.priceBreaks[0]?.currency,
+                }),
+              ),
+            ),
+          contentHash: p.contentHash,
+          availability,
+          recordedAt: now,
+        })),
+      }),
+    ]);
+
+    await this.cache.invalidate([
+      ...new Set(products.map((p) => cacheTags.supplier(p.supplier))),
+    ]);
+    return count;
+  }
+
+  private async saveChunk(
+    items: SupplierProduct[],
+    opts: SaveProductsOptions,
+    result: SaveProductsResult,
+  ) {
+    const now = new Date();
+    const existing = new Map(
+      (
+        await this.prisma.product.findMany({
+          where: { supplierKey: { in: items.map(supplierKeyOf) } },
+          select: {
+            id: true,
+            supplierKey: true,
+            raw: true,
+            rawRichness: true,
+            contentHash: true,
+            availability: true,
+            stock: {
+              select: { level: true, status: true, leastLeadTime: true },
+            },
+          },
+        })
+      ).map((p) => [p.supplierKey, p]),
+    );
+
+    const unchanged: Array<{
+      id: string;
+      supplierKey: string;
+      refreshed: VolatileField[];
+    }> = [];
+    const writes: Write[] = [];
+
+    for (const p of items) {
+      const supplierKey = supplierKeyOf(p);
+      const current = existing.get(supplierKey);
+      const merged = mergeFarnellPayload(
+        current ? { raw: current.raw, richness: current.rawRichness } : null,
+        { raw: p.raw ?? p, richness: p.responseGroup ?? 'large' },
+      );
+      const mapped = mapFarnellProduct(merged.raw, { currency: p.currency });
+      const contentHash = productContentHash(p.name, mapped);
+      const reactivated =
+        !!opts.reactivate &&
+        !!current &&
+        current.availability !== ProductAvailability.active;
+
+      if (
+        current &&
+        !reactivated &&
+        current.contentHash === contentHash &&
+        sameStock(current.stock, mapped.stock) &&
+        (current.rawRichness ?? PayloadRichness.large) === merged.richness
+      ) {
+        unchanged.push({
+          id: current.id,
+          supplierKey,
+          refreshed: merged.refreshed,
+        });
+        continue;
+      }
+
+      const raw = toInputJsonValue(merged.raw);
+      // A richer payload or a stock change alone is no revision.
+      const revision =
+        !current || reactivated || current.contentHash !== contentHash
+          ? {
+              revisions: {
+                create: {
+                  name: p.name,
+                  raw,
+                  snapshot: toInputJsonValue(revisionSnapshot(p.name, mapped)),
+                  contentHash,
+                  availability:
+                    current && !reactivated
+                      ? current.availability
+                      : ProductAvailability.active,
+                },
+              },
+            }
+          : {};
+      const fields = {
+        name: p.name,
+        raw,
+        rawRichness: merged.richness,
+        sourceUpdatedAt: now,
+        ...Object.fromEntries(
+          merged.refreshed.map((f) => [VOLATILE_TIMESTAMPS[f], now]),
+        ),
+        contentHash,
+        lastSeenAt: now,
+      };
+      writes.push({
+        product: p,
+        supplierKey,
+        isNew: !current,
+        // New and reactivated products can join any cached result for
+        // their supplier; updated ones only affect results that hold them.
+        tag:
+          current && !reactivated
+            ? cacheTags.product(supplierKey)
+            : cacheTags.supplier(p.supplier),
+        upsert: () =>
+          this.prisma.product.upsert({
+            where: { supplierKey },
+            create: {
+              supplier: p.supplier,
+              supplierSku: p.supplierSku,
+              supplierKey,
+              ...fields,
+              ...revision,
+              ...toNormalizedCreate(mapped),
+            },
+            update: {
+              ...fields,
+              ...revision,
+              ...(reactivated
+                ? {
+                    availability: ProductAvailability.active,
+                    availabilityChangedAt: now,
+                  }
+                : {}),
+              ...toNormalizedUpdate(mapped),
+            },
+            select: { id: true },
+          }),
+      });
+    }
+
+    const saved = (w: Write, id: string) => {
+      result.products.push({
+        id,
+        supplierKey: w.supplierKey,
+        status: w.isNew ? 'created' : 'updated',
+      });
+      if (w.isNew) result.created += 1;
+      else result.updated += 1;
+    };
+
+    try {
+      const rows = await this.prisma.$transaction(
+        writes.map((w) => w.upsert()),
+      );
+      writes.forEach((w, i) => saved(w, rows[i].id));
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      this.logger.warn(
+        `Upsert transaction failed (size=${writes.length}). Falling back to sequential. ${msg}`,
+      );
+
+      for (const w of writes) {
+        try {
+          saved(w, (await w.upsert()).id);
+        } catch (err) {
+          if (!opts.onError) throw err;
+          opts.onError(w.product, err);
+        }
+      }
+    }
+
+    await this.cache.invalidate(writes.map((w) => w.tag));
+
+    if (unchanged.length) {
+      const ids = unchanged.map((u) => u.id);
+      const refreshedIds = (f: VolatileField) =>
+        unchanged.filter((u) => u.refreshed.includes(f)).map((u) => u.id);
+      // Raw so `updatedAt` keeps meaning "content changed".
+      await this.prisma.$executeRaw`
+        UPDATE "Product" SET
+          "lastSeenAt" = ${now},
+          "sourceUpdatedAt" = ${now},
+          "pricesUpdatedAt" = CASE WHEN "id" = ANY(${refreshedIds('prices')}::text[])
+            THEN ${now} ELSE "pricesUpdatedAt" END,
+          "stockUpdatedAt" = CASE WHEN "id" = ANY(${refreshedIds('stock')}::text[])
+            THEN ${now} ELSE "stockUpdatedAt" END
+        WHERE "id" = ANY(${ids}::text[])
+      `;
+      result.unchanged += unchanged.length;
+      result.products.push(
+        ...unchanged.map((u) => ({
+          id: u.id,
+          supplierKey: u.supplierKey,
+          status: 'unchanged' as const,
+        })),
+      );
+    }
+  }
+}
+
+// The content hash leaves stock out, so it is compared here.
+function sameStock(
+  stored: FarnellMappedProduct['stock'] | null,
+  mapped: FarnellMappedProduct['stock'],
+): boolean {
+  return (
+    !!stored &&
+    stored.level === mapped.level &&
+    stored.status === mapped.status &&
+    stored.leastLeadTime === mapped.leastLeadTime
+  );
+}
+
+function supplierKeyOf(p: SupplierProduct): string {
+  return `${p.supplier}:${p.supplierSku}`;
+}
+
+function toInputJsonValue(input: unknown): Prisma.InputJsonValue {
+  const v = JSON.parse(JSON.stringify(input)) as unknown;
+  return (v ?? {}) as Prisma.InputJsonValue;
+}
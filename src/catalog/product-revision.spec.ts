@@ -0,0 +1,83 @@
+import { mapFarnellProduct } from '../suppliers/farnell/farnell.mapper';
+import { diffRevisions, revisionSnapshot } from './product-revision';
+
+const raw = {
+  sku: '1234567',
+  displayName: 'Resistor 10k',
+  brandName: 'MULTICOMP',
+  prices: [
+    { from: 1, to: 9, cost: 0.02 },
+    { from: 10, to: 99, cost: 0.012 },
+  ],
+  attributes: [
+    {
+      attributeLabel: 'Resistance',
+      attributeValue: '10',
+      attributeUnit: 'kohm',
+    },
+    { attributeLabel: 'Tolerance', attributeValue: '± 1%' },
+  ],
+  stock: { level: 100, status: 1, leastLeadTime: 0 },
+};
+
+describe('revisionSnapshot', () => {
+  it('keys price breaks, attributes and datasheets', () => {
+    const snapshot = revisionSnapshot(
+      'Resistor 10k',
+      mapFarnellProduct({
+        ...raw,
+        datasheets: [{ type: 'T', url: 'https://example.com/ds.pdf' }],
+      }),
+    );
+
+    expect(snapshot.priceBreaks).toEqual({
+      '1': { quantityTo: 9, cost: 0.02, currency: 'GBP' },
+      '10': { quantityTo: 99, cost: 0.012, currency: 'GBP' },
+    });
+    expect(snapshot.attributes).toEqual({
+      Resistance: '10 kohm',
+      Tolerance: '± 1%',
+    });
+    expect(snapshot.datasheets).toEqual({
+      'https://example.com/ds.pdf': { type: 'T', description: null },
+    });
+    expect(snapshot).not.toHaveProperty('stock');
+  });
+});
+
+describe('diffRevisions', () => {
+  it('reports added, removed and changed fields', () => {
+    const before = revisionSnapshot('Resistor 10k', mapFarnellProduct(raw));
+    const after = revisionSnapshot(
+      'Resistor 10k',
+      mapFarnellProduct({
+        ...raw,
+        translatedMinimumOrderQuality: 10,
+        prices: [{ from: 1, to: 9, cost: 0.025 }],
+        attributes: [raw.attributes[0]],
+      }),
+    );
+
+    expect(diffRevisions(before, after)).toEqual({
+      added: [{ field: 'minOrderQty', value: 10 }],
+      removed: [
+        { field: 'priceBreaks.10.quantityTo', value: 99 },
+        { field: 'priceBreaks.10.cost', value: 0.012 },
+        { field: 'priceBreaks.10.currency', value: 'GBP' },
+        { field: 'attributes.Tolerance', value: '± 1%' },
+      ],
+      changed: [{ field: 'priceBreaks.1.cost', from: 0.02, to: 0.025 }],
+    });
+  });
+
+  it('treats a missing revision as empty', () => {
+    expect(diffRevisions(null, { name: 'A', availability: 'active' })).toEqual({
+      added: [
+        { field: 'name', value: 'A' },
+        { field: 'availability', value: 'active' },
+      ],
+      removed: [],
+      changed: [],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import type { FarnellMappedProduct } from '../suppliers/farnell/farnell.mapper';
+
+// What a ProductRevision records about a product's normalized content.
+// Lists are keyed (price breaks by starting quantity, attributes by label,
+// datasheets by URL) so a diff reports the entry that changed rather than
+// every position after it.
+export type RevisionSnapshot = {
+  name: string;
+  manufacturer: string | null;
+  mpn: string | null;
+  description: string | null;
+  minOrderQty: number | null;
+  orderMultiple: number | null;
+  priceBreaks: Record<
+    string,
+    { quantityTo: number | null; cost: number; currency: string }
+  >;
+  attributes: Record<string, string>;
+  datasheets: Record<
+    string,
+    { type: string | null; description: string | null }
+  >;
+};
+
+export type RevisionDiff = {
+  added: Array<{ field: string; value: unknown }>;
+  removed: Array<{ field: string; value: unknown }>;
+  changed: Array<{ field: string; from: unknown; to: unknown }>;
+};
+
+export function revisionSnapshot(
+  name: string,
+  mapped: FarnellMappedProduct,
+): RevisionSnapshot {
+  return {
+    name,
+    manufacturer: mapped.manufacturer,
+    mpn: mapped.mpn,
+    description: mapped.description,
+    minOrderQty: mapped.minOrderQty,
+    orderMultiple: mapped.orderMultiple,
+    priceBreaks: Object.fromEntries(
+      mapped.priceBreaks.map((p) => [
+        String(p.quantityFrom),
+        { quantityTo: p.quantityTo, cost: p.cost, currency: p.currency },
+      ]),
+    ),
+    attributes: Object.fromEntries(
+      mapped.attributes.map((a) => [
+        a.label,
+        [a.value, a.unit].filter(Boolean).join(' '),
+      ]),
+    ),
+    datasheets: Object.fromEntries(
+      mapped.datasheets
+        .filter((d) => d.url)
+        .map((d) => [
+          d.url as string,
+          { type: d.type, description: d.description },
+        ]),
+    ),
+  };
+}
+
+// Field-by-field comparison of two revisions (snapshot plus whatever the
+// caller merges in, e.g. availability). Fields are dotted paths such as
+// `priceBreaks.10.cost` or `attributes.Resistance`; null counts as absent,
+// so a value appearing is an addition, not a change.
+export function diffRevisions(from: unknown, to: unknown): RevisionDiff {
+  const before = flatten(from);
+  const after = flatten(to);
+  const diff: RevisionDiff = { added: [], removed: [], changed: [] };
+
+  for (const [field, value] of after) {
+    if (!before.has(field)) {
+      diff.added.push({ field, value });
+    } else if (JSON.stringify(before.get(field)) !== JSON.stringify(value)) {
+      diff.changed.push({ field, from: before.get(field), to: value });
+    }
+  }
+  for (const [field, value] of before) {
+    if (!after.has(field)) diff.removed.push({ field, value });
+  }
+  return diff;
+}
+
+function flatten(
+  value: unknown,
+  prefix = '',
+  out = new Map<string, unknown>(),
+): Map<string, unknown> {
+  if (value === null || value === undefined) return out;
+  if (isRecord(value)) {
+    for (const [key, v] of Object.entries(value)) {
+      flatten(v, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return out;
+  }
+  if (prefix) out.set(prefix, value);
+  return out;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
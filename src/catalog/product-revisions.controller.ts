@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { Product, ProductRevision } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import { RequireScopes } from '../auth/auth.decorators';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import {
+  ProductRevisionsService,
+  RevisionComparison,
+  RevisionSummary,
+} from './product-revisions.service';
+
+// Revisions carry supplier costs and raw payloads, so they are staff-facing.
+@Controller('/products/:supplierSku/revisions')
+@RequireScopes(Scope.catalog)
+export class ProductRevisionsController {
+  constructor(
+    private readonly revisions: ProductRevisionsService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  @Get()
+  async list(
+    @Param('supplierSku') supplierSku: string,
+    @Query('supplier') supplier?: string,
+    @Query('limit') limit?: string,
+  ): Promise<{ supplierSku: string; count: number; items: RevisionSummary[] }> {
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(500, Math.floor(Number(limit))))
+      : 100;
+
+    const product = await this.findProduct(supplierSku, supplier);
+    const items = await this.revisions.list(product.id, safeLimit);
+    return { supplierSku: product.supplierSku, count: items.length, items };
+  }
+
+  // e.g. /products/1234567/revisions/diff?from=<id>&to=<id>; without `to`
+  // the latest revision, without `from` the revision before `to`.
+  @Get('/diff')
+  async diff(
+    @Param('supplierSku') supplierSku: string,
+    @Query('supplier') supplier?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<RevisionComparison> {
+    const product = await this.findProduct(supplierSku, supplier);
+    const comparison = await this.revisions.compare(
+      product.id,
+      from?.trim() || undefined,
+      to?.trim() || undefined,
+    );
+    if (!comparison) {
+      throw new NotFoundException(
+        `Revision not found for ${product.supplierKey}`,
+      );
+    }
+    return comparison;
+  }
+
+  @Get('/:id')
+  async get(
+    @Param('supplierSku') supplierSku: string,
+    @Param('id') id: string,
+    @Query('supplier') supplier?: string,
+  ): Promise<ProductRevision> {
+    const product = await this.findProduct(supplierSku, supplier);
+    const revision = await this.revisions.get(product.id, id);
+    if (!revision) throw new NotFoundException(`Revision not found: ${id}`);
+    return revision;
+  }
+
+  private async findProduct(
+    supplierSku: string,
+    supplier?: string,
+  ): Promise<Product> {
+    const sku = supplierSku?.trim();
+    const supplierCode = parseSupplierCode(supplier);
+    const product = sku
+      ? await this.prisma.product.findFirst({
+          where: {
+            supplierSku: sku,
+            ...(supplierCode ? { supplier: supplierCode } : {}),
+          },
+        })
+      : null;
+    if (!product) throw new NotFoundException(`Product not found: ${sku}`);
+    return product;
+  }
+}
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { ProductRevision } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { diffRevisions, RevisionDiff } from './product-revision';
+
+function toPositiveInt(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export type RevisionSummary = Omit<ProductRevision, 'raw' | 'snapshot'>;
+
+export type RevisionComparison = {
+  from: RevisionSummary | null;
+  to: RevisionSummary;
+  diff: RevisionDiff;
+};
+
+// Revisions are written by ProductPersistenceService; this reads, compares
+// and prunes them.
+@Injectable()
+export class ProductRevisionsService {
+  private readonly logger = new Logger(ProductRevisionsService.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  // Newest first.
+  list(productId: string, limit: number): Promise<RevisionSummary[]> {
+    return this.prisma.productRevision.findMany({
+      where: { productId },
+      orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      omit: { raw: true, snapshot: true },
+    });
+  }
+
+  get(productId: string, id: string): Promise<ProductRevision | null> {
+    return this.prisma.productRevision.findFirst({ where: { id, productId } });
+  }
+
+  // `toId` defaults to the latest revision and `fromId` to the one before
+  // `to`; the first revision compares against nothing. Null when a given
+  // revision does not belong to the product.
+  async compare(
+    productId: string,
+    fromId?: string,
+    toId?: string,
+  ): Promise<RevisionComparison | null> {
+    const to = toId
+      ? await this.get(productId, toId)
+      : await this.prisma.productRevision.findFirst({
+          where: { productId },
+          orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }],
+        });
+    if (!to) return null;
+
+    const from = fromId
+      ? await this.get(productId, fromId)
+      : await this.prisma.productRevision.findFirst({
+          where: {
+            productId,
+            OR: [
+              { recordedAt: { lt: to.recordedAt } },
+              { recordedAt: to.recordedAt, id: { lt: to.id } },
+            ],
+          },
+          orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }],
+        });
+    if (fromId && !from) return null;
+
+    return {
+      from: from ? summary(from) : null,
+      to: summary(to),
+      diff: diffRevisions(from && comparable(from), comparable(to)),
+    };
+  }
+
+  // Default: daily at 03:30. Every product keeps its latest revision however
+  // old it is, so there is always a baseline for the next change.
+  @Cron(process.env.PRODUCT_REVISION_PRUNE_CRON ?? '30 3 * * *')
+  async prune(): Promise<number> {
+    const days = toPositiveInt(
+      this.config.get('PRODUCT_REVISION_RETENTION_DAYS'),
+      365,
+    );
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    try {
+      const deleted = await this.prisma.$executeRaw`
+        DELETE FROM "ProductRevision" r
+        WHERE r."recordedAt" < ${cutoff}
+          AND EXISTS (
+            SELECT 1 FROM "ProductRevision" n
+            WHERE n."productId" = r."productId"
+              AND n."recordedAt" > r."recordedAt"
+          )
+      `;
+      if (deleted) {
+        this.logger.log(`Pruned ${deleted} product revisions (>${days}d)`);
+      }
+      return deleted;
+    } catch (e) {
+      this.logger.error('Revision prune failed', e as Error);
+      return 0;
+    }
+  }
+}
+
+function summary(r: ProductRevision): RevisionSummary {
+  return {
+    id: r.id,
+    productId: r.productId,
+    name: r.name,
+    contentHash: r.contentHash,
+    availability: r.availability,
+    recordedAt: r.recordedAt,
+  };
+}
+
+// Availability is part of what changed between revisions.
+function comparable(r: ProductRevision): unknown {
+  return {
+    ...(r.snapshot as Record<string, unknown>),
+    availability: r.availability,
+  };
+}
@@ -0,0 +1,85 @@
+import { Prisma } from '@prisma/client';
+import {
+  normalizeCurrency,
+  parseRatesCsv,
+  RateQuote,
+  resolveRate,
+  roundMoney,
+} from './currency';
+
+const d = (v: number | string) => new Prisma.Decimal(v);
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const rates: RateQuote[] = [
+  { base: 'GBP', quote: 'USD', rate: d('1.25'), rateDate: day('2026-10-18') },
+  { base: 'GBP', quote: 'EUR', rate: d('1.15'), rateDate: day('2026-10-19') },
+];
+
+describe('normalizeCurrency', () => {
+  it('accepts ISO codes in any case', () => {
+    expect(normalizeCurrency(' usd ')).toBe('USD');
+  });
+
+  it('rejects unknown codes', () => {
+    expect(normalizeCurrency('XYZ1')).toBeUndefined();
+    expect(normalizeCurrency('')).toBeUndefined();
+  });
+});
+
+describe('resolveRate', () => {
+  it('is 1 for the same currency', () => {
+    expect(resolveRate(rates, 'GBP', 'GBP')).toEqual({
+      rate: d(1),
+      rateDate: null,
+    });
+  });
+
+  it('uses a direct pair', () => {
+    expect(resolveRate(rates, 'GBP', 'USD')?.rate.toString()).toBe('1.25');
+  });
+
+  it('inverts the opposite pair', () => {
+    expect(resolveRate(rates, 'USD', 'GBP')?.rate.toString()).toBe('0.8');
+  });
+
+  it('crosses through a shared currency with the older date', () => {
+    const resolved = resolveRate(rates, 'USD', 'EUR');
+    expect(resolved?.via).toBe('GBP');
+    expect(resolved?.rate.toString()).toBe('0.92');
+    expect(resolved?.rateDate).toEqual(day('2026-10-18'));
+  });
+
+  it('returns null without a path', () => {
+    expect(resolveRate(rates, 'GBP', 'JPY')).toBeNull();
+  });
+});
+
+describe('roundMoney', () => {
+  it('rounds to the minor unit', () => {
+    expect(roundMoney(d('10.125'), 'GBP').toString()).toBe('10.13');
+    expect(roundMoney(d('1234.5'), 'JPY').toString()).toBe('1235');
+  });
+});
+
+describe('parseRatesCsv', () => {
+  it('parses rows and reports bad lines', () => {
+    const { rows, errors } = parseRatesCsv(
+      [
+        'base,quote,rate,date',
+        '# ECB reference',
+        'GBP,USD,1.27,2026-10-19',
+        'gbp,eur,1.16',
+        'GBP,GBP,1',
+        'GBP,USD,-1',
+        'GBP,USD,1.2,19/10/2026',
+      ].join('\n'),
+      new Date('2026-10-19T15:00:00Z'),
+    );
+
+    expect(rows).toEqual([
+      { base: 'GBP', quote: 'USD', rate: 1.27, rateDate: day('2026-10-19') },
+      { base: 'GBP', quote: 'EUR', rate: 1.16, rateDate: day('2026-10-19') },
+    ]);
+    expect(errors.map((e) => e.line)).toEqual([5, 6, 7]);
+  });
+});
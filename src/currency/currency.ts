@@ -0,0 +1,180 @@
+import { Prisma } from '@prisma/client';
+
+// Pure currency helpers: code validation, rounding and rate resolution.
+
+export type RateQuote = {
+  base: string;
+  quote: string;
+  rate: Prisma.Decimal;
+  rateDate: Date;
+};
+
+// Reported on converted responses.
+export type ExchangeRateUsed = {
+  from: string;
+  to: string;
+  rate: number;
+  rateDate: string;
+  via?: string;
+};
+
+export type ResolvedRate = {
+  rate: Prisma.Decimal;
+  rateDate: Date | null;
+  via?: string;
+};
+
+// Unit prices keep supplier precision (fractions of a cent are common for
+// passives); totals are rounded to the currency's minor unit.
+export const UNIT_PRICE_DECIMALS = 5;
+const RATE_DECIMALS = 8;
+// Stored totals are Decimal(14, 2).
+const MAX_TOTAL_DECIMALS = 2;
+
+export function normalizeCurrency(value?: string | null): string | undefined {
+  const code = value?.trim().toUpperCase();
+  if (!code || !/^[A-Z]{3}$/.test(code)) return undefined;
+  return isKnownCurrency(code) ? code : undefined;
+}
+
+export function minorUnits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency,
+    }).resolvedOptions().maximumFractionDigits!;
+  } catch {
+    return 2;
+  }
+}
+
+export function roundMoney(
+  amount: Prisma.Decimal,
+  currency: string,
+): Prisma.Decimal {
+  return amount.toDecimalPlaces(
+    Math.min(minorUnits(currency), MAX_TOTAL_DECIMALS),
+    Prisma.Decimal.ROUND_HALF_UP,
+  );
+}
+
+export function roundUnitPrice(amount: Prisma.Decimal): Prisma.Decimal {
+  return amount.toDecimalPlaces(
+    UNIT_PRICE_DECIMALS,
+    Prisma.Decimal.ROUND_HALF_UP,
+  );
+}
+
+// Finds from -> to in a table of latest rates: directly, by inverting the
+// opposite pair, or across one intermediate currency. Cross rates report the
+// older of the two rate dates.
+export function resolveRate(
+  rates: RateQuote[],
+  from: string,
+  to: string,
+): ResolvedRate | null {
+  if (from === to) return { rate: new Prisma.Decimal(1), rateDate: null };
+
+  const direct = pairRate(rates, from, to);
+  if (direct) return direct;
+
+  const pivots = new Set(rates.flatMap((r) => [r.base, r.quote]));
+  for (const via of [...pivots].sort()) {
+    if (via === from || via === to) continue;
+    const first = pairRate(rates, from, via);
+    const second = first ? pairRate(rates, via, to) : null;
+    if (first && second) {
+      return {
+        rate: first.rate.mul(second.rate).toDecimalPlaces(RATE_DECIMALS),
+        rateDate:
+          first.rateDate! < second.rateDate! ? first.rateDate : second.rateDate,
+        via,
+      };
+    }
+  }
+  return null;
+}
+
+export type RateCsvRow = {
+  base: string;
+  quote: string;
+  rate: number;
+  rateDate: Date;
+};
+
+// Parses `base,quote,rate[,date]` lines. A header row, blank lines and `#`
+// comments are skipped; the date defaults to `today`.
+export function parseRatesCsv(
+  text: string,
+  today = new Date(),
+): { rows: RateCsvRow[]; errors: Array<{ line: number; error: string }> } {
+  const rows: RateCsvRow[] = [];
+  const errors: Array<{ line: number; error: string }> = [];
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+    const cells = line.split(/[,;\t]/).map((c) => c.trim());
+    if (idx === 0 && /^base$/i.test(cells[0])) return;
+
+    const base = normalizeCurrency(cells[0]);
+    const quote = normalizeCurrency(cells[1]);
+    const rate = Number(cells[2]);
+    const rateDate = cells[3] ? parseRateDate(cells[3]) : toRateDate(today);
+
+    if (!base || !quote) {
+      errors.push({ line: idx + 1, error: 'unknown currency code' });
+    } else if (base === quote) {
+      errors.push({ line: idx + 1, error: 'base and quote are the same' });
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push({ line: idx + 1, error: 'rate must be a positive number' });
+    } else if (!rateDate) {
+      errors.push({ line: idx + 1, error: 'date must be YYYY-MM-DD' });
+    } else {
+      rows.push({ base, quote, rate, rateDate });
+    }
+  });
+
+  return { rows, errors };
+}
+
+export function parseRateDate(value: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!m) return null;
+  const date = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Rate dates are calendar days (UTC).
+export function toRateDate(at: Date): Date {
+  return new Date(
+    Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()),
+  );
+}
+
+function pairRate(
+  rates: RateQuote[],
+  from: string,
+  to: string,
+): ResolvedRate | null {
+  const direct = rates.find((r) => r.base === from && r.quote === to);
+  if (direct) return { rate: direct.rate, rateDate: direct.rateDate };
+
+  const inverse = rates.find((r) => r.base === to && r.quote === from);
+  if (inverse && !inverse.rate.isZero()) {
+    return {
+      rate: new Prisma.Decimal(1)
+        .div(inverse.rate)
+        .toDecimalPlaces(RATE_DECIMALS),
+      rateDate: inverse.rateDate,
+    };
+  }
+  return null;
+}
+
+function isKnownCurrency(code: string): boolean {
+  const supported = (
+    Intl as { supportedValuesOf?: (key: string) => string[] }
+  ).supportedValuesOf?.('currency');
+  return supported ? supported.includes(code) : true;
+}
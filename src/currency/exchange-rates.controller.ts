@@ -0,0 +1,90 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ExchangeRate, Role } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import { RequireScopes, Roles } from '../auth/auth.decorators';
+import { normalizeCurrency, parseRateDate } from './currency';
+import { ExchangeRatesService } from './exchange-rates.service';
+
+@Controller('/admin/exchange-rates')
+@RequireScopes(Scope.pricing)
+export class ExchangeRatesController {
+  constructor(private readonly rates: ExchangeRatesService) {}
+
+  // Latest rate per pair, or the history of one pair with ?base=&quote=.
+  @Get()
+  listRates(
+    @Query('base') base?: string,
+    @Query('quote') quote?: string,
+    @Query('limit') limit?: string,
+  ): Promise<ExchangeRate[]> {
+    if (!base && !quote) return this.rates.latestRates();
+
+    const baseCode = normalizeCurrency(base);
+    const quoteCode = normalizeCurrency(quote);
+    if (!baseCode || !quoteCode) {
+      throw new BadRequestException('base and quote must be currency codes');
+    }
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(365, Math.floor(Number(limit))))
+      : 30;
+    return this.rates.history(baseCode, quoteCode, safeLimit);
+  }
+
+  // Body: { base, quote, rate, rateDate?: YYYY-MM-DD, source? }
+  @Put()
+  @Roles(Role.admin)
+  upsertRate(@Body() body: unknown): Promise<ExchangeRate> {
+    const obj = isRecord(body) ? body : {};
+    const base = normalizeCurrency(asString(obj.base));
+    const quote = normalizeCurrency(asString(obj.quote));
+    const rate = Number(obj.rate);
+    if (!base || !quote || base === quote) {
+      throw new BadRequestException(
+        'base and quote must be different currency codes',
+      );
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new BadRequestException('rate must be a positive number');
+    }
+
+    const dateRaw = asString(obj.rateDate);
+    const rateDate = dateRaw ? parseRateDate(dateRaw) : undefined;
+    if (rateDate === null) {
+      throw new BadRequestException('rateDate must be YYYY-MM-DD');
+    }
+
+    return this.rates.upsert({
+      base,
+      quote,
+      rate,
+      rateDate,
+      source: asString(obj.source) ?? 'manual',
+    });
+  }
+
+  // Body: { csv: "base,quote,rate,date\nEUR,USD,1.0842,2026-10-19", source? }
+  @Post('/import')
+  @Roles(Role.admin)
+  importRates(@Body() body: unknown) {
+    const obj = isRecord(body) ? body : {};
+    const csv = asString(obj.csv);
+    if (!csv) throw new BadRequestException('csv is required');
+    return this.rates.importCsv(csv, asString(obj.source) ?? 'csv');
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v : undefined;
+}
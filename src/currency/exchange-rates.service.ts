@@ -0,0 +1,148 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExchangeRate, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ExchangeRateUsed,
+  normalizeCurrency,
+  parseRatesCsv,
+  RateQuote,
+  ResolvedRate,
+  resolveRate,
+  roundMoney,
+  roundUnitPrice,
+  toRateDate,
+} from './currency';
+
+export type ExchangeRateInput = {
+  base: string;
+  quote: string;
+  rate: number;
+  rateDate?: Date;
+  source?: string;
+};
+
+// Converts amounts into one target currency with a rate table loaded once,
+// and remembers which rates it used so responses can report them.
+export class CurrencyConverter {
+  private readonly used = new Map<string, ExchangeRateUsed>();
+
+  constructor(
+    readonly currency: string,
+    private readonly rates: RateQuote[],
+  ) {}
+
+  // Unit prices keep five decimals.
+  unitPrice(amount: Prisma.Decimal, from: string): Prisma.Decimal {
+    return roundUnitPrice(amount.mul(this.resolve(from).rate));
+  }
+
+  // Totals are rounded to the target currency's minor unit.
+  total(amount: Prisma.Decimal, from: string): Prisma.Decimal {
+    return roundMoney(amount.mul(this.resolve(from).rate), this.currency);
+  }
+
+  resolve(from: string): ResolvedRate {
+    const resolved = resolveRate(this.rates, from, this.currency);
+    if (!resolved) {
+      throw new BadRequestException(
+        `No exchange rate from ${from} to ${this.currency}`,
+      );
+    }
+    if (resolved.rateDate) {
+      this.used.set(from, {
+        from,
+        to: this.currency,
+        rate: resolved.rate.toNumber(),
+        rateDate: resolved.rateDate.toISOString().slice(0, 10),
+        ...(resolved.via ? { via: resolved.via } : {}),
+      });
+    }
+    return resolved;
+  }
+
+  ratesUsed(): ExchangeRateUsed[] {
+    return [...this.used.values()];
+  }
+}
+
+// Validates a `currency` query or body value. Undefined when absent.
+export function parseCurrencyParam(value?: string | null): string | undefined {
+  if (!value?.trim()) return undefined;
+  const code = normalizeCurrency(value);
+  if (!code) throw new BadRequestException(`Unknown currency: ${value}`);
+  return code;
+}
+
+@Injectable()
+export class ExchangeRatesService {
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  // Store currency for quotes and orders when the caller does not pick one.
+  defaultCurrency(): string {
+    return (
+      normalizeCurrency(this.config.get<string>('DEFAULT_CURRENCY')) ?? 'GBP'
+    );
+  }
+
+  async converter(currency: string): Promise<CurrencyConverter> {
+    return new CurrencyConverter(currency, await this.latestRates());
+  }
+
+  // The newest rate for every pair.
+  latestRates(): Promise<ExchangeRate[]> {
+    return this.prisma.exchangeRate.findMany({
+      distinct: ['base', 'quote'],
+      orderBy: [{ base: 'asc' }, { quote: 'asc' }, { rateDate: 'desc' }],
+    });
+  }
+
+  history(base: string, quote: string, limit: number) {
+    return this.prisma.exchangeRate.findMany({
+      where: { base, quote },
+      orderBy: { rateDate: 'desc' },
+      take: limit,
+    });
+  }
+
+  // One row per pair and day; re-posting the same day overwrites it.
+  upsert(input: ExchangeRateInput): Promise<ExchangeRate> {
+    const rateDate = toRateDate(input.rateDate ?? new Date());
+    return this.prisma.exchangeRate.upsert({
+      where: {
+        base_quote_rateDate: {
+          base: input.base,
+          quote: input.quote,
+          rateDate,
+        },
+      },
+      create: { ...input, rateDate },
+      update: { rate: input.rate, source: input.source },
+    });
+  }
+
+  async importCsv(text: string, source = 'csv') {
+    const { rows, errors } = parseRatesCsv(text);
+    if (rows.length) {
+      await this.prisma.$transaction(
+        rows.map((r) =>
+          this.prisma.exchangeRate.upsert({
+            where: {
+              base_quote_rateDate: {
+                base: r.base,
+                quote: r.quote,
+                rateDate: r.rateDate,
+              },
+            },
+            create: { ...r, source },
+            update: { rate: r.rate, source },
+          }),
+        ),
+      );
+    }
+    return { imported: rows.length, errors };
+  }
+}
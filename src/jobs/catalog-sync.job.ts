@@ -1,18 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Cron } from '@nestjs/schedule';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { SupplierCode } from '@prisma/client';
 import {
-  FarnellClient,
+  ProductAvailability,
+  SupplierCode,
+  SyncProfile,
+  SyncRun,
+  SyncRunStatus,
+  SyncTrigger,
+} from '@prisma/client';
+import { Observable, ReplaySubject } from 'rxjs';
+import {
+  SupplierAdapter,
+  SupplierBudgetExhaustedError,
   SupplierProduct,
-} from 'src/suppliers/farnell/farnell.client';
+  SupplierUnavailableError,
+} from 'src/suppliers/supplier-adapter';
+import { SupplierRegistry } from 'src/suppliers/supplier-registry';
 import { Prisma } from '@prisma/client';
-
-function toInputJsonValue(input: unknown): Prisma.InputJsonValue {
-  const v = JSON.parse(JSON.stringify(input)) as unknown;
-  return (v ?? {}) as Prisma.InputJsonValue;
-}
+import { ProductPersistenceService } from '../catalog/product-persistence.service';
+import { HeldLock, JobLocksService } from './job-locks.service';
+import {
+  emptySyncStats,
+  SyncRunError,
+  SyncRunsService,
+  SyncRunStats,
+} from './sync-runs.service';
 
 function chunk<T>(arr: T[], size: number): T[][] {
   if (!Number.isFinite(size) || size <= 0) return [arr];
@@ -26,66 +39,284 @@ function toPositiveInt(v: unknown, fallback: number): number {
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
 }
 
+// Pushed to progress subscribers after every page and batch, and on every
+// status change.
+export type SyncProgressEvent = {
+  runId: string;
+  supplier: SupplierCode;
+  status: SyncRunStatus;
+  phase: 'queued' | 'fetch' | 'upsert' | 'done';
+  stats: SyncRunStats;
+  batch?: { index: number; total: number };
+  errorCount: number;
+};
+
+class SyncCancelledError extends Error {
+  constructor() {
+    super('Sync cancelled');
+  }
+}
+
+// The profile already has a run in progress, here or on another instance.
+export class SyncAlreadyRunningError extends Error {
+  constructor(
+    readonly profile: SyncProfile,
+    readonly holder: string | null,
+  ) {
+    super(
+      `Sync profile ${profile.name} is already running${holder ? ` on ${holder}` : ''}`,
+    );
+  }
+}
+
+type QueuedSync = {
+  runId: string;
+  profile: SyncProfile;
+  adapter: SupplierAdapter;
+  abort: AbortController;
+  // Held from queueing until the run ends, so each profile runs at most
+  // once across all instances.
+  lock: HeldLock;
+};
+
+const lockName = (profileId: string) => `catalog-sync:${profileId}`;
+
 @Injectable()
 export class CatalogSyncJob {
   private readonly logger = new Logger(CatalogSyncJob.name);
-  private isRunning = false;
+  // Runs execute one at a time in queue order.
+  private readonly queue: QueuedSync[] = [];
+  private current: QueuedSync | null = null;
+  private draining = false;
+  // Latest event per live run, replayed to late subscribers.
+  private readonly progress = new Map<
+    string,
+    ReplaySubject<SyncProgressEvent>
+  >();
 
   constructor(
     private readonly config: ConfigService,
-    private readonly farnell: FarnellClient,
+    private readonly suppliers: SupplierRegistry,
     private readonly prisma: PrismaService,
+    private readonly syncRuns: SyncRunsService,
+    private readonly locks: JobLocksService,
+    private readonly products: ProductPersistenceService,
   ) {}
 
-  // Default: nightly at 02:00; override with CATALOG_SYNC_CRON env var.
-  @Cron(process.env.CATALOG_SYNC_CRON ?? '0 2 * * *')
-  async run() {
-    if (this.isRunning) {
-      this.logger.warn('CatalogSync skipped (already running)');
-      return;
+  // Runs one sync profile. Scheduled runs are queued by SyncScheduler.
+  // Returns at once with the queued run; a profile that already has a run
+  // waiting gets that run back instead of a second one. Throws
+  // SyncAlreadyRunningError while a run of the profile is in progress.
+  async enqueue(
+    profile: SyncProfile,
+    trigger: SyncTrigger,
+    requestedBy?: string,
+  ): Promise<SyncRun> {
+    const adapter = this.suppliers.get(profile.supplier);
+    if (!adapter) throw new Error(`Supplier not enabled: ${profile.supplier}`);
+
+    const lock = await this.locks.acquire(lockName(profile.id));
+    if (!lock) {
+      const waiting = await this.syncRuns.findQueued(profile.id);
+      if (waiting) return waiting;
+      const holder = await this.locks.holder(lockName(profile.id));
+      throw new SyncAlreadyRunningError(profile, holder?.owner ?? null);
+    }
+    if (lock.takenOverRunId) {
+      await this.syncRuns.interrupt(
+        lock.takenOverRunId,
+        'Interrupted: the instance running it stopped responding',
+      );
+    }
+
+    let run: SyncRun;
+    try {
+      run = await this.syncRuns.queue(profile, trigger, requestedBy);
+      await this.locks.attachRun(lock, run.id);
+    } catch (e) {
+      await this.locks.release(lock);
+      throw e;
+    }
+    this.queue.push({
+      runId: run.id,
+      profile,
+      adapter,
+      abort: new AbortController(),
+      lock,
+    });
+    this.emit(run.id, {
+      runId: run.id,
+      supplier: profile.supplier,
+      status: SyncRunStatus.queued,
+      phase: 'queued',
+      stats: emptySyncStats(),
+      errorCount: 0,
+    });
+
+    void this.drain();
+    return run;
+  }
+
+  // Queued runs are dropped; a running one stops at the next page or batch
+  // boundary and keeps what it already stored. False when the run is not
+  // live in this process; the instance that has it picks up the
+  // `cancelRequestedAt` the endpoint stored instead.
+  async cancel(runId: string): Promise<boolean> {
+    if (this.current?.runId === runId) {
+      this.current.abort.abort();
+      return true;
     }
 
-    this.isRunning = true;
+    const idx = this.queue.findIndex((q) => q.runId === runId);
+    if (idx === -1) return false;
+    const [queued] = this.queue.splice(idx, 1);
+    await this.locks.release(queued.lock);
+    if (await this.syncRuns.cancelQueued(runId)) {
+      this.emit(runId, {
+        runId,
+        supplier: queued.adapter.code,
+        status: SyncRunStatus.cancelled,
+        phase: 'done',
+        stats: emptySyncStats(),
+        errorCount: 0,
+      });
+      this.complete(runId);
+    }
+    return true;
+  }
+
+  // Live events for a queued or running run; undefined once it is over.
+  events(runId: string): Observable<SyncProgressEvent> | undefined {
+    return this.progress.get(runId)?.asObservable();
+  }
+
+  private async drain() {
+    if (this.draining) return;
+    this.draining = true;
 
     try {
-      const batchSize = toPositiveInt(
-        this.config.get('CATALOG_SYNC_BATCH_SIZE'),
-        50,
-      );
+      let next: QueuedSync | undefined;
+      while ((next = this.queue.shift())) {
+        this.current = next;
+        try {
+          await this.syncSupplier(next);
+        } catch (error) {
+          this.logger.error(
+            `CatalogSync run ${next.runId} could not be recorded`,
+            error as Error,
+          );
+        } finally {
+          this.complete(next.runId);
+          this.current = null;
+          const { lock } = next;
+          await this.locks
+            .release(lock)
+            .catch((e: Error) =>
+              this.logger.warn(`Could not release ${lock.name}: ${e.message}`),
+            );
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
 
-      const term =
-        this.config.get<string>('CATALOG_SYNC_FARNELL_TERM') ??
-        'any:raspberry pi';
+  private emit(runId: string, event: SyncProgressEvent) {
+    let subject = this.progress.get(runId);
+    if (!subject) {
+      subject = new ReplaySubject<SyncProgressEvent>(1);
+      this.progress.set(runId, subject);
+    }
+    subject.next(event);
+  }
 
-      // How many products we want to fetch in this run (cap).
-      const targetTotal = toPositiveInt(
-        this.config.get('CATALOG_SYNC_TARGET_TOTAL'),
-        150,
-      );
+  private complete(runId: string) {
+    this.progress.get(runId)?.complete();
+    this.progress.delete(runId);
+  }
 
-      // Guards
-      const maxPages = toPositiveInt(
-        this.config.get('CATALOG_SYNC_MAX_PAGES'),
-        10,
-      );
-      const maxTotal = toPositiveInt(
-        this.config.get('CATALOG_SYNC_MAX_TOTAL'),
-        targetTotal,
-      );
+  // Failures are recorded on the SyncRun instead of thrown: a page that
+  // keeps failing ends pagination, a product that cannot be stored is
+  // skipped, and anything else fails the run. Cancellation is checked
+  // (and the lock lease) between pages and between batches.
+  private async syncSupplier(job: QueuedSync): Promise<SyncRun> {
+    const { adapter, profile } = job;
+    const supplier = adapter.code;
+    const { term, filter } = profile;
+
+    const batchSize = toPositiveInt(
+      this.config.get('CATALOG_SYNC_BATCH_SIZE'),
+      50,
+    );
 
-      const pageSizeDefault = toPositiveInt(
-        this.config.get('CATALOG_SYNC_PAGE_SIZE'),
-        50,
-      );
-      const pageDelayMs = toPositiveInt(
-        this.config.get('CATALOG_SYNC_PAGE_DELAY_MS'),
-        250,
-      );
-      const batchDelayMs = toPositiveInt(
-        this.config.get('CATALOG_SYNC_BATCH_DELAY_MS'),
-        100,
-      );
+    // How many products we want to fetch in this run (cap).
+    const targetTotal =
+      profile.targetTotal ??
+      toPositiveInt(this.config.get('CATALOG_SYNC_TARGET_TOTAL'), 150);
+
+    // Guards
+    const maxPages =
+      profile.maxPages ??
+      toPositiveInt(this.config.get('CATALOG_SYNC_MAX_PAGES'), 10);
+    const maxTotal = toPositiveInt(
+      this.config.get('CATALOG_SYNC_MAX_TOTAL'),
+      targetTotal,
+    );
+
+    const pageSizeDefault =
+      profile.pageSize ??
+      toPositiveInt(this.config.get('CATALOG_SYNC_PAGE_SIZE'), 50);
+    const pageDelayMs = toPositiveInt(
+      this.config.get('CATALOG_SYNC_PAGE_DELAY_MS'),
+      250,
+    );
+    const batchDelayMs = toPositiveInt(
+      this.config.get('CATALOG_SYNC_BATCH_DELAY_MS'),
+      100,
+    );
+
+    const run = await this.syncRuns.start(job.runId);
+    const stats: SyncRunStats = emptySyncStats();
+    const errors: SyncRunError[] = [];
+    const report = async (
+      phase: SyncProgressEvent['phase'],
+      batch?: SyncProgressEvent['batch'],
+    ) => {
+      await this.syncRuns.progress(run.id, stats);
+      this.emit(run.id, {
+        runId: run.id,
+        supplier,
+        status: SyncRunStatus.running,
+        phase,
+        stats: { ...stats },
+        ...(batch ? { batch } : {}),
+        errorCount: errors.length,
+      });
+    };
+    const checkCancelled = async () => {
+      if (
+        job.abort.signal.aborted ||
+        (await this.syncRuns.cancelRequested(run.id))
+      ) {
+        throw new SyncCancelledError();
+      }
+      if (job.lock.lost) {
+        throw new Error('Lost the sync lock to another instance');
+      }
+    };
+    const recordError = (
+      stage: SyncRunError['stage'],
+      e: unknown,
+      supplierSku?: string,
+    ) =>
+      errors.push({
+        at: new Date().toISOString(),
+        stage,
+        message: (e as Error)?.message ?? String(e),
+        ...(supplierSku ? { supplierSku } : {}),
+      });
 
+    try {
       const products: SupplierProduct[] = [];
       const seenSkus = new Set<string>();
       let duplicatePagesInRow = 0;
@@ -100,8 +331,10 @@ export class CatalogSyncJob {
       const allowAutoMode = !paginationModeEnv;
 
       let pageIndex = 0;
+      await report('fetch');
 
       while (products.length < targetTotal) {
+        await checkCancelled();
         if (pageIndex >= maxPages) {
           this.logger.warn(`Reached maxPages=${maxPages}. Stopping fetch.`);
           break;
@@ -118,12 +351,22 @@ export class CatalogSyncJob {
         let offset =
           paginationMode === 'item' ? pageIndex * pageSizeDefault : pageIndex;
 
-        let page = await this.fetchFarnellPageWithRetry({
-          term,
-          offset,
-          take,
-          attempts: 3,
-        });
+        let page: SupplierProduct[];
+        try {
+          page = await this.fetchPageWithRetry(adapter, {
+            term,
+            filter: filter ?? undefined,
+            offset,
+            take,
+            attempts: 3,
+          });
+        } catch (e) {
+          recordError('fetch', e);
+          this.logger.warn(
+            `${supplier} giving up on pagination at offset=${offset}; storing what was fetched`,
+          );
+          break;
+        }
 
         if (
           allowAutoMode &&
@@ -132,25 +375,37 @@ export class CatalogSyncJob {
           pageIndex > 0
         ) {
           this.logger.warn(
-            `Farnell empty page with item-offset=${offset}. Switching to page-index mode.`,
+            `${supplier} empty page with item-offset=${offset}. Switching to page-index mode.`,
           );
           paginationMode = 'page';
           offset = pageIndex;
-          page = await this.fetchFarnellPageWithRetry({
-            term,
-            offset,
-            take,
-            attempts: 3,
-          });
+          try {
+            page = await this.fetchPageWithRetry(adapter, {
+              term,
+              filter: filter ?? undefined,
+              offset,
+              take,
+              attempts: 3,
+            });
+          } catch (e) {
+            recordError('fetch', e);
+            break;
+          }
         }
 
+        stats.pagesFetched += 1;
+        stats.paginationMode = paginationMode;
+
         this.logger.log(
           `Fetched pageIndex=${pageIndex} offset=${offset} mode=${paginationMode} got=${page.length} uniqueSkus=${
             new Set(page.map((x) => x.supplierSku)).size
           } first=${page[0]?.supplierSku} last=${page.at(-1)?.supplierSku}`,
         );
 
-        if (page.length === 0) break;
+        if (page.length === 0) {
+          stats.exhaustive = true;
+          break;
+        }
 
         let added = 0;
         let dupes = 0;
@@ -164,6 +419,9 @@ export class CatalogSyncJob {
           added += 1;
         }
         const isFullDuplicate = dupes === page.length;
+        stats.itemsFetched = products.length;
+        stats.duplicates += dupes;
+        await report('fetch');
 
         if (isFullDuplicate) {
           duplicatePagesInRow += 1;
@@ -171,8 +429,9 @@ export class CatalogSyncJob {
 
           if (duplicatePagesInRow >= 2) {
             this.logger.warn(
-              `Farnell duplicate pages in a row=${duplicatePagesInRow}. Stopping pagination.`,
+              `${supplier} duplicate pages in a row=${duplicatePagesInRow}. Stopping pagination.`,
             );
+            stats.exhaustive = true;
             break;
           }
 
@@ -184,12 +443,12 @@ export class CatalogSyncJob {
 
         if (dupes > 0) {
           this.logger.warn(
-            `Farnell page duplicates pageIndex=${pageIndex - 1} dupes=${dupes}`,
+            `${supplier} page duplicates pageIndex=${pageIndex - 1} dupes=${dupes}`,
           );
         }
 
         this.logger.log(
-          `Farnell page added=${added} totalUnique=${products.length}`,
+          `${supplier} page added=${added} totalUnique=${products.length}`,
         );
 
         await new Promise((r) => setTimeout(r, pageDelayMs));
@@ -198,55 +457,124 @@ export class CatalogSyncJob {
       const batches = chunk(products, batchSize);
 
       this.logger.log(
-        `CatalogSync started. supplier=farnell total=${products.length} batchSize=${batchSize} batches=${batches.length}`,
+        `CatalogSync started. supplier=${supplier} total=${products.length} batchSize=${batchSize} batches=${batches.length}`,
       );
 
       for (let i = 0; i < batches.length; i++) {
+        await checkCancelled();
         const batch = batches[i];
         this.logger.log(
           `Batch ${i + 1}/${batches.length}: ${batch.length} items`,
         );
 
-        const upserted = await this.upsertBatch(batch);
+        const upserted = await this.upsertBatch(job, batch, (p, e) =>
+          recordError('upsert', e, p.supplierSku),
+        );
+        stats.created += upserted.created;
+        stats.updated += upserted.updated;
+        stats.unchanged += upserted.unchanged;
+        await report('upsert', { index: i + 1, total: batches.length });
 
         const first = batch[0]?.supplierSku;
         const last = batch.at(-1)?.supplierSku;
-        this.logger.debug(`Upserted: ${upserted} items (${first}..${last})`);
+        this.logger.debug(
+          `Upserted: ${upserted.created + upserted.updated} items, unchanged: ${upserted.unchanged} (${first}..${last})`,
+        );
 
         await new Promise((r) => setTimeout(r, batchDelayMs));
       }
 
-      this.logger.log('CatalogSync finished.');
-    } catch (error) {
-      this.logger.error('CatalogSync failed', error as Error);
-    } finally {
-      this.isRunning = false;
+      // Missing products are only judged on complete, clean runs.
+      await checkCancelled();
+      if (stats.exhaustive && !errors.length) {
+        const marked = await this.markMissingProducts(job);
+        stats.markedUnavailable = marked.unavailable;
+        stats.markedDiscontinued = marked.discontinued;
+        if (marked.unavailable || marked.discontinued) {
+          this.logger.log(
+            `${supplier} profile=${job.profile.name} marked unavailable=${marked.unavailable} discontinued=${marked.discontinued}`,
+          );
+        }
+      }
+    } catch (e) {
+      const cancelled = e instanceof SyncCancelledError;
+      if (cancelled) {
+        this.logger.warn(`CatalogSync cancelled. supplier=${supplier}`);
+      } else {
+        recordError('run', e);
+        this.logger.error(
+          `CatalogSync failed. supplier=${supplier}`,
+          e as Error,
+        );
+      }
+      return this.finish(
+        run.id,
+        supplier,
+        stats,
+        errors,
+        cancelled ? SyncRunStatus.cancelled : SyncRunStatus.failed,
+      );
     }
+
+    const finished = await this.finish(run.id, supplier, stats, errors);
+    this.logger.log(
+      `CatalogSync finished. supplier=${supplier} status=${finished.status} created=${stats.created} updated=${stats.updated} errors=${errors.length}`,
+    );
+    return finished;
   }
 
-  private async fetchFarnellPageWithRetry(args: {
-    term: string;
-    offset: number;
-    take: number;
-    attempts?: number;
-  }): Promise<SupplierProduct[]> {
+  private async finish(
+    runId: string,
+    supplier: SupplierCode,
+    stats: SyncRunStats,
+    errors: SyncRunError[],
+    outcome?: 'failed' | 'cancelled',
+  ): Promise<SyncRun> {
+    const finished = await this.syncRuns.finish(runId, stats, errors, outcome);
+    this.emit(runId, {
+      runId,
+      supplier,
+      status: finished.status,
+      phase: 'done',
+      stats: { ...stats },
+      errorCount: finished.errorCount,
+    });
+    return finished;
+  }
+
+  private async fetchPageWithRetry(
+    adapter: SupplierAdapter,
+    args: {
+      term: string;
+      filter?: string;
+      offset: number;
+      take: number;
+      attempts?: number;
+    },
+  ): Promise<SupplierProduct[]> {
     const attempts = args.attempts ?? 3;
 
     for (let i = 1; i <= attempts; i++) {
       try {
-        return await this.farnell.searchProducts({
+        return await adapter.fetchCataloguePage({
           term: args.term,
+          filter: args.filter,
           offset: args.offset,
-          numberOfResults: args.take,
-          responseGroup: 'large',
+          take: args.take,
         });
       } catch (e) {
         const msg = (e as Error).message ?? String(e);
         this.logger.warn(
-          `Farnell page failed offset=${args.offset} take=${args.take} attempt=${i}/${attempts}: ${msg}`,
+          `${adapter.code} page failed offset=${args.offset} take=${args.take} attempt=${i}/${attempts}: ${msg}`,
         );
 
-        if (i === attempts) throw e;
+        if (
+          i === attempts ||
+          e instanceof SupplierBudgetExhaustedError ||
+          e instanceof SupplierUnavailableError
+        ) {
+          throw e;
+        }
         await new Promise((r) => setTimeout(r, 800 * i));
       }
     }
@@ -254,53 +582,99 @@ export class CatalogSyncJob {
     return [];
   }
 
-  private async upsertBatch(batch: SupplierProduct[]) {
-    if (!batch.length) return 0;
-
-    const supplier: SupplierCode = SupplierCode.farnell;
-    const txBatchSize = toPositiveInt(
-      this.config.get('CATALOG_SYNC_TX_BATCH_SIZE'),
-      10,
+  // Returns how many products were new, changed or unchanged. Products
+  // listed again are reactivated; every product seen is recorded against
+  // the run's profile. Products that still fail on their own are passed to
+  // `onError` and skipped.
+  private async upsertBatch(
+    job: QueuedSync,
+    batch: SupplierProduct[],
+    onError: (p: SupplierProduct, e: unknown) => void,
+  ): Promise<{ created: number; updated: number; unchanged: number }> {
+    if (!batch.length) return { created: 0, updated: 0, unchanged: 0 };
+
+    const { products, ...counts } = await this.products.save(batch, {
+      reactivate: true,
+      txBatchSize: toPositiveInt(
+        this.config.get('CATALOG_SYNC_TX_BATCH_SIZE'),
+        10,
+      ),
+      onError,
+    });
+    await this.recordSeen(
+      job,
+      products.map((p) => p.id),
+      new Date(),
     );
+    return counts;
+  }
 
-    const buildUpsert = (p: SupplierProduct) => {
-      const supplierKey = `${supplier}:${p.supplierSku}`;
-
-      return this.prisma.product.upsert({
-        where: { supplierKey },
-        create: {
-          supplier,
-          supplierSku: p.supplierSku,
-          supplierKey,
-          name: p.name,
-          raw: toInputJsonValue(p.raw ?? p),
-        },
-        update: {
-          name: p.name,
-          raw: toInputJsonValue(p.raw ?? p),
-        },
-      });
-    };
-
-    let total = 0;
+  private async recordSeen(job: QueuedSync, productIds: string[], at: Date) {
+    if (!productIds.length) return;
+    const profileId = job.profile.id;
+    await this.prisma.$transaction([
+      this.prisma.syncProfileProduct.createMany({
+        data: productIds.map((productId) => ({
+          profileId,
+          productId,
+          lastSeenRunId: job.runId,
+          lastSeenAt: at,
+        })),
+        skipDuplicates: true,
+      }),
+      this.prisma.syncProfileProduct.updateMany({
+        where: { profileId, productId: { in: productIds } },
+        data: { lastSeenRunId: job.runId, lastSeenAt: at, missedRuns: 0 },
+      }),
+    ]);
+  }
 
-    for (const txBatch of chunk(batch, txBatchSize)) {
-      try {
-        await this.prisma.$transaction(txBatch.map(buildUpsert));
-        total += txBatch.length;
-      } catch (e) {
-        const msg = (e as Error).message ?? String(e);
-        this.logger.warn(
-          `Upsert transaction failed (size=${txBatch.length}). Falling back to sequential. ${msg}`,
-        );
+  // After an exhaustive run: products this profile returned before but not
+  // now miss one more run. A product is marked once every profile that
+  // returns it has missed enough runs, so overlapping profiles keep it
+  // active as long as one of them still sees it.
+  private async markMissingProducts(
+    job: QueuedSync,
+  ): Promise<{ unavailable: number; discontinued: number }> {
+    const profileId = job.profile.id;
+    const unavailableAfter = toPositiveInt(
+      this.config.get('CATALOG_SYNC_UNAVAILABLE_AFTER_RUNS'),
+      2,
+    );
+    const discontinuedAfter = Math.max(
+      unavailableAfter,
+      toPositiveInt(this.config.get('CATALOG_SYNC_DISCONTINUED_AFTER_RUNS'), 5),
+    );
 
-        for (const p of txBatch) {
-          await buildUpsert(p);
-          total += 1;
-        }
-      }
-    }
+    await this.prisma.syncProfileProduct.updateMany({
+      where: {
+        profileId,
+        OR: [{ lastSeenRunId: null }, { lastSeenRunId: { not: job.runId } }],
+      },
+      data: { missedRuns: { increment: 1 } },
+    });
+
+    const missedBy = (runs: number): Prisma.ProductWhereInput => ({
+      syncProfiles: {
+        some: { profileId, missedRuns: { gte: runs } },
+        none: { missedRuns: { lt: runs } },
+      },
+    });
+    const discontinued = await this.products.setAvailability(
+      {
+        availability: { not: ProductAvailability.discontinued },
+        ...missedBy(discontinuedAfter),
+      },
+      ProductAvailability.discontinued,
+    );
+    const unavailable = await this.products.setAvailability(
+      {
+        availability: ProductAvailability.active,
+        ...missedBy(unavailableAfter),
+      },
+      ProductAvailability.unavailable,
+    );
 
-    return total;
+    return { unavailable, discontinued };
   }
 }
@@ -0,0 +1,22 @@
+import { Controller, Get } from '@nestjs/common';
+import { Scope } from '../auth/api-key';
+import { RequireScopes } from '../auth/auth.decorators';
+import { JobLocksService, JobLockView } from './job-locks.service';
+
+@Controller('/admin/locks')
+@RequireScopes(Scope.sync)
+export class JobLocksController {
+  constructor(private readonly locks: JobLocksService) {}
+
+  // Every lease with its holder; `held` is false once a lease expired and
+  // `ownedHere` marks the instance answering the request.
+  @Get()
+  async listLocks(): Promise<{
+    instanceId: string;
+    count: number;
+    items: JobLockView[];
+  }> {
+    const items = await this.locks.list();
+    return { instanceId: this.locks.instanceId, count: items.length, items };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { JobLocksController } from './job-locks.controller';
+import { JobLocksService } from './job-locks.service';
+
+@Module({
+  controllers: [JobLocksController],
+  providers: [JobLocksService],
+  exports: [JobLocksService],
+})
+export class JobLocksModule {}
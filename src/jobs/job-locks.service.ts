@@ -0,0 +1,179 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobLock, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { PrismaService } from '../prisma/prisma.service';
+
+function toPositiveInt(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+// A lease this instance holds. `lost` turns true when a heartbeat finds the
+// lease gone (it expired and another instance took it); the work it guards
+// should stop at the next safe point.
+export type HeldLock = {
+  name: string;
+  owner: string;
+  lost: boolean;
+  // The run of the holder whose lease had expired, when this acquire took
+  // it over.
+  takenOverRunId?: string | null;
+};
+
+export type JobLockView = JobLock & { held: boolean; ownedHere: boolean };
+
+@Injectable()
+export class JobLocksService implements OnModuleDestroy {
+  private readonly logger = new Logger(JobLocksService.name);
+  readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly heartbeats = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async onModuleDestroy() {
+    await Promise.all(
+      [...this.heartbeats.keys()].map((name) =>
+        this.releaseByName(name).catch(() => undefined),
+      ),
+    );
+  }
+
+  // Null when another instance (or this one) holds a live lease.
+  async acquire(name: string): Promise<HeldLock | null> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.ttlMs());
+    const lease = {
+      owner: this.instanceId,
+      runId: null,
+      acquiredAt: now,
+      heartbeatAt: now,
+      expiresAt,
+    };
+
+    let takenOverRunId: string | null | undefined;
+    try {
+      await this.prisma.jobLock.create({ data: { name, ...lease } });
+    } catch (e) {
+      if (
+        !(e instanceof Prisma.PrismaClientKnownRequestError) ||
+        e.code !== 'P2002'
+      ) {
+        throw e;
+      }
+      const current = await this.prisma.jobLock.findUnique({
+        where: { name },
+      });
+      if (!current || current.expiresAt > now) return null;
+
+      // Compare-and-set on the expired holder: of two instances racing for
+      // the same stale lease only one update matches.
+      const { count } = await this.prisma.jobLock.updateMany({
+        where: { name, owner: current.owner, expiresAt: current.expiresAt },
+        data: lease,
+      });
+      if (!count) return null;
+      this.logger.warn(`Took over expired lock ${name} from ${current.owner}`);
+      takenOverRunId = current.runId;
+    }
+
+    const lock: HeldLock = {
+      name,
+      owner: this.instanceId,
+      lost: false,
+      takenOverRunId,
+    };
+    this.startHeartbeat(lock);
+    return lock;
+  }
+
+  async attachRun(lock: HeldLock, runId: string): Promise<void> {
+    await this.prisma.jobLock.updateMany({
+      where: { name: lock.name, owner: lock.owner },
+      data: { runId },
+    });
+  }
+
+  async release(lock: HeldLock): Promise<void> {
+    await this.releaseByName(lock.name);
+  }
+
+  // Live leases only.
+  async holder(name: string): Promise<JobLock | null> {
+    return this.prisma.jobLock.findFirst({
+      where: { name, expiresAt: { gt: new Date() } },
+    });
+  }
+
+  async liveRunIds(): Promise<string[]> {
+    const locks = await this.prisma.jobLock.findMany({
+      where: { expiresAt: { gt: new Date() }, runId: { not: null } },
+      select: { runId: true },
+    });
+    return locks.flatMap((l) => (l.runId ? [l.runId] : []));
+  }
+
+  // Expired leases stay listed until someone takes them over.
+  async list(): Promise<JobLockView[]> {
+    const now = new Date();
+    const locks = await this.prisma.jobLock.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return locks.map((l) => ({
+      ...l,
+      held: l.expiresAt > now,
+      ownedHere: l.owner === this.instanceId,
+    }));
+  }
+
+  private ttlMs(): number {
+    return toPositiveInt(this.config.get('JOB_LOCK_TTL_MS'), 60_000);
+  }
+
+  private startHeartbeat(lock: HeldLock) {
+    const ttlMs = this.ttlMs();
+    const timer = setInterval(() => void this.renew(lock, ttlMs), ttlMs / 3);
+    timer.unref();
+    this.heartbeats.set(lock.name, timer);
+  }
+
+  private async renew(lock: HeldLock, ttlMs: number) {
+    try {
+      const now = new Date();
+      const { count } = await this.prisma.jobLock.updateMany({
+        where: { name: lock.name, owner: lock.owner },
+        data: {
+          heartbeatAt: now,
+          expiresAt: new Date(now.getTime() + ttlMs),
+        },
+      });
+      if (!count) {
+        lock.lost = true;
+        this.stopHeartbeat(lock.name);
+        this.logger.warn(`Lost lock ${lock.name}`);
+      }
+    } catch (e) {
+      // The lease survives a missed heartbeat as long as the next one lands
+      // before it expires.
+      this.logger.warn(
+        `Heartbeat for lock ${lock.name} failed: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  private stopHeartbeat(name: string) {
+    clearInterval(this.heartbeats.get(name));
+    this.heartbeats.delete(name);
+  }
+
+  private async releaseByName(name: string) {
+    this.stopHeartbeat(name);
+    await this.prisma.jobLock.deleteMany({
+      where: { name, owner: this.instanceId },
+    });
+  }
+}
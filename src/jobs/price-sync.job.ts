@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { Prisma, Product, ProductAvailability } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  extractFarnellPrices,
+  extractFarnellStock,
+  FarnellPriceBreak,
+  FarnellStock,
+} from 'src/suppliers/farnell/farnell.extract';
+import {
+  SupplierProduct,
+  SupplierRateLimitError,
+  SupplierUnavailableError,
+} from 'src/suppliers/supplier-adapter';
+import { SupplierRegistry } from 'src/suppliers/supplier-registry';
+import { ProductPersistenceService } from '../catalog/product-persistence.service';
+import { JobLocksService } from './job-locks.service';
+
+function toInputJsonValue(input: unknown): Prisma.InputJsonValue {
+  const v = JSON.parse(JSON.stringify(input)) as unknown;
+  return (v ?? {}) as Prisma.InputJsonValue;
+}
+
+function toPositiveInt(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+type PriceSnapshot = {
+  prices: FarnellPriceBreak[];
+  stock?: FarnellStock;
+};
+
+@Injectable()
+export class PriceSyncJob {
+  private readonly logger = new Logger(PriceSyncJob.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly suppliers: SupplierRegistry,
+    private readonly prisma: PrismaService,
+    private readonly locks: JobLocksService,
+    private readonly products: ProductPersistenceService,
+  ) {}
+
+  // Default: every 6 hours; override with PRICE_SYNC_CRON env var. Every
+  // instance fires the cron; the one that gets the lock does the run.
+  @Cron(process.env.PRICE_SYNC_CRON ?? '0 */6 * * *')
+  async run() {
+    const lock = await this.locks.acquire('price-sync');
+    if (!lock) {
+      this.logger.warn('PriceSync skipped (already running)');
+      return;
+    }
+
+    try {
+      // Max supplier calls per run; one call refreshes one product.
+      const callBudget = toPositiveInt(
+        this.config.get('PRICE_SYNC_CALL_BUDGET'),
+        50,
+      );
+      const callDelayMs = toPositiveInt(
+        this.config.get('PRICE_SYNC_CALL_DELAY_MS'),
+        250,
+      );
+
+      // Ordered by the last attempt, not the last success: products the
+      // supplier stopped returning or that keep failing move to the back
+      // instead of using up every run's budget.
+      const products = await this.prisma.product.findMany({
+        where: {
+          supplier: { in: this.suppliers.enabledCodesList() },
+          availability: ProductAvailability.active,
+        },
+        orderBy: [
+          { priceSyncAttemptedAt: { sort: 'asc', nulls: 'first' } },
+          { id: 'asc' },
+        ],
+        take: callBudget,
+      });
+
+      this.logger.log(
+        `PriceSync started. candidates=${products.length} budget=${callBudget}`,
+      );
+
+      let refreshed = 0;
+      let changed = 0;
+      let missing = 0;
+
+      for (const product of products) {
+        if (lock.lost) {
+          this.logger.warn(
+            `PriceSync stopped early (lost lock) after ${refreshed} products`,
+          );
+          break;
+        }
+        const adapter = this.suppliers.get(product.supplier);
+        if (!adapter) continue;
+
+        // Raw so `updatedAt` keeps meaning "content changed".
+        await this.prisma.$executeRaw`
+          UPDATE "Product" SET "priceSyncAttemptedAt" = ${new Date()}
+          WHERE "id" = ${product.id}
+        `;
+
+        let fetched: SupplierProduct | null;
+        try {
+          fetched = await adapter.getBySku(
+            product.supplierSku,
+            'large',
+            'background',
+          );
+        } catch (e) {
+          if (e instanceof SupplierRateLimitError) {
+            this.logger.warn(
+              `PriceSync stopped early (rate limited) after ${refreshed} products`,
+            );
+            break;
+          }
+          if (e instanceof SupplierUnavailableError) {
+            this.logger.warn(
+              `PriceSync stopped early (${e.message}) after ${refreshed} products`,
+            );
+            break;
+          }
+          const msg = (e as Error).message ?? String(e);
+          this.logger.warn(
+            `PriceSync failed for ${product.supplierKey}: ${msg}`,
+          );
+          continue;
+        }
+
+        if (!fetched) {
+          missing += 1;
+          continue;
+        }
+
+        if (await this.applySnapshot(product, fetched)) {
+          changed += 1;
+        }
+        refreshed += 1;
+
+        await new Promise((r) => setTimeout(r, callDelayMs));
+      }
+
+      this.logger.log(
+        `PriceSync finished. refreshed=${refreshed} changed=${changed} missing=${missing}`,
+      );
+    } catch (error) {
+      this.logger.error('PriceSync failed', error as Error);
+    } finally {
+      await this.locks.release(lock);
+    }
+  }
+
+  // Saves the fresh payload and appends a history row when prices or stock
+  // differ from the last recorded entry. Returns true on change.
+  private async applySnapshot(product: Product, fetched: SupplierProduct) {
+    const raw = fetched.raw ?? fetched;
+    const next: PriceSnapshot = {
+      prices: extractFarnellPrices(raw),
+      stock: extractFarnellStock(raw),
+    };
+
+    const last = await this.prisma.productPriceHistory.findFirst({
+      where: { productId: product.id },
+      orderBy: { recordedAt: 'desc' },
+    });
+
+    const isChanged =
+      !last ||
+      !sameSnapshot(next, {
+        prices: last.prices as FarnellPriceBreak[],
+        stock: {
+          level: last.stockLevel ?? undefined,
+          status: last.stockStatus ?? undefined,
+          leastLeadTime: last.leastLeadTime ?? undefined,
+        },
+      });
+
+    await this.products.save([fetched]);
+    if (isChanged) {
+      await this.prisma.productPriceHistory.create({
+        data: {
+          productId: product.id,
+          prices: toInputJsonValue(next.prices),
+          stockLevel: next.stock?.level ?? null,
+          stockStatus: next.stock?.status ?? null,
+          leastLeadTime: next.stock?.leastLeadTime ?? null,
+        },
+      });
+    }
+    return isChanged;
+  }
+}
+
+function sameSnapshot(a: PriceSnapshot, b: PriceSnapshot): boolean {
+  const priceKey = (p: FarnellPriceBreak[]) =>
+    JSON.stringify(
+      p.map((x) => [x.from ?? null, x.to ?? null, x.cost ?? null]),
+    );
+
+  return (
+    priceKey(a.prices) === priceKey(b.prices) &&
+    (a.stock?.level ?? null) === (b.stock?.level ?? null) &&
+    (a.stock?.status ?? null) === (b.stock?.status ?? null) &&
+    (a.stock?.leastLeadTime ?? null) === (b.stock?.leastLeadTime ?? null)
+  );
+}
@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Role, SyncProfile, SyncRun, SyncTrigger } from '@prisma/client';
+import { validateCronExpression } from 'cron';
+import { Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import {
+  CurrentPrincipal,
+  RequireScopes,
+  Roles,
+} from '../auth/auth.decorators';
+import {
+  parseSupplierCode,
+  SupplierRegistry,
+} from '../suppliers/supplier-registry';
+import { CatalogSyncJob, SyncAlreadyRunningError } from './catalog-sync.job';
+import {
+  SyncProfileInput,
+  SyncProfilesService,
+  SyncProfileView,
+} from './sync-profiles.service';
+
+// The element14 search API returns at most 100 results per call.
+const MAX_PAGE_SIZE = 100;
+
+@Controller('/admin/sync-profiles')
+@RequireScopes(Scope.sync)
+export class SyncProfilesController {
+  constructor(
+    private readonly profiles: SyncProfilesService,
+    private readonly suppliers: SupplierRegistry,
+    private readonly catalogSync: CatalogSyncJob,
+  ) {}
+
+  @Get()
+  listProfiles(
+    @Query('supplier') supplier?: string,
+  ): Promise<SyncProfileView[]> {
+    return this.profiles.list(parseSupplierCode(supplier) ?? undefined);
+  }
+
+  @Get('/:id')
+  getProfile(@Param('id') id: string): Promise<SyncProfileView> {
+    return this.profiles.view(id);
+  }
+
+  // Body: { name, supplier, term, filter?, targetTotal?, pageSize?,
+  //         maxPages?, cron?, enabled? }
+  @Post()
+  @Roles(Role.admin)
+  createProfile(@Body() body: unknown): Promise<SyncProfileView> {
+    const input = normalizeProfileBody(body);
+    const { name, supplier, term } = input;
+    if (!name || !supplier || !term) {
+      throw new BadRequestException('name, supplier and term are required');
+    }
+    return this.profiles.create({ ...input, name, supplier, term });
+  }
+
+  @Patch('/:id')
+  @Roles(Role.admin)
+  updateProfile(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<SyncProfileView> {
+    return this.profiles.update(id, normalizeProfileBody(body));
+  }
+
+  @Delete('/:id')
+  @Roles(Role.admin)
+  deleteProfile(@Param('id') id: string): Promise<SyncProfile> {
+    return this.profiles.delete(id);
+  }
+
+  // Queues a run now, whether or not the profile has a schedule. 409 while
+  // a run of the profile is in progress on any instance.
+  @Post('/:id/run')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Roles(Role.admin)
+  async runProfile(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<{ runId: string; run: SyncRun }> {
+    const profile = await this.profiles.get(id);
+    if (!this.suppliers.isEnabled(profile.supplier)) {
+      throw new BadRequestException(
+        `Supplier not enabled: ${profile.supplier}`,
+      );
+    }
+    try {
+      const run = await this.catalogSync.enqueue(
+        profile,
+        SyncTrigger.manual,
+        principal ? `${principal.role}:${principal.name}` : undefined,
+      );
+      return { runId: run.id, run };
+    } catch (e) {
+      if (e instanceof SyncAlreadyRunningError) {
+        throw new ConflictException(e.message);
+      }
+      throw e;
+    }
+  }
+}
+
+function normalizeProfileBody(body: unknown): SyncProfileInput {
+  const obj = isRecord(body) ? body : {};
+  const input: SyncProfileInput = {};
+
+  for (const key of ['name', 'term'] as const) {
+    if (obj[key] === undefined) continue;
+    const value = typeof obj[key] === 'string' ? obj[key].trim() : '';
+    if (!value) throw new BadRequestException(`${key} must be a string`);
+    input[key] = value;
+  }
+  if (obj.supplier !== undefined) {
+    const supplier = parseSupplierCode(
+      typeof obj.supplier === 'string' ? obj.supplier : undefined,
+    );
+    if (!supplier) throw new BadRequestException('Unknown supplier');
+    input.supplier = supplier;
+  }
+  if (obj.enabled !== undefined) {
+    if (typeof obj.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+    input.enabled = obj.enabled;
+  }
+
+  input.filter = optionalString(obj, 'filter');
+  input.cron = optionalString(obj, 'cron');
+  if (input.cron) {
+    const { valid, error } = validateCronExpression(input.cron);
+    if (!valid) {
+      throw new BadRequestException(
+        `cron is not a valid cron expression: ${error?.message ?? input.cron}`,
+      );
+    }
+  }
+
+  input.targetTotal = optionalInt(obj, 'targetTotal', 1);
+  input.pageSize = optionalInt(obj, 'pageSize', 1, MAX_PAGE_SIZE);
+  input.maxPages = optionalInt(obj, 'maxPages', 1);
+
+  return input;
+}
+
+// undefined: leave unchanged; null or '': clear.
+function optionalString(
+  obj: Record<string, unknown>,
+  key: string,
+): string | null | undefined {
+  const v = obj[key];
+  if (v === undefined) return undefined;
+  if (v === null) return null;
+  if (typeof v !== 'string') {
+    throw new BadRequestException(`${key} must be a string`);
+  }
+  return v.trim() || null;
+}
+
+function optionalInt(
+  obj: Record<string, unknown>,
+  key: string,
+  min: number,
+  max?: number,
+): number | null | undefined {
+  const v = obj[key];
+  if (v === undefined) return undefined;
+  if (v === null || v === '') return null;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < min || (max !== undefined && n > max)) {
+    throw new BadRequestException(
+      `${key} must be an integer between ${min} and ${max ?? 'any'}`,
+    );
+  }
+  return n;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
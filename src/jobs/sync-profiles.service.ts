@@ -0,0 +1,106 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, SupplierCode, SyncProfile } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SyncScheduler } from './sync-scheduler';
+
+export type SyncProfileInput = {
+  name?: string;
+  supplier?: SupplierCode;
+  term?: string;
+  filter?: string | null;
+  targetTotal?: number | null;
+  pageSize?: number | null;
+  maxPages?: number | null;
+  cron?: string | null;
+  enabled?: boolean;
+};
+
+export type SyncProfileView = SyncProfile & { nextRunAt: Date | null };
+
+@Injectable()
+export class SyncProfilesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly scheduler: SyncScheduler,
+  ) {}
+
+  async list(supplier?: SupplierCode): Promise<SyncProfileView[]> {
+    const profiles = await this.prisma.syncProfile.findMany({
+      where: supplier ? { supplier } : {},
+      orderBy: { name: 'asc' },
+    });
+    return profiles.map((p) => this.toView(p));
+  }
+
+  async get(id: string): Promise<SyncProfile> {
+    const profile = await this.prisma.syncProfile.findUnique({ where: { id } });
+    if (!profile) throw new NotFoundException(`Sync profile not found: ${id}`);
+    return profile;
+  }
+
+  async view(id: string): Promise<SyncProfileView> {
+    return this.toView(await this.get(id));
+  }
+
+  enabledFor(supplier: SupplierCode): Promise<SyncProfile[]> {
+    return this.prisma.syncProfile.findMany({
+      where: { supplier, enabled: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async create(
+    input: SyncProfileInput & {
+      name: string;
+      supplier: SupplierCode;
+      term: string;
+    },
+  ): Promise<SyncProfileView> {
+    const profile = await this.write(() =>
+      this.prisma.syncProfile.create({ data: input }),
+    );
+    this.scheduler.apply(profile);
+    return this.toView(profile);
+  }
+
+  async update(id: string, input: SyncProfileInput): Promise<SyncProfileView> {
+    await this.get(id);
+    const profile = await this.write(() =>
+      this.prisma.syncProfile.update({ where: { id }, data: input }),
+    );
+    this.scheduler.apply(profile);
+    return this.toView(profile);
+  }
+
+  // Past runs keep their stored term and filter; only the link is cleared.
+  async delete(id: string): Promise<SyncProfile> {
+    await this.get(id);
+    const profile = await this.prisma.syncProfile.delete({ where: { id } });
+    this.scheduler.remove(id);
+    return profile;
+  }
+
+  private toView(profile: SyncProfile): SyncProfileView {
+    return { ...profile, nextRunAt: this.scheduler.nextRunAt(profile.id) };
+  }
+
+  private async write(write: () => Promise<SyncProfile>): Promise<SyncProfile> {
+    try {
+      return await write();
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Another sync profile already has this name',
+        );
+      }
+      throw e;
+    }
+  }
+}
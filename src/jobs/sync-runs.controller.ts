@@ -0,0 +1,128 @@
+import {
+  ConflictException,
+  Controller,
+  Get,
+  MessageEvent,
+  Param,
+  Post,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import { Role, SyncRun, SyncRunStatus, SyncTrigger } from '@prisma/client';
+import { defer, from, map, Observable } from 'rxjs';
+import { Scope } from '../auth/api-key';
+import { RequireScopes, Roles } from '../auth/auth.decorators';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import { CatalogSyncJob, SyncProgressEvent } from './catalog-sync.job';
+import { SyncRunsService } from './sync-runs.service';
+
+@Controller('/admin/sync/runs')
+@RequireScopes(Scope.sync)
+export class SyncRunsController {
+  constructor(
+    private readonly syncRuns: SyncRunsService,
+    private readonly catalogSync: CatalogSyncJob,
+  ) {}
+
+  // Newest first, without error details, e.g.
+  // /admin/sync/runs?supplier=farnell&status=failed&trigger=cron
+  @Get()
+  async listRuns(
+    @Query('supplier') supplier?: string,
+    @Query('profileId') profileId?: string,
+    @Query('status') status?: string,
+    @Query('trigger') trigger?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(100, Math.floor(Number(limit))))
+      : 20;
+    const safeOffset = Number.isFinite(Number(offset))
+      ? Math.max(0, Math.floor(Number(offset)))
+      : 0;
+
+    const [total, items] = await this.syncRuns.list({
+      supplier: parseSupplierCode(supplier) ?? undefined,
+      profileId: profileId?.trim() || undefined,
+      status: Object.values(SyncRunStatus).find((s) => s === status),
+      trigger: Object.values(SyncTrigger).find((t) => t === trigger),
+      limit: safeLimit,
+      offset: safeOffset,
+    });
+
+    return {
+      count: items.length,
+      total,
+      limit: safeLimit,
+      offset: safeOffset,
+      items,
+    };
+  }
+
+  @Get('/:id')
+  getRun(@Param('id') id: string): Promise<SyncRun> {
+    return this.syncRuns.get(id);
+  }
+
+  // Server-Sent Events: `progress` after every page and batch, then one
+  // `done` event with the final status before the stream closes. A run that
+  // is not live here gets its stored state as a single event. Browsers' built-in
+  // EventSource cannot send the API key header; use a fetch-based client.
+  @Sse('/:id/events')
+  streamRun(@Param('id') id: string): Observable<MessageEvent> {
+    return defer(
+      () =>
+        this.catalogSync.events(id) ??
+        from(this.syncRuns.get(id)).pipe(map(toFinalEvent)),
+    ).pipe(
+      map((event) => ({
+        type: event.phase === 'done' ? 'done' : 'progress',
+        data: event,
+      })),
+    );
+  }
+
+  // Queued runs are dropped; a running one stops after the current page or
+  // batch, keeping what it stored, and ends as `cancelled`. Works from any
+  // instance: the request is stored on the run, and this process also stops
+  // the run at once when it holds it.
+  @Post('/:id/cancel')
+  @Roles(Role.admin)
+  async cancelRun(@Param('id') id: string): Promise<SyncRun> {
+    if (!(await this.syncRuns.requestCancel(id))) {
+      const run = await this.syncRuns.get(id);
+      throw new ConflictException(`Sync run ${id} is already ${run.status}`);
+    }
+    await this.catalogSync.cancel(id);
+    return this.syncRuns.get(id);
+  }
+}
+
+// Stored state of a run that has no live stream here: finished, or owned
+// by another process.
+function toFinalEvent(run: SyncRun): SyncProgressEvent {
+  return {
+    runId: run.id,
+    supplier: run.supplier,
+    status: run.status,
+    phase: run.finishedAt
+      ? 'done'
+      : run.status === SyncRunStatus.queued
+        ? 'queued'
+        : 'fetch',
+    stats: {
+      pagesFetched: run.pagesFetched,
+      paginationMode: run.paginationMode,
+      itemsFetched: run.itemsFetched,
+      duplicates: run.duplicates,
+      created: run.created,
+      updated: run.updated,
+      unchanged: run.unchanged,
+      exhaustive: run.exhaustive,
+      markedUnavailable: run.markedUnavailable,
+      markedDiscontinued: run.markedDiscontinued,
+    },
+    errorCount: run.errorCount,
+  };
+}
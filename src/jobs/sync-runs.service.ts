@@ -0,0 +1,264 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import {
+  Prisma,
+  SupplierCode,
+  SyncProfile,
+  SyncRun,
+  SyncRunStatus,
+  SyncTrigger,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobLocksService } from './job-locks.service';
+
+export type SyncRunStats = {
+  pagesFetched: number;
+  paginationMode: string | null;
+  itemsFetched: number;
+  duplicates: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  exhaustive: boolean;
+  markedUnavailable: number;
+  markedDiscontinued: number;
+};
+
+export type SyncRunError = {
+  at: string;
+  stage: 'fetch' | 'upsert' | 'run';
+  message: string;
+  supplierSku?: string;
+};
+
+export type SyncRunListFilter = {
+  supplier?: SupplierCode;
+  profileId?: string;
+  status?: SyncRunStatus;
+  trigger?: SyncTrigger;
+  limit: number;
+  offset: number;
+};
+
+// Only the first errors are stored; errorCount keeps the real total.
+const MAX_STORED_ERRORS = 50;
+
+// The list view leaves out the error details.
+export const syncRunSummarySelect = {
+  id: true,
+  supplier: true,
+  trigger: true,
+  status: true,
+  profileId: true,
+  term: true,
+  filter: true,
+  requestedBy: true,
+  queuedAt: true,
+  startedAt: true,
+  finishedAt: true,
+  pagesFetched: true,
+  paginationMode: true,
+  itemsFetched: true,
+  duplicates: true,
+  created: true,
+  updated: true,
+  unchanged: true,
+  exhaustive: true,
+  markedUnavailable: true,
+  markedDiscontinued: true,
+  errorCount: true,
+} satisfies Prisma.SyncRunSelect;
+
+export function emptySyncStats(): SyncRunStats {
+  return {
+    pagesFetched: 0,
+    paginationMode: null,
+    itemsFetched: 0,
+    duplicates: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    exhaustive: false,
+    markedUnavailable: 0,
+    markedDiscontinued: 0,
+  };
+}
+
+@Injectable()
+export class SyncRunsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SyncRunsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly locks: JobLocksService,
+  ) {}
+
+  // The queue lives in memory: runs still queued or running at startup were
+  // cut short by a restart, unless another instance holds their lock.
+  async onApplicationBootstrap() {
+    const live = await this.locks.liveRunIds();
+    const count = await this.interruptWhere(
+      { id: { notIn: live } },
+      'Interrupted by a restart',
+    );
+    if (count) {
+      this.logger.warn(`Marked ${count} interrupted sync run(s) as failed`);
+    }
+  }
+
+  // A run whose lock expired without being released.
+  async interrupt(id: string, message: string): Promise<void> {
+    if (await this.interruptWhere({ id }, message)) {
+      this.logger.warn(`Marked sync run ${id} as failed: ${message}`);
+    }
+  }
+
+  // The profile's term and filter are copied so history survives profile
+  // edits.
+  queue(
+    profile: SyncProfile,
+    trigger: SyncTrigger,
+    requestedBy?: string,
+  ): Promise<SyncRun> {
+    return this.prisma.syncRun.create({
+      data: {
+        supplier: profile.supplier,
+        profileId: profile.id,
+        term: profile.term,
+        filter: profile.filter,
+        trigger,
+        requestedBy,
+        status: SyncRunStatus.queued,
+      },
+    });
+  }
+
+  findQueued(profileId: string): Promise<SyncRun | null> {
+    return this.prisma.syncRun.findFirst({
+      where: { profileId, status: SyncRunStatus.queued },
+      orderBy: { queuedAt: 'asc' },
+    });
+  }
+
+  start(id: string): Promise<SyncRun> {
+    return this.prisma.syncRun.update({
+      where: { id },
+      data: { status: SyncRunStatus.running, startedAt: new Date() },
+    });
+  }
+
+  // Only a run that has not started yet; false when it already left the
+  // queue.
+  async cancelQueued(id: string): Promise<boolean> {
+    const { count } = await this.prisma.syncRun.updateMany({
+      where: { id, status: SyncRunStatus.queued },
+      data: { status: SyncRunStatus.cancelled, finishedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  // Marks a queued or running run for cancellation; false when it is
+  // already over.
+  async requestCancel(id: string): Promise<boolean> {
+    const { count } = await this.prisma.syncRun.updateMany({
+      where: {
+        id,
+        status: { in: [SyncRunStatus.queued, SyncRunStatus.running] },
+      },
+      data: { cancelRequestedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  async cancelRequested(id: string): Promise<boolean> {
+    const run = await this.prisma.syncRun.findUnique({
+      where: { id },
+      select: { cancelRequestedAt: true },
+    });
+    return !!run?.cancelRequestedAt;
+  }
+
+  async progress(id: string, stats: SyncRunStats): Promise<void> {
+    await this.prisma.syncRun.update({ where: { id }, data: stats });
+  }
+
+  // Without an `outcome` the status follows from the errors: none is a
+  // success, any is partial.
+  finish(
+    id: string,
+    stats: SyncRunStats,
+    errors: SyncRunError[],
+    outcome?: 'failed' | 'cancelled',
+  ): Promise<SyncRun> {
+    const status =
+      outcome ??
+      (errors.length ? SyncRunStatus.partial : SyncRunStatus.succeeded);
+
+    return this.prisma.syncRun.update({
+      where: { id },
+      data: {
+        ...stats,
+        status,
+        finishedAt: new Date(),
+        errorCount: errors.length,
+        errors: errors.slice(0, MAX_STORED_ERRORS),
+      },
+    });
+  }
+
+  list(filter: SyncRunListFilter) {
+    const where: Prisma.SyncRunWhereInput = {
+      ...(filter.supplier ? { supplier: filter.supplier } : {}),
+      ...(filter.profileId ? { profileId: filter.profileId } : {}),
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.trigger ? { trigger: filter.trigger } : {}),
+    };
+
+    return Promise.all([
+      this.prisma.syncRun.count({ where }),
+      this.prisma.syncRun.findMany({
+        where,
+        select: syncRunSummarySelect,
+        orderBy: { startedAt: 'desc' },
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+    ]);
+  }
+
+  async get(id: string): Promise<SyncRun> {
+    const run = await this.prisma.syncRun.findUnique({ where: { id } });
+    if (!run) throw new NotFoundException(`Sync run not found: ${id}`);
+    return run;
+  }
+
+  private async interruptWhere(
+    where: Prisma.SyncRunWhereInput,
+    message: string,
+  ): Promise<number> {
+    const { count } = await this.prisma.syncRun.updateMany({
+      where: {
+        ...where,
+        status: { in: [SyncRunStatus.queued, SyncRunStatus.running] },
+      },
+      data: {
+        status: SyncRunStatus.failed,
+        finishedAt: new Date(),
+        // Errors are only written when a run finishes, so nothing is lost.
+        errorCount: 1,
+        errors: [
+          {
+            at: new Date().toISOString(),
+            stage: 'run',
+            message,
+          } satisfies SyncRunError,
+        ],
+      },
+    });
+    return count;
+  }
+}
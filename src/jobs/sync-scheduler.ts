@@ -0,0 +1,112 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { SyncProfile, SyncTrigger } from '@prisma/client';
+import { CronJob } from 'cron';
+import { PrismaService } from '../prisma/prisma.service';
+import { SupplierRegistry } from '../suppliers/supplier-registry';
+import { CatalogSyncJob, SyncAlreadyRunningError } from './catalog-sync.job';
+
+const JOB_PREFIX = 'sync-profile:';
+
+// Keeps one cron job per enabled, scheduled sync profile. Profile writes
+// call `apply`/`remove`, so schedule changes take effect without a restart.
+@Injectable()
+export class SyncScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SyncScheduler.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly suppliers: SupplierRegistry,
+    private readonly registry: SchedulerRegistry,
+    private readonly catalogSync: CatalogSyncJob,
+  ) {}
+
+  async onApplicationBootstrap() {
+    await this.seedFromEnv();
+    const profiles = await this.prisma.syncProfile.findMany();
+    profiles.forEach((p) => this.apply(p));
+  }
+
+  apply(profile: SyncProfile) {
+    this.remove(profile.id);
+    if (!profile.enabled || !profile.cron) return;
+
+    const job = CronJob.from({
+      cronTime: profile.cron,
+      onTick: () => void this.tick(profile.id),
+    });
+    this.registry.addCronJob(JOB_PREFIX + profile.id, job);
+    job.start();
+    this.logger.log(
+      `Scheduled sync profile ${profile.name} (${profile.cron}), next ${job.nextDate().toISO()}`,
+    );
+  }
+
+  remove(profileId: string) {
+    const name = JOB_PREFIX + profileId;
+    if (this.registry.doesExist('cron', name)) {
+      this.registry.deleteCronJob(name);
+    }
+  }
+
+  nextRunAt(profileId: string): Date | null {
+    const name = JOB_PREFIX + profileId;
+    if (!this.registry.doesExist('cron', name)) return null;
+    return this.registry.getCronJob(name).nextDate().toJSDate();
+  }
+
+  // The profile is re-read so a tick never runs stale settings.
+  private async tick(profileId: string) {
+    try {
+      const profile = await this.prisma.syncProfile.findUnique({
+        where: { id: profileId },
+      });
+      if (!profile?.enabled) return;
+      if (!this.suppliers.isEnabled(profile.supplier)) {
+        this.logger.warn(
+          `Sync profile ${profile.name} skipped: supplier ${profile.supplier} not enabled`,
+        );
+        return;
+      }
+      await this.catalogSync.enqueue(profile, SyncTrigger.cron);
+    } catch (error) {
+      // Every instance fires the same schedule; only one gets to run it.
+      if (error instanceof SyncAlreadyRunningError) {
+        this.logger.log(`Scheduled sync skipped: ${error.message}`);
+        return;
+      }
+      this.logger.error(
+        `Scheduled sync for profile ${profileId} failed to queue`,
+        error as Error,
+      );
+    }
+  }
+
+  // First start after upgrading: turn the CATALOG_SYNC_<SUPPLIER>_TERM and
+  // CATALOG_SYNC_CRON settings into one profile per enabled supplier.
+  // Instances booting together may both get here; names are unique, so the
+  // second insert is skipped rather than failing startup.
+  private async seedFromEnv() {
+    if (await this.prisma.syncProfile.count()) return;
+
+    const cron = this.config.get<string>('CATALOG_SYNC_CRON') || '0 2 * * *';
+    const data = this.suppliers.enabled().map((adapter) => ({
+      name: `${adapter.code}-default`,
+      supplier: adapter.code,
+      term:
+        this.config.get<string>(
+          `CATALOG_SYNC_${adapter.code.toUpperCase()}_TERM`,
+        ) ?? 'any:raspberry pi',
+      cron,
+    }));
+    const { count } = await this.prisma.syncProfile.createMany({
+      data,
+      skipDuplicates: true,
+    });
+    if (count) {
+      this.logger.log(`Created ${count} default sync profile(s) from env`);
+    }
+  }
+}
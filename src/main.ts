@@ -7,10 +7,13 @@ async function bootstrap() {
     .split(',')
     .map((v) => v.trim())
     .filter(Boolean);
-  app.enableCors({
-    origin: corsOrigins.length ? corsOrigins : true,
-    credentials: true,
-  });
+  // Credentials are only allowed for an explicit origin list; auth uses API
+  // key headers, so open CORS never needs cookies.
+  app.enableCors(
+    corsOrigins.length
+      ? { origin: corsOrigins, credentials: true }
+      : { origin: true, credentials: false },
+  );
   const port = process.env.PORT || 3030;
   await app.listen(port);
   console.log(`API running on http://localhost:${port}`);
@@ -0,0 +1,45 @@
+import { OrderStatus } from '@prisma/client';
+import { canTransition, isTerminal, parseOrderStatus } from './order-status';
+
+describe('canTransition', () => {
+  it.each([
+    [OrderStatus.pending, OrderStatus.confirmed],
+    [OrderStatus.confirmed, OrderStatus.sourced],
+    [OrderStatus.sourced, OrderStatus.shipped],
+    [OrderStatus.shipped, OrderStatus.delivered],
+    [OrderStatus.pending, OrderStatus.cancelled],
+    [OrderStatus.sourced, OrderStatus.cancelled],
+  ])('allows %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    [OrderStatus.pending, OrderStatus.shipped],
+    [OrderStatus.confirmed, OrderStatus.pending],
+    [OrderStatus.shipped, OrderStatus.cancelled],
+    [OrderStatus.delivered, OrderStatus.cancelled],
+    [OrderStatus.cancelled, OrderStatus.pending],
+    [OrderStatus.pending, OrderStatus.pending],
+  ])('rejects %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+});
+
+describe('isTerminal', () => {
+  it('treats delivered and cancelled as final', () => {
+    expect(isTerminal(OrderStatus.delivered)).toBe(true);
+    expect(isTerminal(OrderStatus.cancelled)).toBe(true);
+    expect(isTerminal(OrderStatus.shipped)).toBe(false);
+  });
+});
+
+describe('parseOrderStatus', () => {
+  it('accepts known statuses case-insensitively', () => {
+    expect(parseOrderStatus(' Shipped ')).toBe(OrderStatus.shipped);
+  });
+
+  it('ignores unknown values', () => {
+    expect(parseOrderStatus('lost')).toBeUndefined();
+    expect(parseOrderStatus(undefined)).toBeUndefined();
+  });
+});
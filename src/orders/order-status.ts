@@ -0,0 +1,25 @@
+import { OrderStatus } from '@prisma/client';
+
+// Allowed next states for each order status. Delivered and cancelled are
+// terminal; an order can be cancelled until it ships.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: [OrderStatus.confirmed, OrderStatus.cancelled],
+  confirmed: [OrderStatus.sourced, OrderStatus.cancelled],
+  sourced: [OrderStatus.shipped, OrderStatus.cancelled],
+  shipped: [OrderStatus.delivered],
+  delivered: [],
+  cancelled: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminal(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+export function parseOrderStatus(value?: string): OrderStatus | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return Object.values(OrderStatus).find((s) => s === normalized);
+}
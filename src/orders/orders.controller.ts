@@ -0,0 +1,290 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { hasScope, Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import {
+  CurrentPrincipal,
+  RequireScopes,
+  Roles,
+} from '../auth/auth.decorators';
+import { publishedOnly } from '../catalog/product-curation';
+import { parseCurrencyParam } from '../currency/exchange-rates.service';
+import { QuoteLineInput, QuotesService } from '../quotes/quotes.service';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import { parseOrderStatus } from './order-status';
+import {
+  CreateOrderInput,
+  OrderCustomerInput,
+  OrdersService,
+  OrderWithDetail,
+} from './orders.service';
+
+// Any valid API key; customer routes that show order data need one.
+const ANY_ROLE = Object.values(Role);
+
+type OrderListResponse = {
+  count: number;
+  total: number;
+  limit: number;
+  offset: number;
+  items: OrderWithDetail[];
+};
+
+@Controller()
+export class OrdersController {
+  constructor(
+    private readonly orders: OrdersService,
+    private readonly quotes: QuotesService,
+  ) {}
+
+  // Body: { customerName?, customerEmail?, reference?, notes?, currency?,
+  //         lines: [{ supplierSku, quantity, supplier? }] }
+  // The key places and owns the order; there is no guest checkout.
+  @Post('/orders')
+  @Roles(...ANY_ROLE)
+  createOrder(
+    @Body() body: unknown,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<OrderWithDetail> {
+    return this.orders.createFromCart(normalizeOrderBody(body), {
+      actor: actorOf(principal),
+      ownerKeyId: principal.keyId,
+      customerGroup: principal.customerGroup,
+      publishedOnly: publishedOnly(principal),
+    });
+  }
+
+  // The quote's owner orders it; staff with the orders scope may too.
+  @Post('/orders/from-quote/:quoteId')
+  @Roles(...ANY_ROLE)
+  async createOrderFromQuote(
+    @Param('quoteId') quoteId: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<OrderWithDetail> {
+    const quote = await this.quotes.get(quoteId);
+    if (
+      quote.ownerKeyId !== principal.keyId &&
+      !hasScope(principal.scopes, Scope.orders)
+    ) {
+      throw new NotFoundException(`Quote not found: ${quoteId}`);
+    }
+    return this.orders.createFromQuote(quoteId, {
+      actor: actorOf(principal),
+      ownerKeyId: principal.keyId,
+    });
+  }
+
+  // Orders placed with the caller's API key; staff use /admin/orders.
+  @Get('/orders')
+  @Roles(...ANY_ROLE)
+  async listCustomerOrders(
+    @CurrentPrincipal() principal: Principal,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<OrderListResponse> {
+    return this.listOrders({
+      ownerKeyId: principal.keyId,
+      status,
+      limit,
+      offset,
+    });
+  }
+
+  @Get('/orders/:id')
+  @Roles(...ANY_ROLE)
+  async getOrder(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<OrderWithDetail> {
+    return assertOrderAccess(await this.orders.get(id), principal);
+  }
+
+  // Body: { note? }
+  @Post('/orders/:id/cancel')
+  @Roles(...ANY_ROLE)
+  async cancelOrder(
+    @Param('id') id: string,
+    @Body() body: unknown,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<OrderWithDetail> {
+    assertOrderAccess(await this.orders.get(id), principal);
+    const obj = isRecord(body) ? body : {};
+    return this.orders.cancelByCustomer(id, {
+      note: asString(obj.note),
+      actor: actorOf(principal),
+    });
+  }
+
+  @Get('/admin/orders')
+  @RequireScopes(Scope.orders)
+  listAdminOrders(
+    @Query('status') status?: string,
+    @Query('customerEmail') customerEmail?: string,
+    @Query('quoteId') quoteId?: string,
+    @Query('createdFrom') createdFrom?: string,
+    @Query('createdTo') createdTo?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<OrderListResponse> {
+    return this.listOrders({
+      status,
+      customerEmail: customerEmail?.trim() || undefined,
+      quoteId: quoteId?.trim() || undefined,
+      createdFrom: parseDate(createdFrom, 'createdFrom'),
+      createdTo: parseDate(createdTo, 'createdTo'),
+      limit,
+      offset,
+    });
+  }
+
+  // Body: { customerName?, customerEmail?, reference?, notes? }
+  @Patch('/admin/orders/:id')
+  @RequireScopes(Scope.orders)
+  updateOrder(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<OrderWithDetail> {
+    return this.orders.update(id, normalizeCustomerFields(body));
+  }
+
+  // Body: { status, note? }
+  @Post('/admin/orders/:id/status')
+  @RequireScopes(Scope.orders)
+  transitionOrder(
+    @Param('id') id: string,
+    @Body() body: unknown,
+    @CurrentPrincipal() principal?: Principal,
+  ): Promise<OrderWithDetail> {
+    const obj = isRecord(body) ? body : {};
+    const status = parseOrderStatus(asString(obj.status));
+    if (!status) {
+      throw new BadRequestException('Unknown or missing order status');
+    }
+    return this.orders.transition(id, status, {
+      note: asString(obj.note),
+      actor: actorOf(principal),
+    });
+  }
+
+  private async listOrders(args: {
+    status?: string;
+    customerEmail?: string;
+    ownerKeyId?: string;
+    quoteId?: string;
+    createdFrom?: Date;
+    createdTo?: Date;
+    limit?: string;
+    offset?: string;
+  }): Promise<OrderListResponse> {
+    const safeLimit = Number.isFinite(Number(args.limit))
+      ? Math.max(1, Math.min(100, Math.floor(Number(args.limit))))
+      : 20;
+    const safeOffset = Number.isFinite(Number(args.offset))
+      ? Math.max(0, Math.floor(Number(args.offset)))
+      : 0;
+
+    const [total, items] = await this.orders.list({
+      status: parseOrderStatus(args.status),
+      customerEmail: args.customerEmail,
+      ownerKeyId: args.ownerKeyId,
+      quoteId: args.quoteId,
+      createdFrom: args.createdFrom,
+      createdTo: args.createdTo,
+      limit: safeLimit,
+      offset: safeOffset,
+    });
+
+    return {
+      count: items.length,
+      total,
+      limit: safeLimit,
+      offset: safeOffset,
+      items,
+    };
+  }
+}
+
+// Customers see the orders placed with their own key; the orders scope sees
+// all. Anyone else gets a 404, so order ids cannot be probed.
+function assertOrderAccess(
+  order: OrderWithDetail,
+  principal: Principal,
+): OrderWithDetail {
+  if (
+    order.ownerKeyId === principal.keyId ||
+    hasScope(principal.scopes, Scope.orders)
+  ) {
+    return order;
+  }
+  throw new NotFoundException(`Order not found: ${order.id}`);
+}
+
+// Recorded on order events; anonymous callers are customers.
+function actorOf(principal?: Principal): string {
+  return principal ? `${principal.role}:${principal.name}` : 'customer';
+}
+
+function normalizeCustomerFields(body: unknown): OrderCustomerInput {
+  const obj = isRecord(body) ? body : {};
+  return {
+    customerName: asString(obj.customerName),
+    customerEmail: asString(obj.customerEmail),
+    reference: asString(obj.reference),
+    notes: asString(obj.notes),
+  };
+}
+
+function normalizeOrderBody(body: unknown): CreateOrderInput {
+  const obj = isRecord(body) ? body : {};
+  const linesRaw = Array.isArray(obj.lines) ? obj.lines : [];
+
+  return {
+    ...normalizeCustomerFields(obj),
+    currency: parseCurrencyParam(asString(obj.currency)),
+    lines: linesRaw
+      .map((l) => normalizeOrderLine(l))
+      .filter((l): l is QuoteLineInput => l !== null),
+  };
+}
+
+function normalizeOrderLine(input: unknown): QuoteLineInput | null {
+  if (!isRecord(input)) return null;
+  const supplierSku = asString(input.supplierSku)?.trim();
+  const quantity = Number(input.quantity);
+  if (!supplierSku || !Number.isFinite(quantity) || quantity < 1) return null;
+
+  const supplier = parseSupplierCode(asString(input.supplier));
+  return {
+    supplierSku,
+    quantity: Math.floor(quantity),
+    ...(supplier ? { supplier } : {}),
+  };
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (!value?.trim()) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO date`);
+  }
+  return date;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v : undefined;
+}
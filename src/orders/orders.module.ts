@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../currency/currency.module';
+import { QuotesModule } from '../quotes/quotes.module';
+import { OrdersController } from './orders.controller';
+import { OrdersService } from './orders.service';
+
+@Module({
+  imports: [CurrencyModule, QuotesModule],
+  controllers: [OrdersController],
+  providers: [OrdersService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
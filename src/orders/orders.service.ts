@@ -0,0 +1,348 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrderStatus, Prisma, QuoteStatus } from '@prisma/client';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  QuoteLineInput,
+  QuotesService,
+  sumLineTotals,
+} from '../quotes/quotes.service';
+import { canTransition, isTerminal } from './order-status';
+
+export type OrderCustomerInput = {
+  customerName?: string;
+  customerEmail?: string;
+  reference?: string;
+  notes?: string;
+};
+
+export type CreateOrderInput = OrderCustomerInput & {
+  currency?: string;
+  lines: QuoteLineInput[];
+};
+
+export type OrderListFilter = {
+  status?: OrderStatus;
+  customerEmail?: string;
+  ownerKeyId?: string;
+  quoteId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  limit: number;
+  offset: number;
+};
+
+export type TransitionOptions = {
+  note?: string;
+  actor?: string;
+  // Only move the order while it is still in this status.
+  from?: OrderStatus;
+};
+
+// Who places an order: the event actor and the API key that owns it.
+export type OrderOrigin = {
+  actor?: string;
+  ownerKeyId?: string;
+};
+
+export const orderInclude = {
+  lines: { orderBy: { position: 'asc' } },
+  events: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.OrderInclude;
+
+export type OrderWithDetail = Prisma.OrderGetPayload<{
+  include: typeof orderInclude;
+}>;
+
+type OrderLineData = Prisma.OrderLineCreateManyOrderInput & {
+  lineTotal: Prisma.Decimal;
+};
+
+@Injectable()
+export class OrdersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly quotes: QuotesService,
+    private readonly rates: ExchangeRatesService,
+  ) {}
+
+  // Cart checkout: lines are priced against the current catalogue and the
+  // resulting prices are frozen on the order.
+  async createFromCart(
+    input: CreateOrderInput,
+    opts: OrderOrigin & {
+      customerGroup?: string | null;
+      publishedOnly?: boolean;
+    } = {},
+  ): Promise<OrderWithDetail> {
+    if (input.lines.length === 0) {
+      throw new BadRequestException('Order needs at least one line');
+    }
+
+    const currency = input.currency ?? this.rates.defaultCurrency();
+    const priced = await this.quotes.priceLines(
+      input.lines,
+      { customerGroup: opts.customerGroup },
+      currency,
+      opts.publishedOnly,
+    );
+    const lines: OrderLineData[] = priced.map((l) => ({
+      position: l.position,
+      supplierKey: l.supplierKey,
+      supplier: l.supplier,
+      supplierSku: l.supplierSku,
+      name: l.name,
+      manufacturer: l.manufacturer,
+      mpn: l.mpn,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+      lineTotal: l.lineTotal,
+    }));
+
+    return this.createOrder(input, lines, {
+      currency,
+      actor: opts.actor,
+      ownerKeyId: opts.ownerKeyId,
+    });
+  }
+
+  // Accepted quotes convert once; the quote's snapshot prices carry over.
+  async createFromQuote(
+    quoteId: string,
+    origin: OrderOrigin = {},
+  ): Promise<OrderWithDetail> {
+    const quote = await this.quotes.get(quoteId);
+    if (quote.status !== QuoteStatus.accepted) {
+      throw new ConflictException(
+        `Quote ${quote.number} must be accepted before ordering (status ${quote.status})`,
+      );
+    }
+
+    const existing = await this.prisma.order.findUnique({
+      where: { quoteId },
+      select: { number: true },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Quote ${quote.number} already converted to order ${existing.number}`,
+      );
+    }
+
+    const orphaned = quote.lines.filter((l) => !l.productId);
+    if (orphaned.length) {
+      throw new ConflictException({
+        message: 'Some quoted products are no longer in the catalogue',
+        missing: orphaned.map((l) => l.supplierSku),
+      });
+    }
+
+    const lines: OrderLineData[] = quote.lines.map((l) => ({
+      position: l.position,
+      supplierKey: l.supplierKey,
+      supplier: l.supplier,
+      supplierSku: l.supplierSku,
+      name: l.name,
+      manufacturer: l.manufacturer,
+      mpn: l.mpn,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+      lineTotal: l.lineTotal,
+    }));
+
+    return this.createOrder(
+      {
+        customerName: quote.customerName ?? undefined,
+        customerEmail: quote.customerEmail ?? undefined,
+        reference: quote.reference ?? undefined,
+        notes: quote.notes ?? undefined,
+      },
+      lines,
+      {
+        quoteId,
+        currency: quote.currency,
+        actor: origin.actor,
+        // The order belongs to whoever the quote belongs to.
+        ownerKeyId: quote.ownerKeyId ?? origin.ownerKeyId,
+        note: `Created from quote ${quote.number}`,
+      },
+    );
+  }
+
+  list(filter: OrderListFilter) {
+    const where: Prisma.OrderWhereInput = {
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.customerEmail
+        ? {
+            customerEmail: {
+              equals: filter.customerEmail,
+              mode: 'insensitive',
+            },
+          }
+        : {}),
+      ...(filter.ownerKeyId ? { ownerKeyId: filter.ownerKeyId } : {}),
+      ...(filter.quoteId ? { quoteId: filter.quoteId } : {}),
+      ...(filter.createdFrom || filter.createdTo
+        ? {
+            createdAt: {
+              ...(filter.createdFrom ? { gte: filter.createdFrom } : {}),
+              ...(filter.createdTo ? { lt: filter.createdTo } : {}),
+            },
+          }
+        : {}),
+    };
+
+    return Promise.all([
+      this.prisma.order.count({ where }),
+      this.prisma.order.findMany({
+        where,
+        include: orderInclude,
+        orderBy: { createdAt: 'desc' },
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+    ]);
+  }
+
+  async get(id: string): Promise<OrderWithDetail> {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      include: orderInclude,
+    });
+    if (!order) throw new NotFoundException(`Order not found: ${id}`);
+    return order;
+  }
+
+  // Customer and reference details stay editable until the order is closed.
+  // Lines and prices are frozen.
+  async update(
+    id: string,
+    input: OrderCustomerInput,
+  ): Promise<OrderWithDetail> {
+    const order = await this.get(id);
+    if (isTerminal(order.status)) {
+      throw new ConflictException(
+        `Cannot update order ${order.number} in status ${order.status}`,
+      );
+    }
+
+    return this.prisma.order.update({
+      where: { id },
+      data: {
+        customerName: input.customerName,
+        customerEmail: input.customerEmail,
+        reference: input.reference,
+        notes: input.notes,
+      },
+      include: orderInclude,
+    });
+  }
+
+  // Moves the order along the lifecycle and records the event. The status
+  // check is repeated in the update so concurrent transitions cannot both win.
+  async transition(
+    id: string,
+    to: OrderStatus,
+    opts: TransitionOptions = {},
+  ): Promise<OrderWithDetail> {
+    const order = await this.get(id);
+    if (opts.from && order.status !== opts.from) {
+      throw new ConflictException(
+        `Order ${order.number} is ${order.status}, no longer ${opts.from}`,
+      );
+    }
+    if (!canTransition(order.status, to)) {
+      throw new ConflictException(
+        `Cannot move order ${order.number} from ${order.status} to ${to}`,
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.order.updateMany({
+        where: { id, status: opts.from ?? order.status },
+        data: { status: to },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          `Order ${order.number} changed status concurrently; reload and retry`,
+        );
+      }
+      await tx.orderEvent.create({
+        data: {
+          orderId: id,
+          fromStatus: order.status,
+          toStatus: to,
+          note: opts.note,
+          actor: opts.actor,
+        },
+      });
+    });
+
+    return this.get(id);
+  }
+
+  // Customers may only withdraw an order before it is confirmed.
+  async cancelByCustomer(
+    id: string,
+    opts: TransitionOptions = {},
+  ): Promise<OrderWithDetail> {
+    const order = await this.get(id);
+    if (order.status !== OrderStatus.pending) {
+      throw new ConflictException(
+        `Order ${order.number} is ${order.status}; contact us to cancel`,
+      );
+    }
+    // Staff may confirm it in the meantime; the update only matches a
+    // pending order.
+    return this.transition(id, OrderStatus.cancelled, {
+      ...opts,
+      from: OrderStatus.pending,
+    });
+  }
+
+  private async createOrder(
+    customer: OrderCustomerInput,
+    lines: OrderLineData[],
+    opts: TransitionOptions & {
+      quoteId?: string;
+      currency: string;
+      ownerKeyId?: string;
+    },
+  ): Promise<OrderWithDetail> {
+    try {
+      return await this.prisma.order.create({
+        data: {
+          customerName: customer.customerName,
+          customerEmail: customer.customerEmail,
+          reference: customer.reference,
+          notes: customer.notes,
+          quoteId: opts.quoteId,
+          ownerKeyId: opts.ownerKeyId,
+          currency: opts.currency,
+          subtotal: sumLineTotals(lines),
+          lines: { createMany: { data: lines } },
+          events: {
+            create: {
+              toStatus: OrderStatus.pending,
+              note: opts.note,
+              actor: opts.actor,
+            },
+          },
+        },
+        include: orderInclude,
+      });
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        throw new ConflictException('Quote already converted to an order');
+      }
+      throw e;
+    }
+  }
+}
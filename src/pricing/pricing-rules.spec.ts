@@ -0,0 +1,106 @@
+import { PriceRounding, Prisma, SupplierCode } from '@prisma/client';
+import {
+  computeSellPrice,
+  explainRuleMismatch,
+  PricingRuleSpec,
+  roundPrice,
+  selectRule,
+} from './pricing-rules';
+
+const d = (v: number | string) => new Prisma.Decimal(v);
+
+function rule(overrides: Partial<PricingRuleSpec>): PricingRuleSpec {
+  return {
+    id: 'r',
+    name: 'rule',
+    priority: 100,
+    customerGroup: null,
+    supplier: null,
+    brand: null,
+    minCost: null,
+    maxCost: null,
+    markupPct: d(20),
+    minMarginPct: null,
+    roundingStep: null,
+    rounding: PriceRounding.nearest,
+    ...overrides,
+  };
+}
+
+const target = {
+  supplier: SupplierCode.farnell,
+  manufacturer: 'Multicomp',
+  cost: d('0.50'),
+};
+
+describe('computeSellPrice', () => {
+  it('applies the markup', () => {
+    expect(computeSellPrice(d(10), rule({})).toString()).toBe('12');
+  });
+
+  it('raises the price to meet the minimum margin', () => {
+    const price = computeSellPrice(
+      d(10),
+      rule({ markupPct: d(10), minMarginPct: d(20) }),
+    );
+    expect(price.toString()).toBe('12.5');
+  });
+
+  it('rounds to the configured step', () => {
+    const price = computeSellPrice(
+      d(1),
+      rule({ markupPct: d(6), roundingStep: d('0.05') }),
+    );
+    expect(price.toString()).toBe('1.05');
+  });
+
+  it('never rounds below the margin floor', () => {
+    const price = computeSellPrice(
+      d('1.02'),
+      rule({
+        markupPct: d(0),
+        minMarginPct: d(1),
+        roundingStep: d('0.05'),
+        rounding: PriceRounding.down,
+      }),
+    );
+    expect(price.toString()).toBe('1.05');
+  });
+});
+
+describe('roundPrice', () => {
+  it('keeps five decimals without a step', () => {
+    expect(
+      roundPrice(d('0.0123456'), null, PriceRounding.nearest).toString(),
+    ).toBe('0.01235');
+  });
+
+  it('rounds up to whole steps', () => {
+    expect(roundPrice(d('2.01'), d(1), PriceRounding.up).toString()).toBe('3');
+  });
+});
+
+describe('selectRule', () => {
+  it('picks the first matching rule in precedence order', () => {
+    const rules = [
+      rule({ id: 'vip', customerGroup: 'vip' }),
+      rule({ id: 'brand', brand: 'multicomp' }),
+      rule({ id: 'all' }),
+    ];
+    expect(selectRule(rules, target, {})?.id).toBe('brand');
+    expect(selectRule(rules, target, { customerGroup: 'vip' })?.id).toBe('vip');
+  });
+
+  it('matches price tiers with inclusive min and exclusive max', () => {
+    const cheap = rule({ maxCost: d('0.50') });
+    const mid = rule({ minCost: d('0.50'), maxCost: d(5) });
+    expect(explainRuleMismatch(cheap, target, {})).toBe('cost not below 0.5');
+    expect(explainRuleMismatch(mid, target, {})).toBeNull();
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(
+      selectRule([rule({ supplier: SupplierCode.newark })], target, {}),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { PriceRounding, Prisma, SupplierCode } from '@prisma/client';
+
+// Pure sell-price rules: matching, precedence and the markup arithmetic.
+
+export type PricingRuleSpec = {
+  id: string | null;
+  name: string;
+  priority: number;
+  customerGroup: string | null;
+  supplier: SupplierCode | null;
+  brand: string | null;
+  minCost: Prisma.Decimal | null;
+  maxCost: Prisma.Decimal | null;
+  markupPct: Prisma.Decimal;
+  minMarginPct: Prisma.Decimal | null;
+  roundingStep: Prisma.Decimal | null;
+  rounding: PriceRounding;
+};
+
+export type PricingContext = {
+  customerGroup?: string | null;
+};
+
+// What a rule is matched against: one price break of one product.
+export type PricingTarget = {
+  supplier: SupplierCode;
+  manufacturer: string | null;
+  cost: Prisma.Decimal;
+};
+
+// Sell prices carry the same precision as supplier costs unless a rule
+// rounds them to a coarser step.
+const SELL_PRICE_DECIMALS = 5;
+
+// Returns null when the rule applies, otherwise why it does not.
+export function explainRuleMismatch(
+  rule: PricingRuleSpec,
+  target: PricingTarget,
+  ctx: PricingContext,
+): string | null {
+  if (rule.customerGroup && rule.customerGroup !== ctx.customerGroup) {
+    return `customer group is not ${rule.customerGroup}`;
+  }
+  if (rule.supplier && rule.supplier !== target.supplier) {
+    return `supplier is not ${rule.supplier}`;
+  }
+  if (rule.brand && !sameBrand(rule.brand, target.manufacturer)) {
+    return `brand is not ${rule.brand}`;
+  }
+  if (rule.minCost && target.cost.lessThan(rule.minCost)) {
+    return `cost below ${rule.minCost.toString()}`;
+  }
+  if (rule.maxCost && target.cost.greaterThanOrEqualTo(rule.maxCost)) {
+    return `cost not below ${rule.maxCost.toString()}`;
+  }
+  return null;
+}
+
+// First matching rule wins; `rules` must already be in precedence order.
+export function selectRule<T extends PricingRuleSpec>(
+  rules: T[],
+  target: PricingTarget,
+  ctx: PricingContext,
+): T | null {
+  return (
+    rules.find((r) => explainRuleMismatch(r, target, ctx) === null) ?? null
+  );
+}
+
+// cost * (1 + markup), raised to meet the minimum margin (margin is
+// measured on the sell price), then rounded. Rounding never takes the price
+// back below the margin floor.
+export function computeSellPrice(
+  cost: Prisma.Decimal,
+  rule: Pick<
+    PricingRuleSpec,
+    'markupPct' | 'minMarginPct' | 'roundingStep' | 'rounding'
+  >,
+): Prisma.Decimal {
+  let price = cost.mul(rule.markupPct.div(100).add(1));
+
+  let floor = cost;
+  if (rule.minMarginPct && rule.minMarginPct.greaterThan(0)) {
+    const keep = new Prisma.Decimal(1).sub(rule.minMarginPct.div(100));
+    if (keep.greaterThan(0)) floor = Prisma.Decimal.max(floor, cost.div(keep));
+  }
+  price = Prisma.Decimal.max(price, floor);
+
+  const rounded = roundPrice(price, rule.roundingStep, rule.rounding);
+  if (rounded.lessThan(floor)) {
+    return roundPrice(floor, rule.roundingStep, PriceRounding.up);
+  }
+  return rounded;
+}
+
+export function roundPrice(
+  price: Prisma.Decimal,
+  step: Prisma.Decimal | null,
+  mode: PriceRounding,
+): Prisma.Decimal {
+  if (!step || step.lessThanOrEqualTo(0)) {
+    return price.toDecimalPlaces(
+      SELL_PRICE_DECIMALS,
+      mode === PriceRounding.down
+        ? Prisma.Decimal.ROUND_DOWN
+        : mode === PriceRounding.up
+          ? Prisma.Decimal.ROUND_UP
+          : Prisma.Decimal.ROUND_HALF_UP,
+    );
+  }
+
+  const steps = price.div(step);
+  const whole =
+    mode === PriceRounding.up
+      ? steps.ceil()
+      : mode === PriceRounding.down
+        ? steps.floor()
+        : steps.round();
+  return whole.mul(step).toDecimalPlaces(SELL_PRICE_DECIMALS);
+}
+
+// Margin on the sell price, in percent.
+export function marginPct(
+  cost: Prisma.Decimal,
+  price: Prisma.Decimal,
+): number | null {
+  if (price.lessThanOrEqualTo(0)) return null;
+  return price.sub(cost).div(price).mul(100).toDecimalPlaces(2).toNumber();
+}
+
+function sameBrand(ruleBrand: string, manufacturer: string | null): boolean {
+  return (
+    !!manufacturer &&
+    ruleBrand.trim().toLowerCase() === manufacturer.trim().toLowerCase()
+  );
+}
@@ -0,0 +1,267 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { PriceRounding, PricingRule, Role } from '@prisma/client';
+import { Scope } from '../auth/api-key';
+import { RequireScopes, Roles } from '../auth/auth.decorators';
+import { PrismaService } from '../prisma/prisma.service';
+import { selectPriceBreak } from '../quotes/quote-pricing';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import { PricingRuleInput, PricingService } from './pricing.service';
+
+@Controller('/admin/pricing')
+@RequireScopes(Scope.pricing)
+export class PricingController {
+  constructor(
+    private readonly pricing: PricingService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  @Get('/rules')
+  listRules(): Promise<PricingRule[]> {
+    return this.pricing.listRules();
+  }
+
+  // Body: { name, priority, markupPct, enabled?, customerGroup?, supplier?,
+  //         brand?, minCost?, maxCost?, minMarginPct?, roundingStep?,
+  //         rounding?: 'nearest' | 'up' | 'down' }
+  @Post('/rules')
+  @Roles(Role.admin)
+  createRule(@Body() body: unknown): Promise<PricingRule> {
+    const input = normalizeRuleBody(body);
+    const { name, priority, markupPct } = input;
+    if (!name || priority === undefined || markupPct === undefined) {
+      throw new BadRequestException(
+        'name, priority and markupPct are required',
+      );
+    }
+    return this.pricing.createRule({ ...input, name, priority, markupPct });
+  }
+
+  @Patch('/rules/:id')
+  @Roles(Role.admin)
+  updateRule(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<PricingRule> {
+    return this.pricing.updateRule(id, normalizeRuleBody(body));
+  }
+
+  @Delete('/rules/:id')
+  @Roles(Role.admin)
+  deleteRule(@Param('id') id: string): Promise<PricingRule> {
+    return this.pricing.deleteRule(id);
+  }
+
+  // Which rule prices a SKU for a customer, e.g.
+  // /admin/pricing/preview?supplierSku=1234567&customerGroup=trade&quantity=50
+  // `apiKeyId` uses the customer group of that key.
+  @Get('/preview')
+  async previewPrice(
+    @Query('supplierSku') supplierSku?: string,
+    @Query('supplier') supplier?: string,
+    @Query('customerGroup') customerGroup?: string,
+    @Query('apiKeyId') apiKeyId?: string,
+    @Query('quantity') quantity?: string,
+  ) {
+    const sku = supplierSku?.trim();
+    if (!sku) throw new BadRequestException('supplierSku is required');
+    const supplierCode = parseSupplierCode(supplier);
+
+    const product = await this.prisma.product.findFirst({
+      where: {
+        supplierSku: sku,
+        ...(supplierCode ? { supplier: supplierCode } : {}),
+      },
+      include: { priceBreaks: true },
+    });
+    if (!product) throw new NotFoundException(`Product not found: ${sku}`);
+
+    let group = customerGroup?.trim() || null;
+    if (apiKeyId?.trim()) {
+      const key = await this.prisma.apiKey.findUnique({
+        where: { id: apiKeyId.trim() },
+        select: { customerGroup: true },
+      });
+      if (!key) throw new NotFoundException(`API key not found: ${apiKeyId}`);
+      group = key.customerGroup;
+    }
+
+    const { breaks } = await this.pricing.explain(product, {
+      customerGroup: group,
+    });
+    const qty = Number(quantity);
+    const applied =
+      Number.isFinite(qty) && qty >= 1
+        ? selectPriceBreak(
+            breaks.map((b) => ({
+              ...b,
+              quantityFrom: b.from,
+              quantityTo: b.to ?? null,
+            })),
+            Math.floor(qty),
+          )
+        : null;
+
+    return {
+      product: {
+        id: product.id,
+        supplier: product.supplier,
+        supplierSku: product.supplierSku,
+        name: product.name,
+        manufacturer: product.manufacturer,
+      },
+      customerGroup: group,
+      ...(applied
+        ? {
+            quantity: Math.floor(qty),
+            applied: {
+              from: applied.from,
+              ...(applied.to !== undefined ? { to: applied.to } : {}),
+              cost: applied.cost,
+              price: applied.price,
+              marginPct: applied.marginPct,
+              rule: applied.rule,
+            },
+          }
+        : {}),
+      breaks,
+    };
+  }
+
+  // Recomputes stored list prices now instead of at the next hourly refresh,
+  // e.g. after importing exchange rates.
+  @Post('/list-prices/refresh')
+  @Roles(Role.admin)
+  async refreshListPrices(): Promise<{ changed: number }> {
+    const changed = await this.pricing.refreshAllListPricesLocked();
+    if (changed === null) {
+      throw new ConflictException('A list price refresh is already running');
+    }
+    return { changed };
+  }
+}
+
+function normalizeRuleBody(body: unknown): PricingRuleInput {
+  const obj = isRecord(body) ? body : {};
+  const input: PricingRuleInput = {};
+
+  if (obj.name !== undefined) {
+    const name = typeof obj.name === 'string' ? obj.name.trim() : '';
+    if (!name) throw new BadRequestException('name must be a string');
+    input.name = name;
+  }
+  if (obj.priority !== undefined) {
+    const priority = Number(obj.priority);
+    if (!Number.isInteger(priority)) {
+      throw new BadRequestException('priority must be an integer');
+    }
+    input.priority = priority;
+  }
+  if (obj.enabled !== undefined) {
+    if (typeof obj.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+    input.enabled = obj.enabled;
+  }
+  if (obj.markupPct !== undefined) {
+    input.markupPct = requireNumber(obj.markupPct, 'markupPct', -99.999);
+  }
+
+  input.customerGroup = optionalString(obj, 'customerGroup');
+  input.brand = optionalString(obj, 'brand');
+  if (obj.supplier !== undefined) {
+    if (obj.supplier === null) {
+      input.supplier = null;
+    } else {
+      const supplier = parseSupplierCode(
+        typeof obj.supplier === 'string' ? obj.supplier : undefined,
+      );
+      if (!supplier) throw new BadRequestException('Unknown supplier');
+      input.supplier = supplier;
+    }
+  }
+
+  input.minCost = optionalNumber(obj, 'minCost', 0);
+  input.maxCost = optionalNumber(obj, 'maxCost', 0);
+  input.minMarginPct = optionalNumber(obj, 'minMarginPct', 0, 99.999);
+  input.roundingStep = optionalNumber(obj, 'roundingStep', 0.00001);
+  if (
+    input.minCost !== undefined &&
+    input.maxCost !== undefined &&
+    input.minCost !== null &&
+    input.maxCost !== null &&
+    input.minCost >= input.maxCost
+  ) {
+    throw new BadRequestException('minCost must be below maxCost');
+  }
+
+  if (obj.rounding !== undefined) {
+    const rounding = Object.values(PriceRounding).find(
+      (r) => r === obj.rounding,
+    );
+    if (!rounding) {
+      throw new BadRequestException(
+        `rounding must be one of: ${Object.values(PriceRounding).join(', ')}`,
+      );
+    }
+    input.rounding = rounding;
+  }
+
+  return input;
+}
+
+// undefined: leave unchanged; null or '': clear.
+function optionalString(
+  obj: Record<string, unknown>,
+  key: string,
+): string | null | undefined {
+  const v = obj[key];
+  if (v === undefined) return undefined;
+  if (v === null) return null;
+  if (typeof v !== 'string') {
+    throw new BadRequestException(`${key} must be a string`);
+  }
+  return v.trim() || null;
+}
+
+function optionalNumber(
+  obj: Record<string, unknown>,
+  key: string,
+  min: number,
+  max?: number,
+): number | null | undefined {
+  const v = obj[key];
+  if (v === undefined) return undefined;
+  if (v === null || v === '') return null;
+  return requireNumber(v, key, min, max);
+}
+
+function requireNumber(
+  v: unknown,
+  key: string,
+  min: number,
+  max?: number,
+): number {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < min || (max !== undefined && n > max)) {
+    throw new BadRequestException(
+      `${key} must be a number between ${min} and ${max ?? 'any'}`,
+    );
+  }
+  return n;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
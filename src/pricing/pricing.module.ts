@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../currency/currency.module';
+import { JobLocksModule } from '../jobs/job-locks.module';
+import { PricingController } from './pricing.controller';
+import { PricingService } from './pricing.service';
+
+@Module({
+  imports: [CurrencyModule, JobLocksModule],
+  controllers: [PricingController],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
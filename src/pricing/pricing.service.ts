@@ -0,0 +1,506 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import {
+  PriceRounding,
+  PricingRule,
+  Prisma,
+  SupplierCode,
+} from '@prisma/client';
+import { ExchangeRateUsed } from '../currency/currency';
+import {
+  CurrencyConverter,
+  ExchangeRatesService,
+} from '../currency/exchange-rates.service';
+import { JobLocksService } from '../jobs/job-locks.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  computeSellPrice,
+  explainRuleMismatch,
+  marginPct,
+  PricingContext,
+  PricingRuleSpec,
+  selectRule,
+} from './pricing-rules';
+
+export type PricingRuleInput = {
+  name?: string;
+  priority?: number;
+  enabled?: boolean;
+  customerGroup?: string | null;
+  supplier?: SupplierCode | null;
+  brand?: string | null;
+  minCost?: number | null;
+  maxCost?: number | null;
+  markupPct?: number;
+  minMarginPct?: number | null;
+  roundingStep?: number | null;
+  rounding?: PriceRounding;
+};
+
+// Anything with supplier price breaks can be priced.
+export type PriceableProduct = {
+  id: string;
+  supplier: SupplierCode;
+  manufacturer: string | null;
+  priceBreaks: Array<{
+    quantityFrom: number;
+    quantityTo: number | null;
+    cost: Prisma.Decimal;
+    currency: string;
+  }>;
+};
+
+export type SellPriceBreak = {
+  quantityFrom: number;
+  quantityTo: number | null;
+  price: Prisma.Decimal;
+  currency: string;
+  ruleId: string | null;
+};
+
+export type SellPrice = {
+  from: number;
+  to?: number;
+  price: number;
+  currency: string;
+};
+
+// Sell prices keyed by product id. `currency` and `exchangeRates` are set
+// when prices were converted into a requested currency.
+export type PricedProducts = {
+  prices: Map<string, SellPrice[]>;
+  currency?: string;
+  exchangeRates: ExchangeRateUsed[];
+};
+
+// Products whose list price is recomputed per query.
+const LIST_PRICE_BATCH = 500;
+
+@Injectable()
+export class PricingService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PricingService.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly rates: ExchangeRatesService,
+    private readonly locks: JobLocksService,
+  ) {}
+
+  // Fills list prices left empty by the migration that added them (or by a
+  // missing exchange rate) without waiting for the hourly refresh. Runs
+  // after startup so it does not hold up the first requests.
+  async onApplicationBootstrap() {
+    const unpriced = await this.prisma.product.findFirst({
+      where: { listPrice: null, priceBreaks: { some: {} } },
+      select: { id: true },
+    });
+    if (unpriced) void this.refreshAllListPrices();
+  }
+
+  // Enabled rules in precedence order, with the configured default markup
+  // as the catch-all last rule.
+  async loadRules(): Promise<PricingRuleSpec[]> {
+    const rules = await this.prisma.pricingRule.findMany({
+      where: { enabled: true },
+      orderBy: { priority: 'asc' },
+    });
+    return [...rules, this.defaultRule()];
+  }
+
+  // Prices many products with one rules query, optionally converting into
+  // `currency`. Rules always apply to the supplier cost in its own currency.
+  async sellPrices(
+    products: PriceableProduct[],
+    ctx: PricingContext,
+    currency?: string,
+  ): Promise<PricedProducts> {
+    const rules = products.length ? await this.loadRules() : [];
+    const fx = currency ? await this.rates.converter(currency) : null;
+
+    const prices = new Map(
+      products.map((p) => [
+        p.id,
+        this.sellBreaksWith(rules, p, ctx).map((b) =>
+          toSellPrice(
+            fx
+              ? {
+                  ...b,
+                  price: fx.unitPrice(b.price, b.currency),
+                  currency: fx.currency,
+                }
+              : b,
+          ),
+        ),
+      ]),
+    );
+
+    return {
+      prices,
+      ...(fx ? { currency: fx.currency } : {}),
+      exchangeRates: fx?.ratesUsed() ?? [],
+    };
+  }
+
+  sellBreaksWith(
+    rules: PricingRuleSpec[],
+    product: PriceableProduct,
+    ctx: PricingContext,
+  ): SellPriceBreak[] {
+    return [...product.priceBreaks]
+      .sort((a, b) => a.quantityFrom - b.quantityFrom)
+      .map((b) => {
+        const rule =
+          selectRule(
+            rules,
+            {
+              supplier: product.supplier,
+              manufacturer: product.manufacturer,
+              cost: b.cost,
+            },
+            ctx,
+          ) ?? this.defaultRule();
+        return {
+          quantityFrom: b.quantityFrom,
+          quantityTo: b.quantityTo,
+          price: computeSellPrice(b.cost, rule),
+          currency: b.currency,
+          ruleId: rule.id,
+        };
+      });
+  }
+
+  // Admin preview: every break with cost, sell price, margin and the rule
+  // that set it, plus why each rule did or did not match the first break.
+  async explain(product: PriceableProduct, ctx: PricingContext) {
+    const rules = await this.loadRules();
+    const breaks = [...product.priceBreaks].sort(
+      (a, b) => a.quantityFrom - b.quantityFrom,
+    );
+
+    return {
+      breaks: breaks.map((b) => {
+        const target = {
+          supplier: product.supplier,
+          manufacturer: product.manufacturer,
+          cost: b.cost,
+        };
+        const rule = selectRule(rules, target, ctx) ?? this.defaultRule();
+        const price = computeSellPrice(b.cost, rule);
+        return {
+          from: b.quantityFrom,
+          ...(b.quantityTo !== null ? { to: b.quantityTo } : {}),
+          cost: b.cost.toNumber(),
+          price: price.toNumber(),
+          currency: b.currency,
+          marginPct: marginPct(b.cost, price),
+          rule: { id: rule.id, name: rule.name, priority: rule.priority },
+          evaluated: rules.map((r) => {
+            const reason = explainRuleMismatch(r, target, ctx);
+            return {
+              id: r.id,
+              name: r.name,
+              priority: r.priority,
+              matched: reason === null,
+              ...(reason ? { reason } : {}),
+            };
+          }),
+        };
+      }),
+    };
+  }
+
+  // Stores each product's list price: the sell price of its lowest-quantity
+  // break before customer-group rules, in the store currency. Price sorting
+  // and filters use it, so they never compare supplier costs or mix
+  // currencies. Returns how many products changed.
+  async refreshListPrices(
+    where: Prisma.ProductWhereInput = {},
+  ): Promise<number> {
+    const [rules, fx] = await Promise.all([
+      this.loadRules(),
+      this.rates.converter(this.rates.defaultCurrency()),
+    ]);
+
+    let changed = 0;
+    let after: string | undefined;
+    for (;;) {
+      const batch = await this.prisma.product.findMany({
+        where: after ? { AND: [where, { id: { gt: after } }] } : where,
+        select: {
+          id: true,
+          supplier: true,
+          manufacturer: true,
+          listPrice: true,
+          priceBreaks: true,
+        },
+        orderBy: { id: 'asc' },
+        take: LIST_PRICE_BATCH,
+      });
+      if (!batch.length) break;
+
+      const updates = batch.flatMap((p) => {
+        const next = this.listPriceWith(rules, fx, p);
+        const same =
+          next && p.listPrice ? next.equals(p.listPrice) : next === p.listPrice;
+        return same ? [] : [{ id: p.id, price: next?.toString() ?? null }];
+      });
+      if (updates.length) {
+        // Raw so `updatedAt` keeps meaning "content changed".
+        await this.prisma.$executeRaw`
+          UPDATE "Product" p SET "listPrice" = v.price
+          FROM (VALUES ${Prisma.join(
+            updates.map((u) => Prisma.sql`(${u.id}, ${u.price}::numeric)`),
+          )}) AS v(id, price)
+          WHERE p."id" = v.id
+        `;
+        changed += updates.length;
+      }
+
+      after = batch[batch.length - 1].id;
+      if (batch.length < LIST_PRICE_BATCH) break;
+    }
+    return changed;
+  }
+
+  // Default: hourly at :20, so list prices follow exchange rate imports.
+  // Product writes refresh their own rows right away; rule changes trigger a
+  // full refresh. Every instance fires the cron; the one that gets the lock
+  // does the run.
+  @Cron(process.env.LIST_PRICE_REFRESH_CRON ?? '20 * * * *')
+  async refreshAllListPrices(): Promise<void> {
+    try {
+      await this.refreshAllListPricesLocked();
+    } catch (e) {
+      this.logger.error('List price refresh failed', e as Error);
+    }
+  }
+
+  // Returns how many list prices changed, or null when another run holds
+  // the lock.
+  async refreshAllListPricesLocked(): Promise<number | null> {
+    const lock = await this.locks.acquire('list-price-refresh');
+    if (!lock) {
+      this.logger.warn('List price refresh skipped (already running)');
+      return null;
+    }
+    try {
+      const changed = await this.refreshListPrices();
+      if (changed) this.logger.log(`Refreshed ${changed} list prices`);
+      return changed;
+    } finally {
+      await this.locks.release(lock);
+    }
+  }
+
+  // Price bounds arrive in `currency` (default: the store currency) and are
+  // compared with list prices in the store currency.
+  async listPriceBounds(
+    bounds: { minPrice?: number; maxPrice?: number },
+    currency?: string,
+  ): Promise<{ minPrice?: number; maxPrice?: number }> {
+    const store = this.rates.defaultCurrency();
+    if (
+      !currency ||
+      currency === store ||
+      (bounds.minPrice === undefined && bounds.maxPrice === undefined)
+    ) {
+      return bounds;
+    }
+    const fx = await this.rates.converter(store);
+    const convert = (v?: number) =>
+      v === undefined
+        ? undefined
+        : fx.unitPrice(new Prisma.Decimal(v), currency).toNumber();
+    return {
+      minPrice: convert(bounds.minPrice),
+      maxPrice: convert(bounds.maxPrice),
+    };
+  }
+
+  listRules(): Promise<PricingRule[]> {
+    return this.prisma.pricingRule.findMany({ orderBy: { priority: 'asc' } });
+  }
+
+  async createRule(
+    input: PricingRuleInput & {
+      name: string;
+      priority: number;
+      markupPct: number;
+    },
+  ): Promise<PricingRule> {
+    return this.writeRule(() =>
+      this.prisma.pricingRule.create({
+        data: {
+          ...toRuleData(input),
+          name: input.name,
+          priority: input.priority,
+          markupPct: input.markupPct,
+        },
+      }),
+    );
+  }
+
+  async updateRule(id: string, input: PricingRuleInput): Promise<PricingRule> {
+    const existing = await this.prisma.pricingRule.findUnique({
+      where: { id },
+    });
+    if (!existing) throw new NotFoundException(`Pricing rule not found: ${id}`);
+
+    const minCost =
+      input.minCost !== undefined ? input.minCost : existing.minCost;
+    const maxCost =
+      input.maxCost !== undefined ? input.maxCost : existing.maxCost;
+    if (
+      minCost !== null &&
+      maxCost !== null &&
+      Number(minCost) >= Number(maxCost)
+    ) {
+      throw new ConflictException('minCost must be below maxCost');
+    }
+
+    return this.writeRule(() =>
+      this.prisma.pricingRule.update({
+        where: { id },
+        data: toRuleData(input),
+      }),
+    );
+  }
+
+  async deleteRule(id: string): Promise<PricingRule> {
+    const existing = await this.prisma.pricingRule.findUnique({
+      where: { id },
+    });
+    if (!existing) throw new NotFoundException(`Pricing rule not found: ${id}`);
+    const deleted = await this.prisma.pricingRule.delete({ where: { id } });
+    this.refreshListPricesLater();
+    return deleted;
+  }
+
+  private listPriceWith(
+    rules: PricingRuleSpec[],
+    fx: CurrencyConverter,
+    product: PriceableProduct,
+  ): Prisma.Decimal | null {
+    const first = this.sellBreaksWith(rules, product, {})[0];
+    if (!first) return null;
+    try {
+      return fx.unitPrice(first.price, first.currency);
+    } catch (e) {
+      // No rate into the store currency yet: unpriced until one is imported.
+      if (e instanceof BadRequestException) return null;
+      throw e;
+    }
+  }
+
+  // A rule change can move any product's price; the refresh runs after the
+  // response so large catalogues do not hold up the admin call. When another
+  // run holds the lock, the next scheduled run picks the change up.
+  private refreshListPricesLater() {
+    void this.refreshAllListPrices();
+  }
+
+  private defaultRule(): PricingRuleSpec {
+    const configured = this.config.get<string>('PRICING_DEFAULT_MARKUP_PCT');
+    const markup = configured?.trim() ? Number(configured) : NaN;
+    return {
+      id: null,
+      name: 'default',
+      priority: Number.MAX_SAFE_INTEGER,
+      customerGroup: null,
+      supplier: null,
+      brand: null,
+      minCost: null,
+      maxCost: null,
+      markupPct: new Prisma.Decimal(
+        Number.isFinite(markup) && markup > -100 ? markup : 25,
+      ),
+      minMarginPct: null,
+      roundingStep: null,
+      rounding: PriceRounding.nearest,
+    };
+  }
+
+  private async writeRule(
+    write: () => Promise<PricingRule>,
+  ): Promise<PricingRule> {
+    try {
+      const rule = await write();
+      this.refreshListPricesLater();
+      return rule;
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Another pricing rule already has this priority',
+        );
+      }
+      throw e;
+    }
+  }
+}
+
+export function toSellPrice(b: SellPriceBreak): SellPrice {
+  return {
+    from: b.quantityFrom,
+    ...(b.quantityTo !== null ? { to: b.quantityTo } : {}),
+    price: b.price.toNumber(),
+    currency: b.currency,
+  };
+}
+
+// Response fields describing a conversion, empty when none was requested.
+export function currencyReport(priced: PricedProducts): {
+  currency?: string;
+  exchangeRates?: ExchangeRateUsed[];
+} {
+  return priced.currency
+    ? { currency: priced.currency, exchangeRates: priced.exchangeRates }
+    : {};
+}
+
+const COST_FIELDS = ['raw', 'unitCost', 'priceBreaks'];
+
+// Public product shape: supplier cost, the raw payload (which carries the
+// cost too) and the cost-based price breaks are replaced by sell prices.
+export function withSellPrices<
+  T extends { raw?: unknown; unitCost?: unknown; priceBreaks?: unknown },
+>(
+  product: T,
+  prices: SellPrice[] = [],
+): Omit<T, 'raw' | 'unitCost' | 'priceBreaks'> & {
+  price: number | null;
+  prices: SellPrice[];
+} {
+  const rest = Object.fromEntries(
+    Object.entries(product).filter(([key]) => !COST_FIELDS.includes(key)),
+  ) as Omit<T, 'raw' | 'unitCost' | 'priceBreaks'>;
+  return { ...rest, price: prices[0]?.price ?? null, prices };
+}
+
+function toRuleData(input: PricingRuleInput) {
+  return {
+    name: input.name,
+    priority: input.priority,
+    enabled: input.enabled,
+    customerGroup: input.customerGroup,
+    supplier: input.supplier,
+    brand: input.brand,
+    minCost: input.minCost,
+    maxCost: input.maxCost,
+    markupPct: input.markupPct,
+    minMarginPct: input.minMarginPct,
+    roundingStep: input.roundingStep,
+    rounding: input.rounding,
+  } satisfies Prisma.PricingRuleUncheckedUpdateInput;
+}
@@ -0,0 +1,48 @@
+import { adjustQuantity, selectPriceBreak } from './quote-pricing';
+
+describe('adjustQuantity', () => {
+  it('keeps a quantity that already satisfies the rules', () => {
+    expect(adjustQuantity(25, { minOrderQty: 5, orderMultiple: 5 })).toBe(25);
+  });
+
+  it('raises to the minimum order quantity', () => {
+    expect(adjustQuantity(3, { minOrderQty: 10 })).toBe(10);
+  });
+
+  it('rounds up to the order multiple', () => {
+    expect(adjustQuantity(12, { minOrderQty: 10, orderMultiple: 5 })).toBe(15);
+  });
+
+  it('defaults to single units', () => {
+    expect(adjustQuantity(7, {})).toBe(7);
+  });
+});
+
+describe('selectPriceBreak', () => {
+  const breaks = [
+    { quantityFrom: 100, quantityTo: null, cost: 0.08 },
+    { quantityFrom: 1, quantityTo: 9, cost: 0.2 },
+    { quantityFrom: 10, quantityTo: 99, cost: 0.12 },
+  ];
+
+  it.each([
+    [1, 0.2],
+    [9, 0.2],
+    [10, 0.12],
+    [250, 0.08],
+  ])('quantity %i costs %d', (qty, cost) => {
+    expect(selectPriceBreak(breaks, qty)?.cost).toBe(cost);
+  });
+
+  it('uses the highest break past a closed last tier', () => {
+    const closed = [
+      { quantityFrom: 1, quantityTo: 9, cost: 1 },
+      { quantityFrom: 10, quantityTo: 49, cost: 0.8 },
+    ];
+    expect(selectPriceBreak(closed, 500)?.cost).toBe(0.8);
+  });
+
+  it('returns null without breaks', () => {
+    expect(selectPriceBreak([], 5)).toBeNull();
+  });
+});
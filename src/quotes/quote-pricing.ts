@@ -0,0 +1,51 @@
+// Pure helpers for quantity pricing against supplier price breaks.
+
+export type QuantityBreak = {
+  quantityFrom: number;
+  quantityTo: number | null;
+};
+
+// Raises a requested quantity to the minimum order quantity and rounds it up
+// to the next order multiple. Returns the quantity that will be quoted.
+export function adjustQuantity(
+  requested: number,
+  rules: { minOrderQty?: number | null; orderMultiple?: number | null },
+): number {
+  const moq = Math.max(1, Math.floor(rules.minOrderQty ?? 1));
+  const multiple = Math.max(1, Math.floor(rules.orderMultiple ?? 1));
+
+  const qty = Math.max(Math.floor(requested), moq);
+  return Math.ceil(qty / multiple) * multiple;
+}
+
+// Picks the break whose [from, to] covers the quantity. Above the last
+// published break the highest one applies; below the first, the first.
+export function selectPriceBreak<T extends QuantityBreak>(
+  breaks: T[],
+  quantity: number,
+): T | null {
+  if (breaks.length === 0) return null;
+  const sorted = [...breaks].sort((a, b) => a.quantityFrom - b.quantityFrom);
+
+  const covering = sorted.find(
+    (b) =>
+      b.quantityFrom <= quantity &&
+      (b.quantityTo === null || quantity <= b.quantityTo),
+  );
+  if (covering) return covering;
+
+  const below = sorted.filter((b) => b.quantityFrom <= quantity);
+  return below.at(-1) ?? sorted[0];
+}
+
+export function describeAdjustment(
+  requested: number,
+  quantity: number,
+  rules: { minOrderQty: number; orderMultiple: number },
+): string | null {
+  if (requested === quantity) return null;
+  if (requested < rules.minOrderQty) {
+    return `raised to minimum order quantity ${rules.minOrderQty}`;
+  }
+  return `rounded up to order multiple of ${rules.orderMultiple}`;
+}
@@ -0,0 +1,216 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { QuoteStatus, Role } from '@prisma/client';
+import { hasScope, Scope } from '../auth/api-key';
+import type { Principal } from '../auth/api-key';
+import {
+  CurrentPrincipal,
+  RequireScopes,
+  Roles,
+} from '../auth/auth.decorators';
+import { publishedOnly } from '../catalog/product-curation';
+import { ExchangeRateUsed } from '../currency/currency';
+import { parseCurrencyParam } from '../currency/exchange-rates.service';
+import { parseSupplierCode } from '../suppliers/supplier-registry';
+import {
+  CreateQuoteInput,
+  isQuoteExpired,
+  QuoteLineInput,
+  QuotesService,
+  QuoteWithLines,
+} from './quotes.service';
+
+// Any valid API key; routes that show or act on one quote need one.
+const ANY_ROLE = Object.values(Role);
+
+type QuoteView = QuoteWithLines & {
+  expired: boolean;
+  exchangeRates?: ExchangeRateUsed[];
+};
+
+@Controller('/quotes')
+export class QuotesController {
+  constructor(private readonly quotes: QuotesService) {}
+
+  // Body: { customerName?, customerEmail?, reference?, notes?, validDays?,
+  //         currency?, lines: [{ supplierSku, quantity, supplier? }] }
+  // The requesting key owns the quote, so one is needed to accept it later.
+  @Post()
+  @Roles(...ANY_ROLE)
+  async createQuote(
+    @Body() body: unknown,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<QuoteView> {
+    return toQuoteView(
+      await this.quotes.create({
+        ...normalizeQuoteBody(body),
+        customerGroup: principal.customerGroup,
+        ownerKeyId: principal.keyId,
+        publishedOnly: publishedOnly(principal),
+      }),
+    );
+  }
+
+  // Every customer's quotes: staff only.
+  @Get()
+  @RequireScopes(Scope.orders)
+  async listQuotes(
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<{
+    count: number;
+    total: number;
+    limit: number;
+    offset: number;
+    items: QuoteView[];
+  }> {
+    const safeLimit = Number.isFinite(Number(limit))
+      ? Math.max(1, Math.min(100, Math.floor(Number(limit))))
+      : 20;
+    const safeOffset = Number.isFinite(Number(offset))
+      ? Math.max(0, Math.floor(Number(offset)))
+      : 0;
+
+    const [total, items] = await this.quotes.list({
+      status: parseQuoteStatus(status),
+      limit: safeLimit,
+      offset: safeOffset,
+    });
+
+    return {
+      count: items.length,
+      total,
+      limit: safeLimit,
+      offset: safeOffset,
+      items: items.map(toQuoteView),
+    };
+  }
+
+  // `?currency=` shows the quote converted at today's rates; the stored
+  // prices do not change.
+  @Get('/:id')
+  @Roles(...ANY_ROLE)
+  async getQuote(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+    @Query('currency') currency?: string,
+  ): Promise<QuoteView> {
+    const quote = assertQuoteAccess(await this.quotes.get(id), principal);
+    const target = parseCurrencyParam(currency);
+    return toQuoteView(
+      target ? await this.quotes.convertQuote(quote, target) : quote,
+    );
+  }
+
+  @Post('/:id/reprice')
+  @RequireScopes(Scope.orders)
+  async repriceQuote(@Param('id') id: string): Promise<QuoteView> {
+    return toQuoteView(await this.quotes.reprice(id));
+  }
+
+  @Post('/:id/send')
+  @RequireScopes(Scope.orders)
+  async sendQuote(@Param('id') id: string): Promise<QuoteView> {
+    return toQuoteView(await this.quotes.send(id));
+  }
+
+  // Only the key that requested the quote can accept it. Quotes without an
+  // owner (made before keys were required, or from a BOM without a
+  // customer key) are accepted by nobody; staff are told so.
+  @Post('/:id/accept')
+  @Roles(...ANY_ROLE)
+  async acceptQuote(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<QuoteView> {
+    const quote = assertQuoteAccess(await this.quotes.get(id), principal);
+    if (!quote.ownerKeyId) {
+      throw new ConflictException(
+        `Quote ${quote.number} has no customer key to accept it; create a new quote for the customer's key`,
+      );
+    }
+    if (quote.ownerKeyId !== principal.keyId) {
+      throw new NotFoundException(`Quote not found: ${id}`);
+    }
+    return toQuoteView(await this.quotes.accept(id));
+  }
+}
+
+// Owners see their own quotes, the orders scope sees all; anyone else gets a
+// 404 so quote ids cannot be probed.
+function assertQuoteAccess(
+  quote: QuoteWithLines,
+  principal: Principal,
+): QuoteWithLines {
+  if (
+    quote.ownerKeyId === principal.keyId ||
+    hasScope(principal.scopes, Scope.orders)
+  ) {
+    return quote;
+  }
+  throw new NotFoundException(`Quote not found: ${quote.id}`);
+}
+
+function toQuoteView(
+  quote: QuoteWithLines & { exchangeRates?: ExchangeRateUsed[] },
+): QuoteView {
+  return { ...quote, expired: isQuoteExpired(quote) };
+}
+
+function normalizeQuoteBody(body: unknown): CreateQuoteInput {
+  const obj = isRecord(body) ? body : {};
+  const linesRaw = Array.isArray(obj.lines) ? obj.lines : [];
+  const validDays = Number(obj.validDays);
+
+  return {
+    customerName: asString(obj.customerName),
+    customerEmail: asString(obj.customerEmail),
+    reference: asString(obj.reference),
+    notes: asString(obj.notes),
+    currency: parseCurrencyParam(asString(obj.currency)),
+    validDays:
+      Number.isFinite(validDays) && validDays > 0 ? validDays : undefined,
+    lines: linesRaw
+      .map((l) => normalizeQuoteLine(l))
+      .filter((l): l is QuoteLineInput => l !== null),
+  };
+}
+
+function normalizeQuoteLine(input: unknown): QuoteLineInput | null {
+  if (!isRecord(input)) return null;
+  const supplierSku = asString(input.supplierSku)?.trim();
+  const quantity = Number(input.quantity);
+  if (!supplierSku || !Number.isFinite(quantity) || quantity < 1) return null;
+
+  const supplier = parseSupplierCode(asString(input.supplier));
+  return {
+    supplierSku,
+    quantity: Math.floor(quantity),
+    ...(supplier ? { supplier } : {}),
+  };
+}
+
+function parseQuoteStatus(value?: string): QuoteStatus | undefined {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'draft') return QuoteStatus.draft;
+  if (normalized === 'sent') return QuoteStatus.sent;
+  if (normalized === 'accepted') return QuoteStatus.accepted;
+  return undefined;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v : undefined;
+}
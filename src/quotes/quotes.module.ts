@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../currency/currency.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { QuotesController } from './quotes.controller';
+import { QuotesService } from './quotes.service';
+
+@Module({
+  imports: [CurrencyModule, PricingModule],
+  controllers: [QuotesController],
+  providers: [QuotesService],
+  exports: [QuotesService],
+})
+export class QuotesModule {}
@@ -0,0 +1,342 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, QuoteStatus, SupplierCode } from '@prisma/client';
+import { publishedWhere } from '../catalog/product-curation';
+import { ExchangeRateUsed, roundMoney } from '../currency/currency';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PricingContext } from '../pricing/pricing-rules';
+import {
+  PricingService,
+  SellPrice,
+  toSellPrice,
+} from '../pricing/pricing.service';
+import {
+  adjustQuantity,
+  describeAdjustment,
+  selectPriceBreak,
+} from './quote-pricing';
+
+export type QuoteLineInput = {
+  supplierSku: string;
+  supplier?: SupplierCode;
+  quantity: number;
+};
+
+export type CreateQuoteInput = {
+  customerName?: string;
+  customerEmail?: string;
+  reference?: string;
+  notes?: string;
+  customerGroup?: string | null;
+  // API key the quote belongs to; unset for staff-made quotes.
+  ownerKeyId?: string;
+  // Callers without the catalog scope may only quote published products.
+  publishedOnly?: boolean;
+  currency?: string;
+  validDays?: number;
+  lines: QuoteLineInput[];
+};
+
+export const quoteInclude = {
+  lines: { orderBy: { position: 'asc' } },
+} satisfies Prisma.QuoteInclude;
+
+export type QuoteWithLines = Prisma.QuoteGetPayload<{
+  include: typeof quoteInclude;
+}>;
+
+export type PricedLine = Omit<
+  Prisma.QuoteLineCreateManyQuoteInput,
+  'lineTotal'
+> & {
+  lineTotal: Prisma.Decimal;
+};
+
+@Injectable()
+export class QuotesService {
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly pricing: PricingService,
+    private readonly rates: ExchangeRatesService,
+  ) {}
+
+  async create(input: CreateQuoteInput): Promise<QuoteWithLines> {
+    if (input.lines.length === 0) {
+      throw new BadRequestException('Quote needs at least one line');
+    }
+
+    const currency = input.currency ?? this.rates.defaultCurrency();
+    const lines = await this.priceLines(
+      input.lines,
+      { customerGroup: input.customerGroup },
+      currency,
+      input.publishedOnly,
+    );
+
+    return this.prisma.quote.create({
+      data: {
+        customerName: input.customerName,
+        customerEmail: input.customerEmail,
+        reference: input.reference,
+        notes: input.notes,
+        customerGroup: input.customerGroup,
+        ownerKeyId: input.ownerKeyId,
+        currency,
+        expiresAt: this.expiryFrom(new Date(), input.validDays),
+        subtotal: sumLineTotals(lines),
+        lines: { createMany: { data: lines } },
+      },
+      include: quoteInclude,
+    });
+  }
+
+  list(opts: { status?: QuoteStatus; limit: number; offset: number }) {
+    const where: Prisma.QuoteWhereInput = opts.status
+      ? { status: opts.status }
+      : {};
+    return Promise.all([
+      this.prisma.quote.count({ where }),
+      this.prisma.quote.findMany({
+        where,
+        include: quoteInclude,
+        orderBy: { createdAt: 'desc' },
+        take: opts.limit,
+        skip: opts.offset,
+      }),
+    ]);
+  }
+
+  async get(id: string): Promise<QuoteWithLines> {
+    const quote = await this.prisma.quote.findUnique({
+      where: { id },
+      include: quoteInclude,
+    });
+    if (!quote) throw new NotFoundException(`Quote not found: ${id}`);
+    return quote;
+  }
+
+  // Re-prices a draft from current catalogue prices. Sent and accepted
+  // quotes keep their snapshot.
+  async reprice(id: string): Promise<QuoteWithLines> {
+    const quote = await this.get(id);
+    this.assertStatus(quote, [QuoteStatus.draft], 'reprice');
+
+    const lines = await this.priceLines(
+      quote.lines.map((l) => ({
+        supplierSku: l.supplierSku,
+        supplier: l.supplier,
+        quantity: l.requestedQty,
+      })),
+      { customerGroup: quote.customerGroup },
+      quote.currency,
+    );
+
+    return this.prisma.quote.update({
+      where: { id },
+      data: {
+        subtotal: sumLineTotals(lines),
+        lines: { deleteMany: {}, createMany: { data: lines } },
+      },
+      include: quoteInclude,
+    });
+  }
+
+  // The validity period chosen at creation restarts when the quote is sent.
+  async send(id: string): Promise<QuoteWithLines> {
+    const quote = await this.get(id);
+    this.assertStatus(quote, [QuoteStatus.draft], 'send');
+
+    const now = new Date();
+    const validMs = quote.expiresAt.getTime() - quote.createdAt.getTime();
+    return this.prisma.quote.update({
+      where: { id },
+      data: {
+        status: QuoteStatus.sent,
+        sentAt: now,
+        expiresAt: new Date(now.getTime() + validMs),
+      },
+      include: quoteInclude,
+    });
+  }
+
+  async accept(id: string): Promise<QuoteWithLines> {
+    const quote = await this.get(id);
+    this.assertStatus(quote, [QuoteStatus.sent], 'accept');
+    if (isQuoteExpired(quote)) {
+      throw new ConflictException(`Quote ${quote.number} has expired`);
+    }
+
+    return this.prisma.quote.update({
+      where: { id },
+      data: { status: QuoteStatus.accepted, acceptedAt: new Date() },
+      include: quoteInclude,
+    });
+  }
+
+  // Display copy of a quote in another currency at the latest rates. The
+  // stored snapshot stays in the quote's own currency.
+  async convertQuote(
+    quote: QuoteWithLines,
+    currency: string,
+  ): Promise<QuoteWithLines & { exchangeRates: ExchangeRateUsed[] }> {
+    if (currency === quote.currency) return { ...quote, exchangeRates: [] };
+
+    const fx = await this.rates.converter(currency);
+    const lines = quote.lines.map((l) => ({
+      ...l,
+      unitPrice: fx.unitPrice(l.unitPrice, quote.currency),
+      lineTotal: fx.total(l.lineTotal, quote.currency),
+      priceBreaks: (l.priceBreaks as SellPrice[]).map((b) => ({
+        ...b,
+        price: fx
+          .unitPrice(new Prisma.Decimal(b.price), quote.currency)
+          .toNumber(),
+        currency,
+      })),
+    }));
+
+    return {
+      ...quote,
+      currency,
+      subtotal: sumLineTotals(lines),
+      lines,
+      exchangeRates: fx.ratesUsed(),
+    };
+  }
+
+  // Prices lines at sell prices from the local catalogue, converted into
+  // `currency` (default: the store currency). Also used for cart orders.
+  // With `onlyPublished` unpublished products count as missing.
+  async priceLines(
+    inputs: QuoteLineInput[],
+    ctx: PricingContext = {},
+    currency = this.rates.defaultCurrency(),
+    onlyPublished = false,
+  ): Promise<PricedLine[]> {
+    const [products, pricingRules, fx] = await Promise.all([
+      this.prisma.product.findMany({
+        where: {
+          supplierSku: { in: inputs.map((l) => l.supplierSku) },
+          ...(onlyPublished ? publishedWhere : {}),
+        },
+        include: { priceBreaks: true },
+      }),
+      this.pricing.loadRules(),
+      this.rates.converter(currency),
+    ]);
+
+    const missing: string[] = [];
+    const unpriced: string[] = [];
+    const pricedAt = new Date();
+    const lines: PricedLine[] = [];
+
+    inputs.forEach((input, position) => {
+      const product = products.find(
+        (p) =>
+          p.supplierSku === input.supplierSku &&
+          (!input.supplier || p.supplier === input.supplier),
+      );
+      if (!product) {
+        missing.push(input.supplierSku);
+        return;
+      }
+
+      const rules = {
+        minOrderQty: product.minOrderQty ?? 1,
+        orderMultiple: product.orderMultiple ?? 1,
+      };
+      const quantity = adjustQuantity(input.quantity, rules);
+      const sellBreaks = this.pricing
+        .sellBreaksWith(pricingRules, product, ctx)
+        .map((b) => ({
+          ...b,
+          price: fx.unitPrice(b.price, b.currency),
+          currency: fx.currency,
+          sourceCurrency: b.currency,
+        }));
+      const priceBreak = selectPriceBreak(sellBreaks, quantity);
+      if (!priceBreak) {
+        unpriced.push(input.supplierSku);
+        return;
+      }
+      const rate = fx.resolve(priceBreak.sourceCurrency);
+
+      lines.push({
+        position,
+        productId: product.id,
+        supplier: product.supplier,
+        supplierSku: product.supplierSku,
+        supplierKey: product.supplierKey,
+        name: product.name,
+        manufacturer: product.manufacturer,
+        mpn: product.mpn,
+        requestedQty: input.quantity,
+        quantity,
+        minOrderQty: rules.minOrderQty,
+        orderMultiple: rules.orderMultiple,
+        unitPrice: priceBreak.price,
+        lineTotal: roundMoney(priceBreak.price.mul(quantity), fx.currency),
+        priceBreaks: sellBreaks.map(toSellPrice),
+        ...(rate.rateDate
+          ? {
+              sourceCurrency: priceBreak.sourceCurrency,
+              exchangeRate: rate.rate,
+              rateDate: rate.rateDate,
+            }
+          : {}),
+        pricedAt,
+        note: describeAdjustment(input.quantity, quantity, rules),
+      });
+    });
+
+    if (missing.length || unpriced.length) {
+      throw new BadRequestException({
+        message: 'Some lines cannot be priced',
+        missing,
+        unpriced,
+      });
+    }
+
+    return lines;
+  }
+
+  private expiryFrom(from: Date, validDays?: number): Date {
+    const configured = Number(this.config.get('QUOTE_VALID_DAYS'));
+    const days =
+      validDays ??
+      (Number.isFinite(configured) && configured > 0 ? configured : 30);
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private assertStatus(
+    quote: QuoteWithLines,
+    allowed: QuoteStatus[],
+    action: string,
+  ) {
+    if (!allowed.includes(quote.status)) {
+      throw new ConflictException(
+        `Cannot ${action} quote ${quote.number} in status ${quote.status}`,
+      );
+    }
+  }
+}
+
+export function isQuoteExpired(
+  quote: { status: QuoteStatus; expiresAt: Date },
+  now = new Date(),
+): boolean {
+  return quote.status !== QuoteStatus.accepted && quote.expiresAt <= now;
+}
+
+export function sumLineTotals(
+  lines: Array<{ lineTotal: Prisma.Decimal }>,
+): Prisma.Decimal {
+  return lines.reduce((sum, l) => sum.add(l.lineTotal), new Prisma.Decimal(0));
+}
@@ -0,0 +1,70 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  mapFarnellProduct,
+  toNormalizedUpdate,
+} from '../suppliers/farnell/farnell.mapper';
+
+// One-off backfill: rebuilds the normalized product tables (price breaks,
+// attributes, stock, datasheets, manufacturer/MPN, search text) from the
+// stored `raw`.
+// Usage: npm run backfill:normalized
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true }), PrismaModule],
+})
+class BackfillModule {}
+
+async function main() {
+  const logger = new Logger('BackfillNormalized');
+  const app = await NestFactory.createApplicationContext(BackfillModule);
+  const prisma = app.get(PrismaService);
+
+  const batchSize = Number(process.env.BACKFILL_BATCH_SIZE) || 100;
+  let cursor: string | undefined;
+  let processed = 0;
+
+  try {
+    while (true) {
+      const products = await prisma.product.findMany({
+        select: {
+          id: true,
+          raw: true,
+          // Keeps the currency already recorded for the product's store.
+          priceBreaks: { select: { currency: true }, take: 1 },
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+      if (products.length === 0) break;
+
+      await prisma.$transaction(
+        products
+          .filter((p) => p.raw !== null)
+          .map((p) =>
+            prisma.product.update({
+              where: { id: p.id },
+              data: toNormalizedUpdate(
+                mapFarnellProduct(p.raw, {
+                  currency: p.priceBreaks[0]?.currency,
+                }),
+              ),
+            }),
+          ),
+      );
+
+      processed += products.length;
+      cursor = products.at(-1)?.id;
+      logger.log(`Backfilled ${processed} products`);
+    }
+
+    logger.log(`Backfill finished. total=${processed}`);
+  } finally {
+    await app.close();
+  }
+}
+
+void main();
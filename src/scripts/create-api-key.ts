@@ -0,0 +1,50 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { parseRole } from '../auth/api-key';
+import { ApiKeysService } from '../auth/api-keys.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Issues an API key from the command line, e.g. the first admin key.
+// Usage: npm run apikey:create -- <name> <role> [scope,scope...]
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true }), PrismaModule],
+  providers: [ApiKeysService],
+})
+class CreateApiKeyModule {}
+
+async function main() {
+  const logger = new Logger('CreateApiKey');
+  const [name, roleArg, scopesArg] = process.argv.slice(2);
+  const role = parseRole(roleArg);
+  if (!name || !role) {
+    logger.error(
+      'Usage: npm run apikey:create -- <name> <admin|staff|customer> [scopes]',
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(CreateApiKeyModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const { key, apiKey } = await app.get(ApiKeysService).create({
+      name,
+      role,
+      scopes: scopesArg
+        ?.split(',')
+        .map((s) => s.trim())
+        .filter(Boolean),
+    });
+    logger.log(
+      `Created ${apiKey.role} key "${apiKey.name}" (${apiKey.prefix}) scopes=${apiKey.scopes.join(',')}`,
+    );
+    // Printed once; only the hash is stored.
+    console.log(key);
+  } finally {
+    await app.close();
+  }
+}
+
+void main();
@@ -0,0 +1,42 @@
+import { readFile } from 'node:fs/promises';
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Imports exchange rates from a CSV file with `base,quote,rate[,date]` rows.
+// Usage: npm run rates:import -- rates.csv
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true }), PrismaModule],
+  providers: [ExchangeRatesService],
+})
+class ImportRatesModule {}
+
+async function main() {
+  const logger = new Logger('ImportExchangeRates');
+  const file = process.argv[2];
+  if (!file) {
+    logger.error('Usage: npm run rates:import -- <file.csv>');
+    process.exitCode = 1;
+    return;
+  }
+
+  const text = await readFile(file, 'utf8');
+  const app = await NestFactory.createApplicationContext(ImportRatesModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const result = await app
+      .get(ExchangeRatesService)
+      .importCsv(text, `csv:${file}`);
+    for (const e of result.errors) {
+      logger.warn(`line ${e.line}: ${e.error}`);
+    }
+    logger.log(`Imported ${result.imported} rates`);
+  } finally {
+    await app.close();
+  }
+}
+
+void main();
@@ -0,0 +1,63 @@
+import { CircuitBreaker } from './circuit-breaker';
+import { SupplierUnavailableError } from './supplier-adapter';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(
+      'Test API',
+      { failureThreshold: 2, openMs: 1000 },
+      () => now,
+    );
+  });
+
+  it('opens after consecutive failures and fails fast', () => {
+    breaker.beforeCall();
+    expect(breaker.onFailure()).toBe(false);
+    breaker.beforeCall();
+    expect(breaker.onFailure()).toBe(true);
+
+    expect(() => breaker.beforeCall()).toThrow(SupplierUnavailableError);
+    expect(breaker.status()).toMatchObject({
+      state: 'open',
+      retryAt: new Date(1000),
+    });
+  });
+
+  it('resets the failure count on success', () => {
+    breaker.onFailure();
+    breaker.onSuccess();
+    expect(breaker.onFailure()).toBe(false);
+    expect(breaker.status().state).toBe('closed');
+  });
+
+  it('lets one probe through once the open period is over', () => {
+    breaker.onFailure();
+    breaker.onFailure();
+    now = 1000;
+
+    breaker.beforeCall();
+    expect(breaker.status().state).toBe('half-open');
+    expect(() => breaker.beforeCall()).toThrow(SupplierUnavailableError);
+
+    breaker.onSuccess();
+    expect(breaker.status().state).toBe('closed');
+    expect(() => breaker.beforeCall()).not.toThrow();
+  });
+
+  it('reopens when the probe fails', () => {
+    breaker.onFailure();
+    breaker.onFailure();
+    now = 1500;
+
+    breaker.beforeCall();
+    expect(breaker.onFailure()).toBe(true);
+    expect(breaker.status()).toMatchObject({
+      state: 'open',
+      retryAt: new Date(2500),
+    });
+  });
+});
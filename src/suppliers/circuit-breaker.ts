@@ -0,0 +1,99 @@
+import { SupplierUnavailableError } from './supplier-adapter';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerOptions = {
+  // Consecutive failures that open the circuit.
+  failureThreshold: number;
+  // How long the circuit stays open before one probe call is let through.
+  openMs: number;
+};
+
+export type CircuitStatus = {
+  state: CircuitState;
+  failures: number;
+  openedAt: Date | null;
+  retryAt: Date | null;
+};
+
+// Closed: calls pass and failures are counted. Open: calls fail at once with
+// SupplierUnavailableError. Half-open: a single probe call decides whether
+// the circuit closes again or reopens for another `openMs`.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    readonly name: string,
+    private readonly opts: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  // Call before each attempt; throws while the circuit is open or a probe is
+  // already in flight.
+  beforeCall(): void {
+    if (this.state === 'open') {
+      if (this.now() - (this.openedAt ?? 0) < this.opts.openMs) {
+        throw this.unavailable();
+      }
+      this.state = 'half-open';
+      this.probing = false;
+    }
+    if (this.state === 'half-open') {
+      if (this.probing) throw this.unavailable();
+      this.probing = true;
+    }
+  }
+
+  // The attempt was given up before reaching the supplier.
+  abandon(): void {
+    this.probing = false;
+  }
+
+  onSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  // Returns true when this failure opened the circuit.
+  onFailure(): boolean {
+    this.failures += 1;
+    if (
+      this.state === 'half-open' ||
+      (this.state === 'closed' && this.failures >= this.opts.failureThreshold)
+    ) {
+      this.state = 'open';
+      this.openedAt = this.now();
+      this.probing = false;
+      return true;
+    }
+    return false;
+  }
+
+  status(): CircuitStatus {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt),
+      retryAt: this.retryAt(),
+    };
+  }
+
+  private retryAt(): Date | null {
+    return this.openedAt === null
+      ? null
+      : new Date(this.openedAt + this.opts.openMs);
+  }
+
+  private unavailable(): SupplierUnavailableError {
+    const retryAt = this.retryAt() ?? new Date(this.now());
+    return new SupplierUnavailableError(
+      `${this.name} is unavailable (circuit ${this.state}); retry after ${retryAt.toISOString()}`,
+      retryAt,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupplierCode } from '@prisma/client';
+import {
+  configuredStoreId,
+  Element14ApiAdapter,
+} from '../farnell/farnell.adapter';
+import { FarnellClient } from '../farnell/farnell.client';
+
+@Injectable()
+export class Element14Adapter extends Element14ApiAdapter {
+  readonly code = SupplierCode.element14;
+
+  constructor(
+    client: FarnellClient,
+    private readonly config: ConfigService,
+  ) {
+    super(client);
+  }
+
+  protected storeId(): string | undefined {
+    return configuredStoreId(
+      this.config,
+      'SUPPLIER_ELEMENT14_STORE_ID',
+      'au.element14.com',
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { Controller, Get } from '@nestjs/common';
+import { Scope } from '../../auth/api-key';
+import { RequireScopes } from '../../auth/auth.decorators';
+import {
+  FarnellBudgetService,
+  FarnellBudgetStatus,
+} from './farnell-budget.service';
+
+@Controller('/admin/farnell/budget')
+@RequireScopes(Scope.supplierSearch)
+export class FarnellBudgetController {
+  constructor(private readonly budget: FarnellBudgetService) {}
+
+  // Today's usage and what is left, for interactive and background calls.
+  @Get()
+  getBudget(): Promise<FarnellBudgetStatus> {
+    return this.budget.status();
+  }
+}
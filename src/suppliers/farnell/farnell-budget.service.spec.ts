@@ -0,0 +1,49 @@
+import { PriorityTokenBucket } from './farnell-budget.service';
+
+describe('PriorityTokenBucket', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = async (ms: number) => {
+    now += ms;
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+
+  it('allows a burst up to the rate, then one call per interval', async () => {
+    const bucket = new PriorityTokenBucket(2, () => now);
+    const served: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      void bucket.take('background').then(() => served.push(i));
+    }
+
+    await advance(0);
+    expect(served).toEqual([0, 1]);
+    await advance(500);
+    expect(served).toEqual([0, 1, 2]);
+    await advance(500);
+    expect(served).toEqual([0, 1, 2, 3]);
+  });
+
+  it('serves waiting interactive calls before background ones', async () => {
+    const bucket = new PriorityTokenBucket(1, () => now);
+    const served: string[] = [];
+    await bucket.take('background');
+
+    void bucket.take('background').then(() => served.push('sync'));
+    void bucket.take('interactive').then(() => served.push('search'));
+    expect(bucket.queued()).toEqual({ interactive: 1, background: 1 });
+
+    await advance(1000);
+    expect(served).toEqual(['search']);
+    await advance(1000);
+    expect(served).toEqual(['search', 'sync']);
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  RequestPriority,
+  SupplierBudgetExhaustedError,
+} from '../supplier-adapter';
+
+// Usage row key: farnell, newark and element14 share one API key and so
+// one budget.
+const BUDGET_API = 'farnell';
+
+// Queries-per-second limiter. Waiting interactive calls always get the next
+// token before waiting background ones.
+export class PriorityTokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+  private readonly waiting: Record<RequestPriority, Array<() => void>> = {
+    interactive: [],
+    background: [],
+  };
+  private timer: NodeJS.Timeout | null = null;
+  private readonly capacity: number;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.capacity = Math.max(1, ratePerSecond);
+    this.tokens = this.capacity;
+    this.refilledAt = now();
+  }
+
+  take(priority: RequestPriority): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiting[priority].push(resolve);
+      this.pump();
+    });
+  }
+
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  queued(): Record<RequestPriority, number> {
+    return {
+      interactive: this.waiting.interactive.length,
+      background: this.waiting.background.length,
+    };
+  }
+
+  private refill() {
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond,
+    );
+    this.refilledAt = now;
+  }
+
+  private pump() {
+    this.refill();
+    while (this.tokens >= 1) {
+      const next =
+        this.waiting.interactive.shift() ?? this.waiting.background.shift();
+      if (!next) return;
+      this.tokens -= 1;
+      next();
+    }
+    if (this.timer) return;
+    if (!this.waiting.interactive.length && !this.waiting.background.length) {
+      return;
+    }
+    const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, waitMs);
+  }
+}
+
+export type FarnellBudgetStatus = {
+  day: string;
+  qps: number;
+  tokensAvailable: number;
+  waiting: Record<RequestPriority, number>;
+  // null when no daily quota is configured.
+  dailyQuota: number | null;
+  interactiveReserve: number;
+  used: number;
+  remaining: number | null;
+  backgroundRemaining: number | null;
+  interactiveCalls: number;
+  backgroundCalls: number;
+  rejected: number;
+  resetAt: Date;
+};
+
+// Sits in front of every FarnellClient request: a per-instance QPS bucket,
+// then a daily quota counted in SupplierApiUsage and shared by all
+// instances. Background calls stop `interactiveReserve` calls short of the
+// quota so live searches keep working after a long sync.
+@Injectable()
+export class FarnellBudgetService {
+  private readonly logger = new Logger(FarnellBudgetService.name);
+  private readonly qps: number;
+  private readonly dailyQuota: number | null;
+  private readonly interactiveReserve: number;
+  private readonly bucket: PriorityTokenBucket;
+
+  constructor(
+    config: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
+    this.qps = toPositiveNumber(config.get('SUPPLIER_FARNELL_QPS'), 2);
+    const quota = Number(config.get('SUPPLIER_FARNELL_DAILY_QUOTA') || 1000);
+    // 0 turns the quota off; calls are still counted.
+    this.dailyQuota = Number.isFinite(quota) && quota > 0 ? quota : null;
+    const reserve = Number(
+      config.get('SUPPLIER_FARNELL_INTERACTIVE_RESERVE') || 100,
+    );
+    this.interactiveReserve = Number.isFinite(reserve)
+      ? Math.max(0, Math.floor(reserve))
+      : 100;
+    this.bucket = new PriorityTokenBucket(this.qps);
+  }
+
+  // Waits for a QPS token, then books one call against today's quota.
+  // Throws SupplierBudgetExhaustedError when the quota for this priority
+  // is used up.
+  async acquire(priority: RequestPriority): Promise<void> {
+    await this.bucket.take(priority);
+
+    const limit =
+      this.dailyQuota === null
+        ? null
+        : priority === 'interactive'
+          ? this.dailyQuota
+          : this.dailyQuota - this.interactiveReserve;
+
+    let booked: boolean;
+    try {
+      booked =
+        limit === null || limit > 0 ? await this.book(priority, limit) : false;
+    } catch (e) {
+      // Usage accounting must not take supplier access down with it.
+      this.logger.warn(
+        `Could not record Farnell call: ${(e as Error).message}`,
+      );
+      return;
+    }
+    if (booked) return;
+
+    await this.recordRejected().catch(() => undefined);
+    const resetAt = nextUtcMidnight();
+    throw new SupplierBudgetExhaustedError(
+      `Farnell daily call budget exhausted for ${priority} requests (quota ${this.dailyQuota}); resets at ${resetAt.toISOString()}`,
+      resetAt,
+    );
+  }
+
+  async status(): Promise<FarnellBudgetStatus> {
+    const day = utcDay();
+    const usage = await this.prisma.supplierApiUsage.findUnique({
+      where: { api_day: { api: BUDGET_API, day: new Date(day) } },
+    });
+    const used = usage?.calls ?? 0;
+    return {
+      day,
+      qps: this.qps,
+      tokensAvailable: this.bucket.available(),
+      waiting: this.bucket.queued(),
+      dailyQuota: this.dailyQuota,
+      interactiveReserve: this.interactiveReserve,
+      used,
+      remaining:
+        this.dailyQuota === null ? null : Math.max(0, this.dailyQuota - used),
+      backgroundRemaining:
+        this.dailyQuota === null
+          ? null
+          : Math.max(0, this.dailyQuota - this.interactiveReserve - used),
+      interactiveCalls: usage?.interactiveCalls ?? 0,
+      backgroundCalls: usage?.backgroundCalls ?? 0,
+      rejected: usage?.rejected ?? 0,
+      resetAt: nextUtcMidnight(),
+    };
+  }
+
+  // One atomic statement, so instances sharing the quota never overshoot
+  // it. False when the limit was already reached.
+  private async book(
+    priority: RequestPriority,
+    limit: number | null,
+  ): Promise<boolean> {
+    const column =
+      priority === 'interactive'
+        ? Prisma.sql`"interactiveCalls"`
+        : Prisma.sql`"backgroundCalls"`;
+    const rows = await this.prisma.$queryRaw<Array<{ calls: number }>>`
+      INSERT INTO "SupplierApiUsage" ("api", "day", "calls", ${column}, "updatedAt")
+      VALUES (${BUDGET_API}, ${utcDay()}::date, 1, 1, now())
+      ON CONFLICT ("api", "day") DO UPDATE SET
+        "calls" = "SupplierApiUsage"."calls" + 1,
+        ${column} = "SupplierApiUsage".${column} + 1,
+        "updatedAt" = now()
+      ${limit === null ? Prisma.empty : Prisma.sql`WHERE "SupplierApiUsage"."calls" < ${limit}`}
+      RETURNING "calls"
+    `;
+    return rows.length > 0;
+  }
+
+  private async recordRejected() {
+    const day = new Date(utcDay());
+    await this.prisma.supplierApiUsage.upsert({
+      where: { api_day: { api: BUDGET_API, day } },
+      create: { api: BUDGET_API, day, rejected: 1 },
+      update: { rejected: { increment: 1 } },
+    });
+  }
+}
+
+function toPositiveNumber(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// YYYY-MM-DD; the quota day runs midnight to midnight UTC.
+function utcDay(at = new Date()): string {
+  return at.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(at = new Date()): Date {
+  return new Date(
+    Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1),
+  );
+}
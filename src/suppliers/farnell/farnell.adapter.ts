@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupplierCode } from '@prisma/client';
+import {
+  RequestPriority,
+  ResponseGroup,
+  SupplierAdapter,
+  SupplierCataloguePage,
+  SupplierProduct,
+  SupplierQuery,
+  SupplierSearchOptions,
+} from '../supplier-adapter';
+import { FarnellClient } from './farnell.client';
+import { buildFarnellTerm } from './farnell.term';
+
+// Base for every store served by the element14 product-search API.
+// Subclasses only pick the supplier code and where the store id comes from.
+export abstract class Element14ApiAdapter implements SupplierAdapter {
+  abstract readonly code: SupplierCode;
+
+  constructor(protected readonly client: FarnellClient) {}
+
+  protected abstract storeId(): string | undefined;
+
+  buildTerm(query: SupplierQuery): string | null {
+    return buildFarnellTerm(query);
+  }
+
+  search(opts: SupplierSearchOptions): Promise<SupplierProduct[]> {
+    return this.client.searchProducts({
+      ...opts,
+      storeId: this.storeId(),
+      supplier: this.code,
+    });
+  }
+
+  async getBySku(
+    sku: string,
+    responseGroup: ResponseGroup = 'large',
+    priority?: RequestPriority,
+  ): Promise<SupplierProduct | null> {
+    const term = this.buildTerm({ id: sku });
+    if (!term) return null;
+
+    const items = await this.search({
+      term,
+      offset: 0,
+      numberOfResults: 1,
+      responseGroup,
+      priority,
+    });
+    return items[0] ?? null;
+  }
+
+  fetchCataloguePage(page: SupplierCataloguePage): Promise<SupplierProduct[]> {
+    return this.search({
+      term: page.term,
+      offset: page.offset,
+      numberOfResults: page.take,
+      responseGroup: 'large',
+      filter: page.filter,
+      priority: 'background',
+    });
+  }
+}
+
+@Injectable()
+export class FarnellAdapter extends Element14ApiAdapter {
+  readonly code = SupplierCode.farnell;
+
+  constructor(client: FarnellClient) {
+    super(client);
+  }
+
+  // FarnellClient falls back to SUPPLIER_FARNELL_STORE_ID itself.
+  protected storeId(): string | undefined {
+    return undefined;
+  }
+}
+
+export function configuredStoreId(
+  config: ConfigService,
+  key: string,
+  fallback?: string,
+): string | undefined {
+  const v = (config.get<string>(key) ?? '').trim();
+  return v || fallback;
+}
@@ -1,6 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { SupplierCode } from '@prisma/client';
 import { fetch as undiciFetch } from 'undici';
+import { CircuitBreaker, CircuitStatus } from '../circuit-breaker';
+import {
+  RequestPriority,
+  ResponseGroup,
+  SupplierProduct,
+  SupplierRateLimitError,
+} from '../supplier-adapter';
+import { FarnellBudgetService } from './farnell-budget.service';
+import { currencyForStore } from './farnell.stores';
 
 const maybeFetch: unknown = (globalThis as unknown as { fetch?: unknown })
   .fetch;
@@ -10,14 +20,7 @@ const fetchFn: typeof fetch =
     ? (maybeFetch as typeof fetch)
     : (undiciFetch as unknown as typeof fetch);
 
-export type SupplierProduct = {
-  supplier: 'farnell';
-  supplierSku: string;
-  name: string;
-  raw?: unknown;
-};
-
-export class FarnellRateLimitError extends Error {
+export class FarnellRateLimitError extends SupplierRateLimitError {
   readonly status = 403;
 
   constructor(message: string) {
@@ -26,24 +29,45 @@ export class FarnellRateLimitError extends Error {
   }
 }
 
-type FarnellSearchOptions = {
+// A 4xx other than a rate limit: the request itself is wrong, so it is not
+// retried.
+class FarnellRequestError extends Error {}
+
+export type FarnellSearchOptions = {
   term: string;
   offset?: number;
   numberOfResults?: number;
-  responseGroup?: 'small' | 'medium' | 'large';
+  responseGroup?: ResponseGroup;
+  // Refinement filter; SUPPLIER_FARNELL_FILTER applies when unset.
+  filter?: string;
+  // Newark and element14 share this API; they only differ by store id.
+  storeId?: string;
+  supplier?: SupplierCode;
+  // Defaults to interactive.
+  priority?: RequestPriority;
 };
 
 @Injectable()
 export class FarnellClient {
   private readonly logger = new Logger(FarnellClient.name);
+  // One circuit per store: Farnell, Newark and element14 share this client,
+  // and one store failing must not cut off the others.
+  private readonly breakers = new Map<string, CircuitBreaker>();
 
-  constructor(private readonly config: ConfigService) {}
+  constructor(
+    private readonly config: ConfigService,
+    private readonly budget: FarnellBudgetService,
+  ) {}
+
+  circuitStatus(storeId?: string): CircuitStatus {
+    return this.breakerFor(this.resolveStoreId(storeId)).status();
+  }
 
   fetchCatalogueMock(total: number): Promise<SupplierProduct[]> {
     this.logger.debug(`fetchCatalogueMock total=${total}`);
     return Promise.resolve(
       Array.from({ length: total }).map((_, idx) => ({
-        supplier: 'farnell',
+        supplier: SupplierCode.farnell,
         supplierSku: `FARNELL-${String(idx + 1).padStart(6, '0')}`,
         name: `Farnell mock product #${idx + 1}`,
       })),
@@ -56,12 +80,36 @@ export class FarnellClient {
     return v;
   }
 
+  private resolveStoreId(storeId?: string): string {
+    return (storeId ?? this.mustGet('SUPPLIER_FARNELL_STORE_ID')).trim();
+  }
+
+  private breakerFor(storeId: string): CircuitBreaker {
+    let breaker = this.breakers.get(storeId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`Farnell API (${storeId})`, {
+        failureThreshold: toPositiveInt(
+          this.config.get('SUPPLIER_CIRCUIT_FAILURE_THRESHOLD'),
+          5,
+        ),
+        openMs: toPositiveInt(
+          this.config.get('SUPPLIER_CIRCUIT_OPEN_MS'),
+          30_000,
+        ),
+      });
+      this.breakers.set(storeId, breaker);
+    }
+    return breaker;
+  }
+
   private buildBaseUrl(): string {
     return this.mustGet('SUPPLIER_FARNELL_BASE_URL').trim();
   }
 
   async searchProducts(opts: FarnellSearchOptions): Promise<SupplierProduct[]> {
-    const storeId = this.mustGet('SUPPLIER_FARNELL_STORE_ID').trim();
+    const storeId = this.resolveStoreId(opts.storeId);
+    const supplier = opts.supplier ?? SupplierCode.farnell;
+    const currency = currencyForStore(storeId);
     const apiKey = this.mustGet('SUPPLIER_FARNELL_API_KEY').trim();
 
     const offset = opts.offset ?? 0;
@@ -86,9 +134,11 @@ export class FarnellClient {
     );
     url.searchParams.set('resultsSettings.responseGroup', responseGroup);
 
-    // Optional filter from env
+    // Optional filter: per call (sync profiles), else from env
     const filter = (
-      this.config.get<string>('SUPPLIER_FARNELL_FILTER') ?? ''
+      opts.filter ??
+      this.config.get<string>('SUPPLIER_FARNELL_FILTER') ??
+      ''
     ).trim();
     if (filter) {
       url.searchParams.set('resultsSettings.refinements.filters', filter);
@@ -100,7 +150,11 @@ export class FarnellClient {
 
     this.logger.debug(`Farnell GET ${url.toString()}`);
 
-    const json = await this.fetchJsonWithRetry(url.toString());
+    const json = await this.fetchJsonWithRetry(
+      url.toString(),
+      this.breakerFor(storeId),
+      opts.priority ?? 'interactive',
+    );
 
     const obj = isRecord(json) ? json : null;
     const container =
@@ -173,17 +227,26 @@ export class FarnellClient {
         if (!sku || !name) return null;
 
         return {
-          supplier: 'farnell',
+          supplier,
           supplierSku: sku,
           name,
+          ...(currency ? { currency } : {}),
           raw: p,
+          responseGroup,
         };
       })
       .filter(isNotNull);
   }
 
+  // Every attempt, retries included, is one call against the request
+  // budget and counts for the circuit breaker on its own; an exhausted
+  // budget or an open circuit is thrown straight to the caller. Neither a
+  // plain 4xx nor a failure that leaves the circuit open or half-open is
+  // retried.
   private async fetchJsonWithRetry(
     url: string,
+    breaker: CircuitBreaker,
+    priority: RequestPriority,
     maxAttempts = 5,
   ): Promise<unknown> {
     let attempt = 0;
@@ -191,12 +254,16 @@ export class FarnellClient {
 
     while (true) {
       attempt++;
+      breaker.beforeCall();
+      try {
+        await this.budget.acquire(priority);
+      } catch (e) {
+        breaker.abandon();
+        throw e;
+      }
 
       try {
-        const res = await fetchFn(url, {
-          method: 'GET',
-          headers: { Accept: 'application/json' },
-        });
+        const res = await this.send(url, breaker);
 
         if (res.status === 429) {
           const retryAfter = res.headers.get('retry-after');
@@ -235,7 +302,9 @@ export class FarnellClient {
             );
           }
 
-          throw new Error(`Farnell HTTP ${res.status}. ${text.slice(0, 300)}`);
+          const message = `Farnell HTTP ${res.status}. ${text.slice(0, 300)}`;
+          if (res.status < 500) throw new FarnellRequestError(message);
+          throw new Error(message);
         }
 
         return await res.json();
@@ -245,16 +314,57 @@ export class FarnellClient {
           `Farnell request failed attempt=${attempt}/${maxAttempts}: ${err.message}`,
         );
 
-        if (attempt >= maxAttempts) throw err;
+        if (
+          err instanceof FarnellRequestError ||
+          attempt >= maxAttempts ||
+          breaker.status().state !== 'closed'
+        ) {
+          throw err;
+        }
 
         await new Promise((r) => setTimeout(r, delayMs));
         delayMs = Math.min(delayMs * 2, 10_000);
       }
     }
   }
+
+  // Network errors, timeouts and 5xx answers count against the circuit;
+  // any other answer shows the API is up.
+  private async send(url: string, breaker: CircuitBreaker): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetchFn(url, {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(
+          toPositiveInt(this.config.get('SUPPLIER_FARNELL_TIMEOUT_MS'), 10_000),
+        ),
+      });
+    } catch (e) {
+      this.recordFailure(breaker);
+      throw e;
+    }
+    if (res.status >= 500) this.recordFailure(breaker);
+    else breaker.onSuccess();
+    return res;
+  }
+
+  private recordFailure(breaker: CircuitBreaker) {
+    if (breaker.onFailure()) {
+      const { retryAt } = breaker.status();
+      this.logger.warn(
+        `${breaker.name} circuit opened; calls fail fast until ${retryAt?.toISOString()}`,
+      );
+    }
+  }
 }
 
 // helpers
+function toPositiveInt(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null;
 }
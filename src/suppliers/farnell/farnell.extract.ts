@@ -0,0 +1,200 @@
+// Readers for element14-family raw payloads (Farnell, Newark, element14).
+// Every field is optional in the API, so each reader tolerates missing data.
+
+export type FarnellPriceBreak = {
+  from?: number;
+  to?: number;
+  cost?: number;
+  currency?: string;
+};
+
+export type FarnellStock = {
+  level?: number;
+  status?: number;
+  leastLeadTime?: number;
+};
+
+export function extractFarnellDescription(raw: unknown): string | null {
+  if (!isRecord(raw)) return null;
+
+  const direct =
+    asString(raw.longDescription) ??
+    asString(raw.shortDescription) ??
+    asString(raw.description) ??
+    asString(raw.productDescription);
+  if (direct) return direct;
+
+  const overview = raw.productOverview;
+  if (isRecord(overview)) {
+    const fromOverview =
+      asString(overview.description) ??
+      asString(overview.shortDescription) ??
+      asString(overview.longDescription) ??
+      asString(overview.alsoKnownAs);
+    if (fromOverview) return fromOverview;
+  }
+
+  return asString(raw.displayName) ?? asString(raw.name) ?? null;
+}
+
+export function extractFarnellAttributes(
+  raw: unknown,
+): Array<{ label: string; value: string; unit?: string }> {
+  if (!isRecord(raw)) return [];
+
+  const attrsRaw = raw.attributes;
+  const list = Array.isArray(attrsRaw)
+    ? attrsRaw
+    : isRecord(attrsRaw) && Array.isArray(attrsRaw.attribute)
+      ? attrsRaw.attribute
+      : [];
+
+  return list
+    .map((entry) => {
+      if (!isRecord(entry)) return null;
+      const label = asString(entry.attributeLabel);
+      const value = asString(entry.attributeValue);
+      const unit = asString(entry.attributeUnit);
+      if (!label || !value) return null;
+      return { label, value, ...(unit ? { unit } : {}) };
+    })
+    .filter(isNotNull);
+}
+
+export function extractFarnellImages(
+  raw: unknown,
+): { main?: string; thumb?: string } | undefined {
+  if (!isRecord(raw)) return undefined;
+  const image = raw.image;
+  if (!isRecord(image)) return undefined;
+
+  const main =
+    asString(image.mainImageURL) ??
+    asString(image.mainImageUrl) ??
+    asString(image.mainImage);
+  const thumb =
+    asString(image.thumbNailImageURL) ??
+    asString(image.thumbnailImageURL) ??
+    asString(image.thumbnailImageUrl) ??
+    asString(image.thumbNailImageUrl) ??
+    asString(image.thumbNailImage) ??
+    asString(image.thumbnailImage);
+
+  if (!main && !thumb) return undefined;
+  return { ...(main ? { main } : {}), ...(thumb ? { thumb } : {}) };
+}
+
+export function extractFarnellDatasheets(
+  raw: unknown,
+): Array<{ type?: string; description?: string; url?: string }> {
+  if (!isRecord(raw)) return [];
+  const dsRaw = raw.datasheets;
+  const list = Array.isArray(dsRaw)
+    ? dsRaw
+    : isRecord(dsRaw) && Array.isArray(dsRaw.datasheet)
+      ? dsRaw.datasheet
+      : [];
+
+  return list
+    .map((entry) => {
+      if (!isRecord(entry)) return null;
+      const type = asString(entry.type);
+      const description = asString(entry.description);
+      const url = asString(entry.url);
+      if (!type && !description && !url) return null;
+      return {
+        ...(type ? { type } : {}),
+        ...(description ? { description } : {}),
+        ...(url ? { url } : {}),
+      };
+    })
+    .filter(isNotNull);
+}
+
+export function extractFarnellPrices(raw: unknown): FarnellPriceBreak[] {
+  if (!isRecord(raw)) return [];
+  const pricesRaw = raw.prices;
+  const list = Array.isArray(pricesRaw)
+    ? pricesRaw
+    : isRecord(pricesRaw) && Array.isArray(pricesRaw.price)
+      ? pricesRaw.price
+      : [];
+
+  return list
+    .map((entry) => {
+      if (!isRecord(entry)) return null;
+      const from = toNumber(entry.from);
+      const to = toNumber(entry.to);
+      const cost = toNumber(entry.cost);
+      const currency = asString(entry.currency) ?? asString(entry.currencyCode);
+      if (from === undefined && to === undefined && cost === undefined) {
+        return null;
+      }
+      return {
+        ...(from !== undefined ? { from } : {}),
+        ...(to !== undefined ? { to } : {}),
+        ...(cost !== undefined ? { cost } : {}),
+        ...(currency ? { currency: currency.toUpperCase() } : {}),
+      };
+    })
+    .filter(isNotNull);
+}
+
+export function extractFarnellStock(raw: unknown): FarnellStock | undefined {
+  if (!isRecord(raw)) return undefined;
+  const stock = raw.stock;
+  if (!isRecord(stock)) return undefined;
+
+  const level = toNumber(stock.level);
+  const status = toNumber(stock.status);
+  const leastLeadTime = toNumber(stock.leastLeadTime);
+
+  if (
+    level === undefined &&
+    status === undefined &&
+    leastLeadTime === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    ...(level !== undefined ? { level } : {}),
+    ...(status !== undefined ? { status } : {}),
+    ...(leastLeadTime !== undefined ? { leastLeadTime } : {}),
+  };
+}
+
+export function extractFarnellProductUrl(raw: unknown): string | null {
+  if (!isRecord(raw)) return null;
+  return asString(raw.productURL) ?? asString(raw.productUrl) ?? null;
+}
+
+export function extractFarnellBrandName(raw: unknown): string | null {
+  if (!isRecord(raw)) return null;
+  return (
+    asString(raw.brandName) ??
+    (isRecord(raw.brand) ? asString(raw.brand.name) : null) ??
+    null
+  );
+}
+
+// helpers
+function isNotNull<T>(v: T | null): v is T {
+  return v !== null;
+}
+
+function toNumber(v: unknown): number | undefined {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  if (typeof v === 'string' && v.trim()) {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v : undefined;
+}
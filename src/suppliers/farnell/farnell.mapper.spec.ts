@@ -0,0 +1,113 @@
+import { mapFarnellProduct, productContentHash } from './farnell.mapper';
+
+describe('mapFarnellProduct', () => {
+  it('maps prices, attributes, stock and datasheets', () => {
+    const mapped = mapFarnellProduct({
+      sku: '1234567',
+      displayName: 'Resistor 10k',
+      brandName: 'MULTICOMP',
+      translatedManufacturerPartNumber: 'MCWR06X1002FTL',
+      prices: [
+        { from: 10, to: 99, cost: 0.012 },
+        { from: 100, to: 999, cost: '0.008' },
+      ],
+      attributes: [
+        {
+          attributeLabel: 'Resistance',
+          attributeValue: '10',
+          attributeUnit: 'kohm',
+        },
+      ],
+      stock: { level: 5230, status: 1, leastLeadTime: 0 },
+      datasheets: [{ type: 'T', url: 'https://example.com/ds.pdf' }],
+    });
+
+    expect(mapped.manufacturer).toBe('MULTICOMP');
+    expect(mapped.mpn).toBe('MCWR06X1002FTL');
+    expect(mapped.priceBreaks).toEqual([
+      { quantityFrom: 10, quantityTo: 99, cost: 0.012, currency: 'GBP' },
+      { quantityFrom: 100, quantityTo: 999, cost: 0.008, currency: 'GBP' },
+    ]);
+    expect(mapped.attributes).toEqual([
+      {
+        label: 'Resistance',
+        value: '10',
+        unit: 'kohm',
+        position: 0,
+        parseStatus: 'numeric',
+        quantityKind: 'resistance',
+        numericValue: 10_000,
+        numericMin: 10_000,
+        numericMax: 10_000,
+        tolerancePct: null,
+      },
+    ]);
+    expect(mapped.stock).toEqual({ level: 5230, status: 1, leastLeadTime: 0 });
+    expect(mapped.datasheets).toEqual([
+      { type: 'T', description: null, url: 'https://example.com/ds.pdf' },
+    ]);
+  });
+
+  it('prices in the store currency unless the payload names one', () => {
+    const raw = { prices: [{ from: 1, cost: 2.5 }] };
+
+    expect(
+      mapFarnellProduct(raw, { currency: 'USD' }).priceBreaks[0].currency,
+    ).toBe('USD');
+    expect(
+      mapFarnellProduct({ ...raw, currency: 'eur' }, { currency: 'USD' })
+        .priceBreaks[0].currency,
+    ).toBe('EUR');
+  });
+
+  it('tolerates an empty payload', () => {
+    const mapped = mapFarnellProduct(null);
+
+    expect(mapped.manufacturer).toBeNull();
+    expect(mapped.priceBreaks).toEqual([]);
+    expect(mapped.stock).toEqual({
+      level: null,
+      status: null,
+      leastLeadTime: null,
+    });
+  });
+});
+
+describe('productContentHash', () => {
+  const payload = {
+    brandName: 'MULTICOMP',
+    prices: [{ from: 1, to: 9, cost: 0.1 }],
+    stock: { level: 10 },
+  };
+
+  it('ignores key order in the payload', () => {
+    const reordered = {
+      stock: { level: 10 },
+      prices: [{ cost: 0.1, to: 9, from: 1 }],
+      brandName: 'MULTICOMP',
+    };
+    expect(productContentHash('R', mapFarnellProduct(payload))).toBe(
+      productContentHash('R', mapFarnellProduct(reordered)),
+    );
+  });
+
+  it('changes with prices or name', () => {
+    const base = productContentHash('R', mapFarnellProduct(payload));
+    expect(
+      productContentHash(
+        'R',
+        mapFarnellProduct({ ...payload, prices: [{ from: 1, cost: 0.2 }] }),
+      ),
+    ).not.toBe(base);
+    expect(productContentHash('R2', mapFarnellProduct(payload))).not.toBe(base);
+  });
+
+  it('ignores stock', () => {
+    expect(
+      productContentHash(
+        'R',
+        mapFarnellProduct({ ...payload, stock: { level: 9 } }),
+      ),
+    ).toBe(productContentHash('R', mapFarnellProduct(payload)));
+  });
+});
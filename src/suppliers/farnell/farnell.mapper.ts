@@ -0,0 +1,238 @@
+import { createHash } from 'crypto';
+import { AttributeParseStatus, Prisma, QuantityKind } from '@prisma/client';
+import { parseAttributeValue } from '../../catalog/attribute-units';
+import {
+  extractFarnellAttributes,
+  extractFarnellBrandName,
+  extractFarnellDatasheets,
+  extractFarnellDescription,
+  extractFarnellPrices,
+  extractFarnellStock,
+} from './farnell.extract';
+
+// Normalized view of an element14-family payload. `raw` stays on Product as
+// the audit copy; these rows are what queries filter and sort on.
+export type FarnellMappedProduct = {
+  manufacturer: string | null;
+  mpn: string | null;
+  description: string | null;
+  attributeText: string | null;
+  unitCost: number | null;
+  minOrderQty: number | null;
+  orderMultiple: number | null;
+  priceBreaks: Array<{
+    quantityFrom: number;
+    quantityTo: number | null;
+    cost: number;
+    currency: string;
+  }>;
+  attributes: Array<{
+    label: string;
+    value: string;
+    unit: string | null;
+    position: number;
+    parseStatus: AttributeParseStatus;
+    quantityKind: QuantityKind | null;
+    numericValue: number | null;
+    numericMin: number | null;
+    numericMax: number | null;
+    tolerancePct: number | null;
+  }>;
+  stock: {
+    level: number | null;
+    status: number | null;
+    leastLeadTime: number | null;
+  };
+  datasheets: Array<{
+    type: string | null;
+    description: string | null;
+    url: string | null;
+  }>;
+};
+
+// Farnell UK, the default store, prices in GBP.
+const FALLBACK_CURRENCY = 'GBP';
+
+// `defaults.currency` is the store currency for payloads that do not state
+// one themselves (element14 payloads never do).
+export function mapFarnellProduct(
+  raw: unknown,
+  defaults: { currency?: string } = {},
+): FarnellMappedProduct {
+  const stock = extractFarnellStock(raw);
+  const attributes = extractFarnellAttributes(raw);
+  const currency =
+    extractFarnellCurrency(raw) ?? defaults.currency ?? FALLBACK_CURRENCY;
+  const priceBreaks = extractFarnellPrices(raw)
+    .filter((p) => p.cost !== undefined)
+    .map((p) => ({
+      quantityFrom: Math.max(1, Math.floor(p.from ?? 1)),
+      quantityTo: p.to !== undefined ? Math.floor(p.to) : null,
+      cost: p.cost as number,
+      currency: p.currency ?? currency,
+    }))
+    .sort((a, b) => a.quantityFrom - b.quantityFrom);
+
+  return {
+    manufacturer: extractFarnellBrandName(raw) ?? extractFarnellVendor(raw),
+    mpn: extractFarnellMpn(raw),
+    description: extractFarnellDescription(raw),
+    attributeText:
+      attributes
+        .map((a) => [a.value, a.unit].filter(Boolean).join(' '))
+        .join(' ') || null,
+    unitCost: priceBreaks[0]?.cost ?? null,
+    minOrderQty: extractFarnellPositiveInt(raw, [
+      'translatedMinimumOrderQuality',
+      'minimumOrderQuantity',
+    ]),
+    orderMultiple: extractFarnellPositiveInt(raw, [
+      'orderMultiples',
+      'orderMultiple',
+    ]),
+    priceBreaks,
+    attributes: attributes.map((a, position) => {
+      const parsed = parseAttributeValue(a);
+      const q = parsed.status === 'numeric' ? parsed.quantity : null;
+      return {
+        label: a.label,
+        value: a.value,
+        unit: a.unit ?? null,
+        position,
+        parseStatus: parsed.status,
+        quantityKind: q?.kind ?? null,
+        numericValue: q?.value ?? null,
+        numericMin: q?.min ?? null,
+        numericMax: q?.max ?? null,
+        tolerancePct: q?.tolerancePct ?? null,
+      };
+    }),
+    stock: {
+      level: toInt(stock?.level),
+      status: toInt(stock?.status),
+      leastLeadTime: toInt(stock?.leastLeadTime),
+    },
+    datasheets: extractFarnellDatasheets(raw).map((d) => ({
+      type: d.type ?? null,
+      description: d.description ?? null,
+      url: d.url ?? null,
+    })),
+  };
+}
+
+// Nested writes for Product.create / upsert.create.
+export function toNormalizedCreate(mapped: FarnellMappedProduct) {
+  return {
+    manufacturer: mapped.manufacturer,
+    mpn: mapped.mpn,
+    description: mapped.description,
+    attributeText: mapped.attributeText,
+    unitCost: mapped.unitCost,
+    minOrderQty: mapped.minOrderQty,
+    orderMultiple: mapped.orderMultiple,
+    priceBreaks: { create: mapped.priceBreaks },
+    attributes: { create: mapped.attributes },
+    stock: { create: mapped.stock },
+    datasheets: { create: mapped.datasheets },
+  } satisfies Partial<Prisma.ProductCreateInput>;
+}
+
+// Nested writes for Product.update / upsert.update. Child rows are replaced
+// wholesale so they always mirror the latest payload.
+export function toNormalizedUpdate(mapped: FarnellMappedProduct) {
+  return {
+    manufacturer: mapped.manufacturer,
+    mpn: mapped.mpn,
+    description: mapped.description,
+    attributeText: mapped.attributeText,
+    unitCost: mapped.unitCost,
+    minOrderQty: mapped.minOrderQty,
+    orderMultiple: mapped.orderMultiple,
+    priceBreaks: { deleteMany: {}, create: mapped.priceBreaks },
+    attributes: { deleteMany: {}, create: mapped.attributes },
+    stock: { upsert: { create: mapped.stock, update: mapped.stock } },
+    datasheets: { deleteMany: {}, create: mapped.datasheets },
+  } satisfies Partial<Prisma.ProductUpdateInput>;
+}
+
+// Fingerprint of a product's content: everything a sync would write except
+// stock, which moves on nearly every sync and is compared on its own. Object
+// keys are sorted so the hash only changes when the data does.
+export function productContentHash(
+  name: string,
+  mapped: FarnellMappedProduct,
+): string {
+  const content: Omit<FarnellMappedProduct, 'stock'> & { name: string } = {
+    name,
+    manufacturer: mapped.manufacturer,
+    mpn: mapped.mpn,
+    description: mapped.description,
+    attributeText: mapped.attributeText,
+    unitCost: mapped.unitCost,
+    minOrderQty: mapped.minOrderQty,
+    orderMultiple: mapped.orderMultiple,
+    priceBreaks: mapped.priceBreaks,
+    attributes: mapped.attributes,
+    datasheets: mapped.datasheets,
+  };
+  return createHash('sha256').update(stableStringify(content)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stableStringify(v)).join(',')}]`;
+  }
+  if (isRecord(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function extractFarnellMpn(raw: unknown): string | null {
+  if (!isRecord(raw)) return null;
+  return (
+    asString(raw.translatedManufacturerPartNumber) ??
+    asString(raw.manufacturerPartNumber) ??
+    null
+  );
+}
+
+function extractFarnellCurrency(raw: unknown): string | null {
+  if (!isRecord(raw)) return null;
+  const code = asString(raw.currency) ?? asString(raw.currencyCode);
+  return code ? code.toUpperCase() : null;
+}
+
+function extractFarnellVendor(raw: unknown): string | null {
+  if (!isRecord(raw)) return null;
+  return asString(raw.vendorName) ?? null;
+}
+
+// Farnell spells the MOQ field `translatedMinimumOrderQuality`.
+function extractFarnellPositiveInt(
+  raw: unknown,
+  keys: string[],
+): number | null {
+  if (!isRecord(raw)) return null;
+  for (const key of keys) {
+    const n = Number(raw[key]);
+    if (Number.isFinite(n) && n >= 1) return Math.floor(n);
+  }
+  return null;
+}
+
+// helpers
+function toInt(v: number | undefined): number | null {
+  return v !== undefined ? Math.floor(v) : null;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
@@ -0,0 +1,70 @@
+import { mergeFarnellPayload } from './farnell.merge';
+
+const large = {
+  sku: '1234567',
+  displayName: 'Resistor 10k',
+  prices: [{ from: 1, to: 9, cost: 0.02 }],
+  stock: { level: 100 },
+  attributes: [{ attributeLabel: 'Resistance', attributeValue: '10kohm' }],
+  image: { baseName: '/r.jpg' },
+};
+
+describe('mergeFarnellPayload', () => {
+  it('stores the incoming payload when nothing is stored', () => {
+    expect(
+      mergeFarnellPayload(null, { raw: large, richness: 'large' }),
+    ).toEqual({
+      raw: large,
+      richness: 'large',
+      refreshed: ['prices', 'stock'],
+    });
+  });
+
+  it('replaces the stored payload with one at least as rich', () => {
+    const incoming = { sku: '1234567', displayName: 'Resistor 10k', stock: {} };
+    const merged = mergeFarnellPayload(
+      { raw: large, richness: 'medium' },
+      { raw: incoming, richness: 'medium' },
+    );
+
+    expect(merged.raw).toEqual(incoming);
+    expect(merged.richness).toBe('medium');
+  });
+
+  it('keeps richer fields and refreshes volatile ones from a poorer payload', () => {
+    const merged = mergeFarnellPayload(
+      { raw: large, richness: 'large' },
+      {
+        raw: {
+          sku: '1234567',
+          displayName: 'Resistor 10k',
+          prices: [{ from: 1, to: 9, cost: 0.03 }],
+        },
+        richness: 'medium',
+      },
+    );
+
+    expect(merged).toEqual({
+      raw: {
+        sku: '1234567',
+        displayName: 'Resistor 10k',
+        prices: [{ from: 1, to: 9, cost: 0.03 }],
+        attributes: large.attributes,
+        image: large.image,
+      },
+      richness: 'large',
+      refreshed: ['prices', 'stock'],
+    });
+  });
+
+  it('keeps stored volatile fields a poorer payload does not carry', () => {
+    const merged = mergeFarnellPayload(
+      { raw: large, richness: null },
+      { raw: { sku: '1234567', displayName: 'Resistor' }, richness: 'small' },
+    );
+
+    expect(merged.raw).toEqual({ ...large, displayName: 'Resistor' });
+    expect(merged.richness).toBe('large');
+    expect(merged.refreshed).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { ResponseGroup } from '../supplier-adapter';
+
+// Field-level merge of element14-family payloads. A poorer response (say a
+// `small` lookup) must not wipe the attributes and images a `large` sync
+// stored, but prices and stock change too often to keep an old copy once a
+// response that carries them arrives.
+
+const RANK: Record<ResponseGroup, number> = { small: 0, medium: 1, large: 2 };
+
+// Volatile top-level keys and the poorest response group that always
+// returns them: when such a response omits the key, the value is gone.
+const VOLATILE_FIELDS = {
+  prices: 'medium',
+  stock: 'medium',
+} as const satisfies Record<string, ResponseGroup>;
+
+export type VolatileField = keyof typeof VOLATILE_FIELDS;
+
+export type StoredPayload = {
+  raw: unknown;
+  richness: ResponseGroup | null;
+};
+
+export type MergedPayload = {
+  raw: unknown;
+  richness: ResponseGroup;
+  // Volatile fields the incoming payload answered for; their timestamps
+  // move to the time of this fetch.
+  refreshed: VolatileField[];
+};
+
+export function mergeFarnellPayload(
+  stored: StoredPayload | null,
+  incoming: { raw: unknown; richness: ResponseGroup },
+): MergedPayload {
+  const refreshed = (Object.keys(VOLATILE_FIELDS) as VolatileField[]).filter(
+    (field) =>
+      (isRecord(incoming.raw) && field in incoming.raw) ||
+      RANK[incoming.richness] >= RANK[VOLATILE_FIELDS[field]],
+  );
+
+  // Stored payloads from before richness was recorded came from `large`
+  // requests (the only group the sync and lookups used).
+  const storedRichness = stored?.richness ?? 'large';
+  if (
+    !stored ||
+    !isRecord(stored.raw) ||
+    !isRecord(incoming.raw) ||
+    RANK[incoming.richness] >= RANK[storedRichness]
+  ) {
+    return { raw: incoming.raw, richness: incoming.richness, refreshed };
+  }
+
+  const raw: Record<string, unknown> = { ...stored.raw, ...incoming.raw };
+  for (const field of refreshed) {
+    if (!(field in incoming.raw)) delete raw[field];
+  }
+  return { raw, richness: storedRichness, refreshed };
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,41 @@
+// Currency each element14-family store prices in. The product search API
+// returns bare numbers, so the store is the only source of the currency.
+const STORE_CURRENCIES: Record<string, string> = {
+  'uk.farnell.com': 'GBP',
+  'ie.farnell.com': 'EUR',
+  'de.farnell.com': 'EUR',
+  'fr.farnell.com': 'EUR',
+  'it.farnell.com': 'EUR',
+  'es.farnell.com': 'EUR',
+  'nl.farnell.com': 'EUR',
+  'be.farnell.com': 'EUR',
+  'at.farnell.com': 'EUR',
+  'fi.farnell.com': 'EUR',
+  'pt.farnell.com': 'EUR',
+  'ch.farnell.com': 'CHF',
+  'se.farnell.com': 'SEK',
+  'dk.farnell.com': 'DKK',
+  'no.farnell.com': 'NOK',
+  'pl.farnell.com': 'PLN',
+  'cz.farnell.com': 'CZK',
+  'hu.farnell.com': 'HUF',
+  'il.farnell.com': 'USD',
+  'www.newark.com': 'USD',
+  'canada.newark.com': 'CAD',
+  'mexico.newark.com': 'USD',
+  'au.element14.com': 'AUD',
+  'nz.element14.com': 'NZD',
+  'sg.element14.com': 'SGD',
+  'my.element14.com': 'MYR',
+  'in.element14.com': 'INR',
+  'cn.element14.com': 'CNY',
+  'hk.element14.com': 'HKD',
+  'tw.element14.com': 'TWD',
+  'kr.element14.com': 'KRW',
+  'th.element14.com': 'THB',
+  'ph.element14.com': 'PHP',
+};
+
+export function currencyForStore(storeId?: string): string | undefined {
+  return storeId ? STORE_CURRENCIES[storeId.trim().toLowerCase()] : undefined;
+}
@@ -0,0 +1,25 @@
+import { SupplierQuery } from '../supplier-adapter';
+
+// Builds an element14 product-search term (`any:`, `id:`, `manuPartNum:`).
+// Shared by Farnell, Newark and element14 since they use the same API.
+export function buildFarnellTerm(input: SupplierQuery): string | null {
+  const directTerm = input.term?.trim();
+  if (directTerm) return directTerm;
+
+  const mpn = input.mpn?.trim();
+  if (mpn) return `manuPartNum:${mpn}`;
+
+  const id = input.id?.trim();
+  if (id) return `id:${id}`;
+
+  const keyword = input.keyword?.trim();
+  if (keyword) return `any:${keyword}`;
+
+  const q = input.q?.trim();
+  if (!q) return null;
+
+  if (/\s/.test(q)) return `any:${q}`;
+  if (/^\d+$/.test(q)) return `id:${q}`;
+
+  return `manuPartNum:${q}`;
+}
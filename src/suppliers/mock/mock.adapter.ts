@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupplierCode } from '@prisma/client';
+import {
+  SupplierAdapter,
+  SupplierCataloguePage,
+  SupplierProduct,
+  SupplierQuery,
+  SupplierSearchOptions,
+} from '../supplier-adapter';
+
+const BRANDS = ['Acme', 'Ohmtek', 'Voltaic', 'Microbits'];
+
+// Offline supplier with a deterministic catalogue. Raw payloads follow the
+// element14 shape so the same extractors work on them.
+@Injectable()
+export class MockSupplierAdapter implements SupplierAdapter {
+  readonly code = SupplierCode.mock;
+
+  constructor(private readonly config: ConfigService) {}
+
+  buildTerm(query: SupplierQuery): string | null {
+    const v =
+      query.term ?? query.mpn ?? query.id ?? query.keyword ?? query.q ?? '';
+    return v.trim() || null;
+  }
+
+  search(opts: SupplierSearchOptions): Promise<SupplierProduct[]> {
+    const needle = stripTermPrefix(opts.term).toLowerCase();
+    const matches = this.catalogue().filter(
+      (p) =>
+        !needle ||
+        p.supplierSku.toLowerCase() === needle ||
+        p.name.toLowerCase().includes(needle),
+    );
+    const offset = opts.offset ?? 0;
+    const take = opts.numberOfResults ?? 50;
+    return Promise.resolve(matches.slice(offset, offset + take));
+  }
+
+  getBySku(sku: string): Promise<SupplierProduct | null> {
+    const found = this.catalogue().find((p) => p.supplierSku === sku.trim());
+    return Promise.resolve(found ?? null);
+  }
+
+  fetchCataloguePage(page: SupplierCataloguePage): Promise<SupplierProduct[]> {
+    return Promise.resolve(
+      this.catalogue().slice(page.offset, page.offset + page.take),
+    );
+  }
+
+  private catalogue(): SupplierProduct[] {
+    const size = Number(this.config.get('SUPPLIER_MOCK_CATALOGUE_SIZE'));
+    const total = Number.isFinite(size) && size > 0 ? Math.floor(size) : 200;
+    return Array.from({ length: total }).map((_, idx) => buildMockProduct(idx));
+  }
+}
+
+function buildMockProduct(idx: number): SupplierProduct {
+  const n = idx + 1;
+  const sku = `MOCK-${String(n).padStart(6, '0')}`;
+  const name = `Mock component #${n}`;
+  const brandName = BRANDS[idx % BRANDS.length];
+  const unitCost = Math.round((0.05 + (n % 37) * 0.11) * 100) / 100;
+
+  return {
+    supplier: SupplierCode.mock,
+    supplierSku: sku,
+    name,
+    currency: 'GBP',
+    raw: {
+      sku,
+      displayName: name,
+      brandName,
+      translatedManufacturerPartNumber: `MCK-${n}`,
+      prices: [
+        { from: 1, to: 9, cost: unitCost },
+        { from: 10, to: 99, cost: Math.round(unitCost * 90) / 100 },
+        { from: 100, to: 999999, cost: Math.round(unitCost * 75) / 100 },
+      ],
+      stock: { level: (n * 17) % 500, status: 1, leastLeadTime: 0 },
+      attributes: [
+        { attributeLabel: 'Resistance', attributeValue: `${n}kohm` },
+        { attributeLabel: 'Tolerance', attributeValue: '± 1%' },
+      ],
+    },
+  };
+}
+
+function stripTermPrefix(term: string): string {
+  const idx = term.indexOf(':');
+  return (idx >= 0 ? term.slice(idx + 1) : term).trim();
+}
@@ -0,0 +1,96 @@
+import { SupplierCode } from '@prisma/client';
+
+export type SupplierProduct = {
+  supplier: SupplierCode;
+  supplierSku: string;
+  name: string;
+  // ISO 4217 code the prices in `raw` are quoted in.
+  currency?: string;
+  raw?: unknown;
+  // Response group `raw` was fetched with; unset means the full payload.
+  responseGroup?: ResponseGroup;
+};
+
+export type ResponseGroup = 'small' | 'medium' | 'large';
+
+// Interactive calls (live search, product lookups) are served before
+// background ones (sync, price refresh) when a supplier budget is tight.
+export type RequestPriority = 'interactive' | 'background';
+
+export type SupplierQuery = {
+  term?: string;
+  q?: string;
+  mpn?: string;
+  id?: string;
+  keyword?: string;
+};
+
+export type SupplierSearchOptions = {
+  term: string;
+  offset?: number;
+  numberOfResults?: number;
+  responseGroup?: ResponseGroup;
+  // Supplier-specific refinement; sources without filters ignore it.
+  filter?: string;
+  // Defaults to interactive.
+  priority?: RequestPriority;
+};
+
+export type SupplierCataloguePage = {
+  term: string;
+  offset: number;
+  take: number;
+  filter?: string;
+};
+
+// Common contract every supplier source implements. Terms are supplier
+// specific, so callers build them through `buildTerm` instead of by hand.
+export interface SupplierAdapter {
+  readonly code: SupplierCode;
+
+  buildTerm(query: SupplierQuery): string | null;
+
+  search(opts: SupplierSearchOptions): Promise<SupplierProduct[]>;
+
+  getBySku(
+    sku: string,
+    responseGroup?: ResponseGroup,
+    priority?: RequestPriority,
+  ): Promise<SupplierProduct | null>;
+
+  // Always background priority.
+  fetchCataloguePage(page: SupplierCataloguePage): Promise<SupplierProduct[]>;
+}
+
+export class SupplierRateLimitError extends Error {
+  readonly status: number = 429;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SupplierRateLimitError';
+  }
+}
+
+// Our own call budget ran out; nothing was sent to the supplier. Retrying
+// before `resetAt` is pointless.
+export class SupplierBudgetExhaustedError extends SupplierRateLimitError {
+  constructor(
+    message: string,
+    readonly resetAt: Date,
+  ) {
+    super(message);
+    this.name = 'SupplierBudgetExhaustedError';
+  }
+}
+
+// The supplier's circuit breaker is open after repeated failures; the call
+// was not attempted. Callers should fall back to local data.
+export class SupplierUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly retryAt: Date,
+  ) {
+    super(message);
+    this.name = 'SupplierUnavailableError';
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupplierCode } from '@prisma/client';
+import { Element14Adapter } from './element14/element14.adapter';
+import { FarnellAdapter } from './farnell/farnell.adapter';
+import { MockSupplierAdapter } from './mock/mock.adapter';
+import { NewarkAdapter } from './newark/newark.adapter';
+import { SupplierAdapter } from './supplier-adapter';
+
+@Injectable()
+export class SupplierRegistry {
+  private readonly logger = new Logger(SupplierRegistry.name);
+  private readonly adapters = new Map<SupplierCode, SupplierAdapter>();
+  private readonly enabledCodes: SupplierCode[];
+
+  constructor(
+    config: ConfigService,
+    farnell: FarnellAdapter,
+    newark: NewarkAdapter,
+    element14: Element14Adapter,
+    mock: MockSupplierAdapter,
+  ) {
+    for (const adapter of [farnell, newark, element14, mock]) {
+      this.adapters.set(adapter.code, adapter);
+    }
+
+    // Comma separated list, e.g. SUPPLIERS_ENABLED=farnell,newark
+    const raw = config.get<string>('SUPPLIERS_ENABLED') ?? SupplierCode.farnell;
+    this.enabledCodes = raw
+      .split(',')
+      .map((v) => parseSupplierCode(v))
+      .filter((v): v is SupplierCode => v !== null)
+      .filter((v, idx, arr) => arr.indexOf(v) === idx);
+
+    this.logger.log(`Enabled suppliers: ${this.enabledCodes.join(',')}`);
+  }
+
+  isEnabled(code: SupplierCode): boolean {
+    return this.enabledCodes.includes(code);
+  }
+
+  // Returns the adapter only when the supplier is enabled.
+  get(code: SupplierCode): SupplierAdapter | null {
+    if (!this.isEnabled(code)) return null;
+    return this.adapters.get(code) ?? null;
+  }
+
+  enabled(): SupplierAdapter[] {
+    return this.enabledCodes
+      .map((code) => this.adapters.get(code))
+      .filter((v): v is SupplierAdapter => v !== undefined);
+  }
+
+  enabledCodesList(): SupplierCode[] {
+    return [...this.enabledCodes];
+  }
+}
+
+export function parseSupplierCode(value?: string): SupplierCode | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (normalized === 'farnell') return SupplierCode.farnell;
+  if (normalized === 'newark') return SupplierCode.newark;
+  if (normalized === 'element14') return SupplierCode.element14;
+  if (normalized === 'mock') return SupplierCode.mock;
+
+  return null;
+}
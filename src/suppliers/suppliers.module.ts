@@ -1,8 +1,24 @@
 import { Module } from '@nestjs/common';
+import { Element14Adapter } from './element14/element14.adapter';
+import { FarnellAdapter } from './farnell/farnell.adapter';
+import { FarnellBudgetController } from './farnell/farnell-budget.controller';
+import { FarnellBudgetService } from './farnell/farnell-budget.service';
 import { FarnellClient } from './farnell/farnell.client';
+import { MockSupplierAdapter } from './mock/mock.adapter';
+import { NewarkAdapter } from './newark/newark.adapter';
+import { SupplierRegistry } from './supplier-registry';
 
 @Module({
-  providers: [FarnellClient],
-  exports: [FarnellClient],
+  controllers: [FarnellBudgetController],
+  providers: [
+    FarnellBudgetService,
+    FarnellClient,
+    FarnellAdapter,
+    NewarkAdapter,
+    Element14Adapter,
+    MockSupplierAdapter,
+    SupplierRegistry,
+  ],
+  exports: [FarnellClient, SupplierRegistry],
 })
 export class SuppliersModule {}